@@ -0,0 +1,124 @@
+import { Pipeline, Repository } from "@/lib/types";
+
+interface BuildDeployCardProps {
+  repository: Repository;
+}
+
+function Tag({ children, className = "bg-gray-100 text-gray-700" }: { children: React.ReactNode; className?: string }) {
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${className}`}>{children}</span>
+  );
+}
+
+function PipelineSummary({ pipeline }: { pipeline: Pipeline }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-baseline justify-between gap-2">
+        <h4 className="text-sm font-medium text-gray-900">{pipeline.name ?? pipeline.system}</h4>
+        <span className="text-xs text-gray-500 font-mono truncate" title={pipeline.file}>{pipeline.file}</span>
+      </div>
+      {pipeline.name && <p className="text-xs text-gray-500">{pipeline.system}</p>}
+
+      {pipeline.triggers.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {pipeline.triggers.map(trigger => (
+            <Tag key={trigger} className="bg-blue-50 text-blue-700">{trigger}</Tag>
+          ))}
+        </div>
+      )}
+
+      {pipeline.jobs.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {pipeline.jobs.map(job => (
+            <li key={job.name} className="flex flex-wrap items-center gap-x-2 text-gray-700">
+              <span className="font-medium">{job.name}</span>
+              {job.runsOn && <span className="text-xs text-gray-500">on {job.runsOn}</span>}
+              {job.needs.length > 0 && <span className="text-xs text-gray-500">after {job.needs.join(", ")}</span>}
+              {job.matrix.map(axis => (
+                <Tag key={axis} className="bg-purple-50 text-purple-700">{axis}</Tag>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function BuildDeployCard({ repository }: BuildDeployCardProps) {
+  const { pipelines, actions, deployTargets, containers } = repository.buildDeploy;
+  const empty = pipelines.length === 0 && deployTargets.length === 0 && containers.length === 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-medium text-gray-900">Build &amp; Deploy</h2>
+      </div>
+
+      {empty ? (
+        <div className="px-6 py-8 text-center text-gray-500">No CI, container or deploy configuration found</div>
+      ) : (
+        <div className="px-6 py-5 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Pipelines and their jobs */}
+          <div className="lg:col-span-2 space-y-4">
+            <h3 className="text-base font-medium text-gray-900">Pipelines</h3>
+            {pipelines.length === 0 && <p className="text-sm text-gray-500">No CI pipelines found</p>}
+            {pipelines.map(pipeline => (
+              <PipelineSummary key={pipeline.file} pipeline={pipeline} />
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-base font-medium text-gray-900 mb-2">Deploys To</h3>
+              {deployTargets.length === 0 ? (
+                <p className="text-sm text-gray-500">No deploy targets found</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {deployTargets.map(target => (
+                    <li key={`${target.platform}:${target.file}:${target.detail}`} className="text-gray-700" title={target.file}>
+                      <span className="font-medium">{target.platform}</span>
+                      {target.detail && <span className="text-gray-500"> · {target.detail}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {containers.length > 0 && (
+              <div>
+                <h3 className="text-base font-medium text-gray-900 mb-2">Containers</h3>
+                <ul className="space-y-2 text-sm">
+                  {containers.map(container => (
+                    <li key={container.file} className="text-gray-700">
+                      <span className="font-mono text-xs">{container.file}</span>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {(container.kind === "Compose" ? container.services : container.images).map(name => (
+                          <Tag key={name}>{name}</Tag>
+                        ))}
+                        {container.ports.length > 0 && (
+                          <span className="text-xs text-gray-500">ports {container.ports.join(", ")}</span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {actions.length > 0 && (
+              <div>
+                <h3 className="text-base font-medium text-gray-900 mb-2">Actions Used</h3>
+                <div className="flex flex-wrap gap-1">
+                  {actions.map(action => (
+                    <Tag key={action}>{action}</Tag>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
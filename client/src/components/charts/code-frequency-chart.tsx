@@ -0,0 +1,111 @@
+import { Area, AreaChart, CartesianGrid, Tooltip, XAxis, YAxis } from "recharts";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { CodeFrequency } from "@/lib/types";
+
+interface CodeFrequencyChartProps {
+  codeFrequency: CodeFrequency;
+  pending?: boolean;
+}
+
+const chartConfig = {
+  additions: { label: "Additions", color: "#22c55e" },
+  deletions: { label: "Deletions", color: "#ef4444" },
+} satisfies ChartConfig;
+
+// Large line counts as 1.2k or 3.4M to keep the axis narrow
+function formatLines(value: number): string {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1)}M`;
+  }
+  if (magnitude >= 1_000) {
+    return `${(value / 1_000).toFixed(1)}k`;
+  }
+  return String(value);
+}
+
+export default function CodeFrequencyChart({ codeFrequency, pending }: CodeFrequencyChartProps) {
+  if (pending) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Waiting for GitHub to compute code frequency statistics</p>
+      </div>
+    );
+  }
+
+  if (!codeFrequency || codeFrequency.weeks.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">No code frequency data available</p>
+      </div>
+    );
+  }
+
+  // Deletions are drawn below the axis, stacked away from additions
+  const data = codeFrequency.weeks.map(week => ({
+    week: week.week,
+    additions: week.additions,
+    deletions: -week.deletions,
+  }));
+  const quarters = [...codeFrequency.quarters].reverse();
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <ChartContainer config={chartConfig} className="lg:col-span-2 h-64 w-full aspect-auto">
+        <AreaChart data={data} stackOffset="sign" margin={{ left: 0, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="week" tickLine={false} minTickGap={32} tickFormatter={(week: string) => week.slice(0, 7)} />
+          <YAxis tickLine={false} width={48} tickFormatter={formatLines} />
+          <Tooltip
+            labelFormatter={(week: string) => `Week of ${week}`}
+            formatter={(value: number, name: string) => [
+              Math.abs(value).toLocaleString(),
+              name === "additions" ? "Additions" : "Deletions",
+            ]}
+          />
+          <Area dataKey="additions" type="monotone" stackId="changes" stroke="var(--color-additions)" fill="var(--color-additions)" fillOpacity={0.4} />
+          <Area dataKey="deletions" type="monotone" stackId="changes" stroke="var(--color-deletions)" fill="var(--color-deletions)" fillOpacity={0.4} />
+        </AreaChart>
+      </ChartContainer>
+
+      {/* Quarterly churn, newest first */}
+      <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quarter</th>
+              <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+              <th
+                scope="col"
+                className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                title="Deleted lines per added line"
+              >
+                Churn
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {quarters.map(quarter => (
+              <tr key={quarter.quarter} title={`+${quarter.additions.toLocaleString()} / -${quarter.deletions.toLocaleString()} lines`}>
+                <td className="px-3 py-2 whitespace-nowrap text-gray-700">
+                  {quarter.quarter}
+                  {quarter.rewrite && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                      Rewrite
+                    </span>
+                  )}
+                </td>
+                <td className={`px-3 py-2 whitespace-nowrap text-right ${quarter.net >= 0 ? "text-green-700" : "text-red-700"}`}>
+                  {quarter.net >= 0 ? "+" : ""}{formatLines(quarter.net)}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">
+                  {quarter.churnRatio === null ? "—" : quarter.churnRatio.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
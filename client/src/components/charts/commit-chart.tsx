@@ -2,9 +2,23 @@ import { CommitActivity } from "@/lib/types";
 
 interface CommitChartProps {
   commitActivity: CommitActivity[];
+  pending?: boolean;
 }
 
-export default function CommitChart({ commitActivity }: CommitChartProps) {
+export default function CommitChart({ commitActivity, pending }: CommitChartProps) {
+  if (pending) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center">
+        <svg className="animate-spin h-5 w-5 mb-2 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        <p className="text-gray-500">GitHub is still computing commit statistics</p>
+        <p className="text-xs text-gray-400 mt-1">The chart will update automatically once they are ready</p>
+      </div>
+    );
+  }
+
   if (!commitActivity || commitActivity.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -18,7 +32,7 @@ export default function CommitChart({ commitActivity }: CommitChartProps) {
 
   return (
     <div className="h-full flex flex-col justify-center">
-      <div className="flex h-40 items-end space-x-2">
+      <div className="flex h-40 items-end space-x-px">
         {commitActivity.map((activity, index) => {
           const heightPercentage = (activity.count / (maxCommitCount || 1)) * 100;
           // Using style for both height and background color instead of Tailwind classes
@@ -26,19 +40,24 @@ export default function CommitChart({ commitActivity }: CommitChartProps) {
           
           return (
             <div 
-              key={index}
-              className="w-8 rounded-t" 
+              key={activity.week}
+              className="flex-1 rounded-t" 
+              title={`Week of ${activity.week}: ${activity.count} commits`}
               style={{ 
-                height: `${heightPercentage || 5}%`, 
-                backgroundColor: `rgba(59, 130, 246, ${0.5 + (index * 0.07)})`
+                height: `${heightPercentage || 2}%`, 
+                backgroundColor: `rgba(59, 130, 246, ${0.4 + (index / commitActivity.length) * 0.6})`
               }}
             ></div>
           );
         })}
       </div>
-      <div className="flex justify-between mt-2 text-xs text-gray-500">
+      <div className="flex space-x-px mt-2 text-xs text-gray-500">
         {commitActivity.map((activity, index) => (
-          <span key={index}>{activity.month}</span>
+          // Months are named on the first week that starts in them, so the
+          // partial month at the start doesn't crowd the next label
+          <span key={activity.week} className="flex-1 overflow-visible whitespace-nowrap">
+            {index > 0 && commitActivity[index - 1].month !== activity.month ? activity.month : ""}
+          </span>
         ))}
       </div>
     </div>
@@ -0,0 +1,107 @@
+import { CommitActivity } from "@/lib/types";
+
+interface CommitHeatmapProps {
+  commitActivity: CommitActivity[];
+  pending?: boolean;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// Empty days, then four levels of activity
+const LEVEL_CLASSES = ["bg-gray-100", "bg-green-200", "bg-green-400", "bg-green-600", "bg-green-800"];
+
+// Counts that start levels 2-4, at the quartiles of the days with commits, so
+// a few busy days don't wash out everything else
+function levelThresholds(counts: number[]): number[] {
+  const active = counts.filter(count => count > 0).sort((a, b) => a - b);
+  if (active.length === 0) {
+    return [];
+  }
+  return [0.25, 0.5, 0.75].map(quantile => active[Math.floor(quantile * (active.length - 1))]);
+}
+
+function levelFor(count: number, thresholds: number[]): number {
+  if (count === 0) {
+    return 0;
+  }
+  return 1 + thresholds.filter(threshold => count > threshold).length;
+}
+
+function addDays(isoDate: string, days: number): Date {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+export default function CommitHeatmap({ commitActivity, pending }: CommitHeatmapProps) {
+  if (pending) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Waiting for GitHub to compute commit statistics</p>
+      </div>
+    );
+  }
+
+  if (!commitActivity || commitActivity.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">No commit data available</p>
+      </div>
+    );
+  }
+
+  const thresholds = levelThresholds(commitActivity.flatMap(week => week.days));
+  const total = commitActivity.reduce((sum, week) => sum + week.count, 0);
+  const now = new Date();
+
+  return (
+    <div className="h-full flex flex-col justify-center">
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col">
+          <div className="flex ml-8 mb-1 text-xs text-gray-500">
+            {commitActivity.map((week, index) => (
+              <span key={week.week} className="w-3 mr-0.5 overflow-visible whitespace-nowrap">
+                {index > 0 && commitActivity[index - 1].month !== week.month ? week.month : ""}
+              </span>
+            ))}
+          </div>
+          <div className="flex">
+            <div className="flex flex-col w-8 text-xs text-gray-500">
+              {WEEKDAYS.map((weekday, day) => (
+                // Every other weekday is named, like GitHub's calendar
+                <span key={weekday} className="h-3 mb-0.5 leading-3">{day % 2 === 1 ? weekday : ""}</span>
+              ))}
+            </div>
+            {commitActivity.map(week => (
+              <div key={week.week} className="flex flex-col mr-0.5">
+                {week.days.map((count, day) => {
+                  const date = addDays(week.week, day);
+                  // Days of the current week that haven't happened yet
+                  if (date > now) {
+                    return <div key={day} className="w-3 h-3 mb-0.5" />;
+                  }
+                  return (
+                    <div
+                      key={day}
+                      className={`w-3 h-3 mb-0.5 rounded-sm ${LEVEL_CLASSES[levelFor(count, thresholds)]}`}
+                      title={`${count} ${count === 1 ? "commit" : "commits"} on ${date.toISOString().slice(0, 10)}`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+        <span>{total} commits in the last year</span>
+        <div className="flex items-center">
+          <span className="mr-1">Less</span>
+          {LEVEL_CLASSES.map(levelClass => (
+            <div key={levelClass} className={`w-3 h-3 mr-0.5 rounded-sm ${levelClass}`} />
+          ))}
+          <span className="ml-1">More</span>
+        </div>
+      </div>
+    </div>
+  );
+}
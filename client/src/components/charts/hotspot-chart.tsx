@@ -0,0 +1,57 @@
+import { CartesianGrid, Scatter, ScatterChart, Tooltip, XAxis, YAxis, ZAxis } from "recharts";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { Hotspot } from "@/lib/types";
+
+interface HotspotChartProps {
+  files: Hotspot[];
+  onSelect: (path: string) => void;
+}
+
+const chartConfig = {
+  hotspot: { label: "Hotspot", color: "#ef4444" },
+  other: { label: "Other files", color: "#94a3b8" },
+} satisfies ChartConfig;
+
+function HotspotTooltip({ active, payload }: { active?: boolean; payload?: { payload: Hotspot }[] }) {
+  const file = active ? payload?.[0]?.payload : undefined;
+  if (!file) {
+    return null;
+  }
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-xs shadow-md">
+      <p className="font-medium text-gray-900 break-all">{file.path}</p>
+      <p className="text-gray-600">{file.changes} commits · cyclomatic {file.cyclomatic}</p>
+    </div>
+  );
+}
+
+// Changes against complexity; the top right corner holds the files most worth refactoring
+export default function HotspotChart({ files, onSelect }: HotspotChartProps) {
+  const hotspots = files.filter(file => file.hotspot);
+  const others = files.filter(file => !file.hotspot);
+
+  return (
+    <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+      <ScatterChart margin={{ left: 0, right: 8, top: 8, bottom: 8 }}>
+        <CartesianGrid />
+        <XAxis type="number" dataKey="changes" name="Commits" tickLine={false} allowDecimals={false} />
+        <YAxis type="number" dataKey="cyclomatic" name="Cyclomatic complexity" tickLine={false} width={40} />
+        {/* Bigger points for higher scores */}
+        <ZAxis type="number" dataKey="score" range={[40, 400]} />
+        <Tooltip content={<HotspotTooltip />} cursor={{ strokeDasharray: "3 3" }} />
+        <Scatter
+          data={others}
+          fill="var(--color-other)"
+          className="cursor-pointer"
+          onClick={(point: { payload?: Hotspot }) => point.payload && onSelect(point.payload.path)}
+        />
+        <Scatter
+          data={hotspots}
+          fill="var(--color-hotspot)"
+          className="cursor-pointer"
+          onClick={(point: { payload?: Hotspot }) => point.payload && onSelect(point.payload.path)}
+        />
+      </ScatterChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,61 @@
+interface PunchCardProps {
+  // Commits per weekday (Sunday first) and hour of the day in UTC
+  punchCard: number[][];
+  pending?: boolean;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function PunchCard({ punchCard, pending }: PunchCardProps) {
+  if (pending) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">Waiting for GitHub to compute commit statistics</p>
+      </div>
+    );
+  }
+
+  const maxCount = Math.max(0, ...(punchCard ?? []).flat());
+  if (maxCount === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-gray-500">No commit data available</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col justify-center overflow-x-auto">
+      <div className="inline-flex flex-col min-w-max">
+        {punchCard.map((hours, day) => (
+          <div key={WEEKDAYS[day]} className="flex items-center h-6">
+            <span className="w-10 text-xs text-gray-500">{WEEKDAYS[day]}</span>
+            {hours.map((count, hour) => {
+              // Area rather than diameter follows the count
+              const size = count > 0 ? Math.max(3, Math.sqrt(count / maxCount) * 20) : 0;
+              return (
+                <div
+                  key={hour}
+                  className="w-6 h-6 flex items-center justify-center"
+                  title={`${count} ${count === 1 ? "commit" : "commits"} on ${WEEKDAYS[day]} at ${hour}:00 UTC`}
+                >
+                  {size > 0 && (
+                    <div className="rounded-full bg-blue-500" style={{ width: `${size}px`, height: `${size}px` }} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        <div className="flex mt-1 text-xs text-gray-500">
+          <span className="w-10">UTC</span>
+          {HOURS.map(hour => (
+            // Every third hour is labeled to keep the axis readable
+            <span key={hour} className="w-6 text-center">{hour % 3 === 0 ? hour : ""}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
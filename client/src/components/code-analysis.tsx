@@ -1,6 +1,9 @@
 import { Repository, ComplexFile, Dependency } from "@/lib/types";
 import LanguageChart from "./charts/language-chart";
 import CommitChart from "./charts/commit-chart";
+import CommitHeatmap from "./charts/commit-heatmap";
+import PunchCard from "./charts/punch-card";
+import CodeFrequencyChart from "./charts/code-frequency-chart";
 
 interface CodeAnalysisProps {
   repository: Repository;
@@ -53,7 +56,31 @@ export default function CodeAnalysis({ repository }: CodeAnalysisProps) {
           <div>
             <h3 className="text-base font-medium text-gray-900 mb-3">Commit Activity</h3>
             <div className="h-64 bg-gray-50 rounded-lg p-4 border border-gray-200 relative">
-              <CommitChart commitActivity={repository.commitActivity} />
+              <CommitChart commitActivity={repository.commitActivity} pending={repository.statsPending} />
+            </div>
+          </div>
+          
+          {/* Commit Calendar */}
+          <div className="lg:col-span-2">
+            <h3 className="text-base font-medium text-gray-900 mb-3">Commit Calendar</h3>
+            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+              <CommitHeatmap commitActivity={repository.commitActivity} pending={repository.statsPending} />
+            </div>
+          </div>
+          
+          {/* Punch Card */}
+          <div className="lg:col-span-2">
+            <h3 className="text-base font-medium text-gray-900 mb-3">Commits by Day and Hour</h3>
+            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+              <PunchCard punchCard={repository.punchCard} pending={repository.statsPending} />
+            </div>
+          </div>
+          
+          {/* Code Frequency */}
+          <div className="lg:col-span-2">
+            <h3 className="text-base font-medium text-gray-900 mb-3">Code Frequency</h3>
+            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+              <CodeFrequencyChart codeFrequency={repository.codeFrequency} pending={repository.statsPending} />
             </div>
           </div>
           
@@ -69,6 +96,11 @@ export default function CodeAnalysis({ repository }: CodeAnalysisProps) {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
+                  {repository.complexFiles.length === 0 && (
+                    <tr>
+                      <td colSpan={2} className="px-4 py-4 text-sm text-center text-gray-500">No supported source files found</td>
+                    </tr>
+                  )}
                   {repository.complexFiles.map((file: ComplexFile, index: number) => (
                     <tr key={index}>
                       <td className="px-4 py-2 whitespace-nowrap text-sm font-mono text-gray-700">{file.path}</td>
@@ -78,6 +110,12 @@ export default function CodeAnalysis({ repository }: CodeAnalysisProps) {
                             <div className={`h-2 ${getComplexityColor(file.level)} rounded-full`} style={{ width: `${file.complexity}%` }}></div>
                           </div>
                           <span className="ml-2 text-sm text-gray-700">{file.level}</span>
+                          <span
+                            className="ml-2 text-xs text-gray-500"
+                            title="Cyclomatic / cognitive complexity"
+                          >
+                            {file.cyclomatic} / {file.cognitive}
+                          </span>
                         </div>
                       </td>
                     </tr>
@@ -90,7 +128,7 @@ export default function CodeAnalysis({ repository }: CodeAnalysisProps) {
           {/* Dependency Analysis */}
           <div>
             <h3 className="text-base font-medium text-gray-900 mb-3">Dependencies</h3>
-            <div className="overflow-hidden border border-gray-200 rounded-lg">
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
@@ -100,14 +138,36 @@ export default function CodeAnalysis({ repository }: CodeAnalysisProps) {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
+                  {repository.dependencies.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-4 py-4 text-sm text-center text-gray-500">No dependency manifests found</td>
+                    </tr>
+                  )}
                   {repository.dependencies.map((dep: Dependency, index: number) => (
                     <tr key={index}>
-                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{dep.name}</td>
-                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{dep.version}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                        <div>{dep.name}</div>
+                        <div className="text-xs text-gray-400" title={dep.manifest}>
+                          {dep.ecosystem}{dep.dev ? " · dev" : ""}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                        <div>{dep.version}</div>
+                        {dep.latestVersion && dep.status !== "Up to date" && (
+                          <div className="text-xs text-gray-400">latest {dep.latestVersion}</div>
+                        )}
+                      </td>
                       <td className="px-4 py-2 whitespace-nowrap">
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(dep.status)}`}>
                           {dep.status}
                         </span>
+                        {dep.semverDistance && (dep.semverDistance.major > 0 || dep.semverDistance.minor > 0) && (
+                          <div className="mt-1 text-xs text-gray-400">
+                            {dep.semverDistance.major > 0
+                              ? `${dep.semverDistance.major} major behind`
+                              : `${dep.semverDistance.minor} minor behind`}
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
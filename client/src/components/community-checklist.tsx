@@ -0,0 +1,84 @@
+import { CommunityCheck, Repository } from "@/lib/types";
+
+interface CommunityChecklistProps {
+  repository: Repository;
+  // Opens a file in the file explorer
+  onOpenFile: (path: string) => void;
+}
+
+const STATUS_STYLES: Record<CommunityCheck["status"], { icon: string; className: string; label: string }> = {
+  pass: { icon: "✓", className: "bg-green-100 text-green-700", label: "Present" },
+  weak: { icon: "!", className: "bg-yellow-100 text-yellow-700", label: "Needs work" },
+  missing: { icon: "✕", className: "bg-red-100 text-red-700", label: "Missing" },
+};
+
+function CheckRow({ check, onOpenFile }: { check: CommunityCheck; onOpenFile: (path: string) => void }) {
+  const style = STATUS_STYLES[check.status];
+  return (
+    <li className="flex items-start py-3">
+      <span
+        className={`flex-shrink-0 w-6 h-6 mr-3 rounded-full flex items-center justify-center text-xs font-bold ${style.className}`}
+        title={style.label}
+      >
+        {style.icon}
+      </span>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="text-sm font-medium text-gray-900">{check.label}</p>
+          <div className="flex items-center gap-3 text-xs">
+            {check.path && (
+              <button
+                type="button"
+                onClick={() => onOpenFile(check.path!)}
+                className="truncate font-mono text-blue-600 hover:text-blue-800 hover:underline"
+                title={check.path}
+              >
+                {check.path}
+              </button>
+            )}
+            {check.url && (
+              <a href={check.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 hover:underline">
+                View
+              </a>
+            )}
+          </div>
+        </div>
+        {(check.detail || check.status === "missing") && (
+          <p className="text-xs text-gray-500">{check.detail ?? "Not found in the repository"}</p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function CommunityChecklist({ repository, onOpenFile }: CommunityChecklistProps) {
+  const { healthPercentage, checks } = repository.community;
+  const passed = checks.filter(check => check.status === "pass").length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Community &amp; Governance</h2>
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <span>{passed} of {checks.length} checks pass</span>
+            {healthPercentage !== null && (
+              <span
+                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                title="The host's community profile score"
+              >
+                Health {healthPercentage}%
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ul className="px-6 divide-y divide-gray-200 md:grid md:grid-cols-2 md:gap-x-8 md:divide-y-0">
+        {checks.map(check => (
+          <CheckRow key={check.key} check={check} onOpenFile={onOpenFile} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FileWarning, Scissors } from "lucide-react";
 import { Spinner } from "./ui/spinner";
 import { Repository, GitHubFile, FileAnalysisResponse } from "@/lib/types";
 import { getRepositoryFiles, analyzeFile, analyzeRepositoryCode } from "@/lib/api";
@@ -10,10 +12,13 @@ import ReactMarkdown from "react-markdown";
 
 interface FileExplorerProps {
   repository: Repository;
+  // A file picked elsewhere on the page; a new object opens it again
+  openFile?: { path: string } | null;
 }
 
-export default function FileExplorer({ repository }: FileExplorerProps) {
+export default function FileExplorer({ repository, openFile }: FileExplorerProps) {
   const { toast } = useToast();
+  const containerRef = useRef<HTMLDivElement>(null);
   const [currentPath, setCurrentPath] = useState<string>("");
   const [files, setFiles] = useState<GitHubFile[]>([]);
   const [breadcrumbs, setBreadcrumbs] = useState<string[]>([]);
@@ -21,14 +26,20 @@ export default function FileExplorer({ repository }: FileExplorerProps) {
   const [analysisResult, setAnalysisResult] = useState<FileAnalysisResponse | null>(null);
   const [isExplorerLoading, setIsExplorerLoading] = useState(false);
 
-  // Extract owner and repo from the repository's fullName
-  const [owner, repo] = repository.fullName.split('/');
+  // Analyzing another ref produces a new repository record; start browsing over
+  useEffect(() => {
+    setFiles([]);
+    setBreadcrumbs([]);
+    setCurrentPath("");
+    setSelectedFile(null);
+    setAnalysisResult(null);
+  }, [repository.id]);
 
   // Fetch files mutation
   const fetchFilesMutation = useMutation({
     mutationFn: async (path: string) => {
       setIsExplorerLoading(true);
-      const result = await getRepositoryFiles(owner, repo, path);
+      const result = await getRepositoryFiles(repository.id, path);
       setIsExplorerLoading(false);
       return result;
     },
@@ -99,6 +110,16 @@ export default function FileExplorer({ repository }: FileExplorerProps) {
     fetchFilesMutation.mutate(path);
   };
 
+  // Open a file picked elsewhere in its directory and bring the explorer into view
+  useEffect(() => {
+    if (!openFile) {
+      return;
+    }
+    loadFiles(openFile.path.split("/").slice(0, -1).join("/"));
+    setSelectedFile(openFile.path);
+    containerRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [openFile]);
+
   // Handle file or directory click
   const handleFileClick = (file: GitHubFile) => {
     if (file.type === 'dir') {
@@ -132,13 +153,13 @@ export default function FileExplorer({ repository }: FileExplorerProps) {
     analyzeRepoMutation.mutate();
   };
 
-  // Initialize file explorer
+  // Initialize file explorer, starting in the directory the analyzed URL pointed to
   const handleExploreClick = () => {
-    loadFiles();
+    loadFiles(repository.path ?? "");
   };
 
   return (
-    <div className="rounded-xl shadow-md border border-gray-200 overflow-hidden bg-gradient-to-br from-white to-gray-50">
+    <div ref={containerRef} className="rounded-xl shadow-md border border-gray-200 overflow-hidden bg-gradient-to-br from-white to-gray-50">
       <div className="px-6 py-5 border-b border-gray-200 bg-gradient-to-r from-primary/5 to-primary/10">
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex items-center">
@@ -296,11 +317,25 @@ export default function FileExplorer({ repository }: FileExplorerProps) {
                     <h4 className="text-sm font-semibold text-gray-900">{analysisResult.fileName}</h4>
                   </div>
                   <Separator className="mb-4" />
-                  <div className="prose prose-sm max-w-none text-gray-700 markdown-content">
-                    <ReactMarkdown>
-                      {analysisResult.analysis}
-                    </ReactMarkdown>
-                  </div>
+                  {analysisResult.status === "truncated" && (
+                    <Alert className="mb-4 border-amber-200 bg-amber-50 text-amber-800">
+                      <Scissors className="h-4 w-4" />
+                      <AlertDescription>{analysisResult.message}</AlertDescription>
+                    </Alert>
+                  )}
+                  {analysisResult.analysis ? (
+                    <div className="prose prose-sm max-w-none text-gray-700 markdown-content">
+                      <ReactMarkdown>
+                        {analysisResult.analysis}
+                      </ReactMarkdown>
+                    </div>
+                  ) : (
+                    // Binary and too-large files come back without an analysis
+                    <Alert className="border-gray-200 bg-gray-50 text-gray-700">
+                      <FileWarning className="h-4 w-4" />
+                      <AlertDescription>{analysisResult.message}</AlertDescription>
+                    </Alert>
+                  )}
                 </div>
               ) : (
                 <div className="flex flex-col items-center justify-center h-96 bg-gradient-to-br from-gray-50 to-white rounded-lg border border-gray-200 p-6 text-center">
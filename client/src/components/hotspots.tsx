@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Spinner } from "./ui/spinner";
+import { getHotspots } from "@/lib/api";
+import { Repository } from "@/lib/types";
+import HotspotChart from "./charts/hotspot-chart";
+
+interface HotspotsProps {
+  repository: Repository;
+  // Opens a file in the file explorer
+  onOpenFile: (path: string) => void;
+}
+
+// Files listed next to the chart, flagged hotspots first
+const MAX_LISTED_FILES = 10;
+
+// Windows the changes can be counted over, in days
+const WINDOW_OPTIONS = [30, 90, 180, 365];
+
+export default function HotspotsSection({ repository, onOpenFile }: HotspotsProps) {
+  const [selectedDays, setSelectedDays] = useState(repository.hotspots.windowDays);
+  // The analyzed window is already stored; other windows are counted on request
+  const isStoredWindow = selectedDays === repository.hotspots.windowDays;
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["/api/repositories", repository.id, "hotspots", selectedDays],
+    queryFn: () => getHotspots(repository.id, selectedDays),
+    enabled: !isStoredWindow,
+  });
+
+  const { windowDays, files, truncated } = !isStoredWindow && data ? data : repository.hotspots;
+  const windowOptions = WINDOW_OPTIONS.includes(repository.hotspots.windowDays)
+    ? WINDOW_OPTIONS
+    : [...WINDOW_OPTIONS, repository.hotspots.windowDays].sort((a, b) => a - b);
+  const listed = [...files]
+    .sort((a, b) => Number(b.hotspot) - Number(a.hotspot) || b.score - a.score)
+    .slice(0, MAX_LISTED_FILES);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-medium text-gray-900">Hotspots</h2>
+          <div className="flex items-center gap-2">
+            {isFetching && <Spinner className="h-4 w-4 text-primary" />}
+            <Select value={String(selectedDays)} onValueChange={value => setSelectedDays(Number(value))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {windowOptions.map(days => (
+                  <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="mt-1 text-sm text-gray-500">
+          Commits in the last {windowDays} days against the complexity of the most complex files
+          {truncated && "; some files have more commits than were read, so their counts are lower bounds"}
+        </p>
+        {error && !isStoredWindow && (
+          <p className="mt-1 text-sm text-red-600">
+            Couldn't count changes over {selectedDays} days: {(error as Error).message}
+          </p>
+        )}
+      </div>
+
+      <div className="px-6 py-5">
+        {files.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">No supported source files were analyzed</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <HotspotChart files={files} onSelect={onOpenFile} />
+              <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-full bg-red-500" />Hotspot</span>
+                <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-full bg-slate-400" />Other files</span>
+                <span>Click a point to open the file</span>
+              </div>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                    <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commits</th>
+                    <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cyclomatic</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {listed.map(file => (
+                    <tr key={file.path}>
+                      <td className="px-3 py-2 text-gray-700 max-w-[12rem]">
+                        <button
+                          type="button"
+                          onClick={() => onOpenFile(file.path)}
+                          className="block truncate text-left text-blue-600 hover:text-blue-800 hover:underline"
+                          title={file.path}
+                        >
+                          {file.path.split("/").pop()}
+                        </button>
+                        {file.hotspot && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Hotspot
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">{file.changes}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">{file.cyclomatic}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
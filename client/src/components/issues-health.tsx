@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { Spinner } from "./ui/spinner";
+import { getIssuesHealth } from "@/lib/api";
+import { ItemHealth, Repository } from "@/lib/types";
+
+interface IssuesHealthProps {
+  repository: Repository;
+}
+
+// Hours as the largest unit that keeps the number readable
+function formatDuration(hours: number | null): string {
+  if (hours === null) {
+    return "—";
+  }
+  if (hours < 1) {
+    return `${Math.max(1, Math.round(hours * 60))} min`;
+  }
+  if (hours < 48) {
+    return `${Math.round(hours)} h`;
+  }
+  return `${Math.round(hours / 24)} days`;
+}
+
+function ItemHealthCard({ title, health, resolution }: { title: string; health: ItemHealth; resolution: string }) {
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <h3 className="text-base font-medium text-gray-900 mb-3">{title}</h3>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+        <div>
+          <dt className="text-gray-500">Open</dt>
+          <dd className="text-xl font-semibold text-gray-900">{health.open}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">{health.merged > 0 ? "Merged / closed" : "Closed"}</dt>
+          <dd className="text-xl font-semibold text-gray-900">
+            {health.merged > 0 ? `${health.merged} / ${health.closed}` : health.closed}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Median first response</dt>
+          <dd className="font-medium text-gray-900">{formatDuration(health.medianFirstResponseHours)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Median time to {resolution}</dt>
+          <dd className="font-medium text-gray-900">{formatDuration(health.medianResolutionHours)}</dd>
+        </div>
+        {health.unanswered !== null && (
+          <div className="col-span-2">
+            <dt className="text-gray-500">Open without a response</dt>
+            <dd className="font-medium text-gray-900">{health.unanswered}</dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+}
+
+export default function IssuesHealthSection({ repository }: IssuesHealthProps) {
+  const { data: health, isLoading, error } = useQuery({
+    queryKey: ["/api/repositories", repository.id, "issues-health"],
+    queryFn: () => getIssuesHealth(repository.id),
+  });
+
+  const maxBucket = Math.max(1, ...(health?.openAges ?? []).map(bucket => bucket.issues + bucket.pullRequests));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-medium text-gray-900">Issues &amp; Pull Requests</h2>
+        {health && (
+          <p className="mt-1 text-sm text-gray-500">
+            Closed items and response times cover the last {health.windowDays} days
+            {health.truncated && "; the repository has more items than were read, so counts are lower bounds"}
+          </p>
+        )}
+      </div>
+
+      <div className="px-6 py-5">
+        {isLoading && (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Spinner className="h-5 w-5 mr-2 text-primary" />
+            Reading issues and pull requests...
+          </div>
+        )}
+
+        {error && (
+          <p className="py-8 text-center text-gray-500">{(error as Error).message}</p>
+        )}
+
+        {health && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ItemHealthCard title="Issues" health={health.issues} resolution="close" />
+            <ItemHealthCard title="Pull Requests" health={health.pullRequests} resolution="merge" />
+
+            {/* Age of open items */}
+            <div>
+              <h3 className="text-base font-medium text-gray-900 mb-3">Age of Open Items</h3>
+              <div className="space-y-2">
+                {health.openAges.map(bucket => (
+                  <div key={bucket.label} className="flex items-center text-sm">
+                    <span className="w-24 text-gray-600">{bucket.label}</span>
+                    <div className="flex-1 flex h-4 bg-gray-100 rounded overflow-hidden">
+                      <div className="bg-blue-500" style={{ width: `${(bucket.issues / maxBucket) * 100}%` }} title={`${bucket.issues} issues`} />
+                      <div className="bg-purple-500" style={{ width: `${(bucket.pullRequests / maxBucket) * 100}%` }} title={`${bucket.pullRequests} pull requests`} />
+                    </div>
+                    <span className="w-12 text-right text-gray-700">{bucket.issues + bucket.pullRequests}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center mt-3 space-x-4 text-xs text-gray-500">
+                <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-blue-500" />Issues</span>
+                <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-purple-500" />Pull requests</span>
+              </div>
+            </div>
+
+            {/* Labels */}
+            <div>
+              <h3 className="text-base font-medium text-gray-900 mb-3">Labels</h3>
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Label</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Open</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Closed</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {health.labels.length === 0 && (
+                      <tr>
+                        <td colSpan={3} className="px-4 py-4 text-center text-gray-500">No labeled items</td>
+                      </tr>
+                    )}
+                    {health.labels.map(label => (
+                      <tr key={label.name}>
+                        <td className="px-4 py-2 text-gray-700">{label.name}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{label.open}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{label.closed}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+
+interface RateLimitCountdownProps {
+  resetAt: Date;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, "0")}s` : `${seconds}s`;
+}
+
+export default function RateLimitCountdown({ resetAt }: RateLimitCountdownProps) {
+  const [remaining, setRemaining] = useState(() => resetAt.getTime() - Date.now());
+
+  useEffect(() => {
+    setRemaining(resetAt.getTime() - Date.now());
+    const timer = setInterval(() => {
+      const next = resetAt.getTime() - Date.now();
+      setRemaining(next);
+      if (next <= 0) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [resetAt]);
+
+  if (remaining <= 0) {
+    return <span className="font-medium">The rate limit has reset. You can try again now.</span>;
+  }
+
+  return (
+    <span>
+      The API rate limit resets in{" "}
+      <span className="font-medium tabular-nums">{formatRemaining(remaining)}</span>
+      {" "}(at {resetAt.toLocaleTimeString()}).
+    </span>
+  );
+}
@@ -16,8 +16,10 @@ export default function ReadmeGenerator({ repository }: ReadmeGeneratorProps) {
   const [options, setOptions] = useState<ReadmeOptions>({
     includeInstallation: true,
     includeUsage: true,
+    includeBuildDeploy: true,
     includeContributing: true,
     includeLicense: true,
+    includeCommunitySuggestions: true,
   });
 
   const readmeMutation = useMutation({
@@ -76,11 +78,13 @@ export default function ReadmeGenerator({ repository }: ReadmeGeneratorProps) {
             <div className="prose max-w-none">
               <h1>{repository.fullName.split('/')[1]}</h1>
               <p>{repository.description}</p>
-              <p>
-                <img src={`https://img.shields.io/github/stars/${repository.fullName}?style=social`} alt="GitHub stars" />
-                <img src={`https://img.shields.io/github/license/${repository.fullName}`} alt="License" className="ml-2" />
-                <img src={`https://img.shields.io/github/last-commit/${repository.fullName}`} alt="Last commit" className="ml-2" />
-              </p>
+              {repository.host === "github.com" && (
+                <p>
+                  <img src={`https://img.shields.io/github/stars/${repository.fullName}?style=social`} alt="GitHub stars" />
+                  <img src={`https://img.shields.io/github/license/${repository.fullName}`} alt="License" className="ml-2" />
+                  <img src={`https://img.shields.io/github/last-commit/${repository.fullName}`} alt="Last commit" className="ml-2" />
+                </p>
+              )}
               
               {options.includeInstallation && (
                 <>
@@ -151,6 +155,20 @@ example.start();`}</code>
                   </label>
                 </div>
                 
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="build-deploy"
+                    checked={options.includeBuildDeploy}
+                    onCheckedChange={() => toggleOption('includeBuildDeploy')}
+                  />
+                  <label
+                    htmlFor="build-deploy"
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  >
+                    Include Build &amp; Deploy Summary
+                  </label>
+                </div>
+
                 <div className="flex items-center space-x-2">
                   <Checkbox 
                     id="contributing" 
@@ -178,6 +196,20 @@ example.start();`}</code>
                     Include License Information
                   </label>
                 </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="community-suggestions"
+                    checked={options.includeCommunitySuggestions}
+                    onCheckedChange={() => toggleOption('includeCommunitySuggestions')}
+                  />
+                  <label
+                    htmlFor="community-suggestions"
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  >
+                    Suggest Sections for Missing Community Files
+                  </label>
+                </div>
               </div>
             </div>
           )}
@@ -0,0 +1,103 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { GitBranch } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "./ui/spinner";
+import { analyzeRepository, getRepositoryRefs } from "@/lib/api";
+import { Repository } from "@/lib/types";
+
+interface RefSelectorProps {
+  repository: Repository;
+  onRepositoryAnalyzed: (repository: Repository) => void;
+  onError: (error: Error) => void;
+}
+
+export default function RefSelector({ repository, onRepositoryAnalyzed, onError }: RefSelectorProps) {
+  const { data: refs, isLoading } = useQuery({
+    queryKey: ["/api/repositories", repository.id, "refs"],
+    queryFn: () => getRepositoryRefs(repository.id),
+  });
+
+  // Switching refs analyzes the repository again at the selected ref; the .git
+  // suffix keeps GitLab subgroups from being read as a page of the group
+  const analyzeMutation = useMutation({
+    mutationFn: (ref: string) => analyzeRepository(`https://${repository.host}/${repository.fullName}.git`, ref),
+    onSuccess: onRepositoryAnalyzed,
+    onError,
+  });
+
+  const currentRef = repository.ref ?? refs?.defaultBranch ?? "";
+  // Commits and refs beyond the listed pages still need an entry to show as selected
+  const isListed = !!refs && [...refs.branches, ...refs.tags].some(ref => ref.name === currentRef);
+
+  const handleValueChange = (ref: string) => {
+    if (ref !== currentRef) {
+      analyzeMutation.mutate(ref);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 bg-white rounded-lg shadow-sm border border-gray-200 px-6 py-4">
+      <div className="flex items-center text-sm font-medium text-gray-700">
+        <GitBranch className="h-4 w-4 mr-2 text-primary" />
+        Analyzed at
+      </div>
+
+      <Select
+        value={currentRef}
+        onValueChange={handleValueChange}
+        disabled={isLoading || analyzeMutation.isPending}
+      >
+        <SelectTrigger className="sm:w-72">
+          <SelectValue placeholder="Select a branch or tag" />
+        </SelectTrigger>
+        <SelectContent>
+          {currentRef && !isListed && (
+            <SelectItem value={currentRef}>{currentRef}</SelectItem>
+          )}
+          {refs && refs.branches.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Branches</SelectLabel>
+              {refs.branches.map(branch => (
+                <SelectItem key={`branch:${branch.name}`} value={branch.name}>
+                  {branch.name}
+                  {branch.name === refs.defaultBranch && <span className="ml-2 text-xs text-gray-400">default</span>}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          {refs && refs.tags.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Tags</SelectLabel>
+              {refs.tags.map(tag => (
+                <SelectItem key={`tag:${tag.name}`} value={tag.name}>
+                  {tag.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+
+      {repository.commitSha && (
+        <code className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+          {repository.commitSha.slice(0, 7)}
+        </code>
+      )}
+
+      {analyzeMutation.isPending && (
+        <div className="flex items-center text-sm text-gray-500">
+          <Spinner className="h-4 w-4 mr-2 text-primary" />
+          Analyzing {analyzeMutation.variables}...
+        </div>
+      )}
+    </div>
+  );
+}
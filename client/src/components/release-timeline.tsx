@@ -0,0 +1,119 @@
+import { Release, Repository } from "@/lib/types";
+
+interface ReleaseTimelineProps {
+  repository: Repository;
+}
+
+const BUMP_COLORS: Record<NonNullable<Release["bump"]> | "none", string> = {
+  major: "bg-red-500",
+  minor: "bg-blue-500",
+  patch: "bg-green-500",
+  prerelease: "bg-gray-400",
+  initial: "bg-purple-500",
+  none: "bg-gray-300",
+};
+
+function formatReleaseDate(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-lg font-semibold text-gray-900">{value}</p>
+    </div>
+  );
+}
+
+export default function ReleaseTimeline({ repository }: ReleaseTimelineProps) {
+  const analysis = repository.releases;
+  const mixTotal = analysis.bumpMix.major + analysis.bumpMix.minor + analysis.bumpMix.patch + analysis.bumpMix.prerelease;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden h-full flex flex-col">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-medium text-gray-900">Releases</h2>
+        {analysis.source === "tags" && (
+          <p className="mt-1 text-xs text-gray-500">From version tags; the repository publishes no releases</p>
+        )}
+      </div>
+
+      {analysis.source === "none" ? (
+        <div className="flex-grow flex items-center justify-center px-6 py-8">
+          <p className="text-gray-500">No releases or version tags</p>
+        </div>
+      ) : (
+        <div className="px-6 py-5 space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <Stat label="Releases in the last year" value={analysis.releasesLastYear} />
+            <Stat
+              label="Typical interval"
+              value={analysis.medianDaysBetweenReleases !== null ? `${Math.round(analysis.medianDaysBetweenReleases)} days` : "—"}
+            />
+            <Stat
+              label="Since last release"
+              value={analysis.daysSinceLastRelease !== null ? `${analysis.daysSinceLastRelease} days` : "—"}
+            />
+            <Stat
+              label={`Commits since ${analysis.latestTag}`}
+              value={analysis.unreleasedCommits ?? "—"}
+            />
+          </div>
+
+          {/* Major/minor/patch mix */}
+          {mixTotal > 0 && (
+            <div>
+              <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+                {(["major", "minor", "patch", "prerelease"] as const).map(bump => (
+                  <div
+                    key={bump}
+                    className={BUMP_COLORS[bump]}
+                    style={{ width: `${(analysis.bumpMix[bump] / mixTotal) * 100}%` }}
+                    title={`${analysis.bumpMix[bump]} ${bump}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-3 mt-2 text-xs text-gray-500">
+                {(["major", "minor", "patch", "prerelease"] as const).map(bump => (
+                  <span key={bump} className="flex items-center">
+                    <span className={`w-2 h-2 mr-1 rounded-full ${BUMP_COLORS[bump]}`} />
+                    {analysis.bumpMix[bump]} {bump}
+                  </span>
+                ))}
+              </div>
+              {analysis.semverShare < 100 && (
+                <p className="mt-1 text-xs text-gray-400">{analysis.semverShare}% of tags are semantic versions</p>
+              )}
+            </div>
+          )}
+
+          {/* Timeline, newest first */}
+          <div className="max-h-64 overflow-y-auto pl-2">
+            <ol className="relative border-l border-gray-200">
+              {analysis.releases.map(release => (
+                <li key={`${release.tag}:${release.date}`} className="ml-4 pb-3">
+                  <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${BUMP_COLORS[release.bump ?? "none"]}`} />
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate" title={release.name ?? release.tag}>
+                      {release.tag}
+                    </span>
+                    <time className="text-xs text-gray-500 whitespace-nowrap">{formatReleaseDate(release.date)}</time>
+                  </div>
+                  {release.name && release.name !== release.tag && (
+                    <p className="text-xs text-gray-500 truncate">{release.name}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+          {analysis.totalReleases > analysis.releases.length && (
+            <p className="text-xs text-gray-400">
+              Showing {analysis.releases.length} of {analysis.totalReleases} releases
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
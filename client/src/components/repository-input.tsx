@@ -1,28 +1,47 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem } from "@/components/ui/form";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Search } from "lucide-react";
-import { analyzeRepository } from "@/lib/api";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, FolderOpen, Search, Upload } from "lucide-react";
+import { analyzeLocalRepository, analyzeRepository, getAllowedHosts, uploadRepositoryArchive } from "@/lib/api";
+import { RateLimitedError } from "@/lib/queryClient";
 import { Repository } from "@/lib/types";
+import { parseRepoReference } from "@shared/repo-reference";
+import RateLimitCountdown from "@/components/rate-limit-countdown";
 
-const formSchema = z.object({
-  repoUrl: z
-    .string()
-    .min(1, "Repository URL is required")
-    .refine(
-      (value) => value.includes("github.com/"),
-      "Please enter a valid GitHub repository URL"
-    ),
-});
+// Until the server's host list has loaded only github.com is accepted
+const DEFAULT_HOSTS = ["github.com"];
 
-type FormData = z.infer<typeof formSchema>;
+function createFormSchema(hosts: string[]) {
+  return z.object({
+    repoUrl: z
+      .string()
+      .min(1, "Repository URL is required")
+      .superRefine((value, ctx) => {
+        const reference = parseRepoReference(value);
+        if (!reference) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Please enter a repository URL, SSH remote or owner/repo",
+          });
+        } else if (!hosts.includes(reference.host)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Please enter a repository on ${hosts.join(", ")}`,
+          });
+        }
+      }),
+  });
+}
+
+type FormData = z.infer<ReturnType<typeof createFormSchema>>;
 
 interface RepositoryInputProps {
   onRepositoryAnalyzed: (repository: Repository) => void;
@@ -30,7 +49,14 @@ interface RepositoryInputProps {
 }
 
 export default function RepositoryInput({ onRepositoryAnalyzed, onError }: RepositoryInputProps) {
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [localPath, setLocalPath] = useState("");
+
+  const { data: hosts = DEFAULT_HOSTS } = useQuery({
+    queryKey: ["/api/hosts"],
+    queryFn: getAllowedHosts,
+  });
+  const formSchema = useMemo(() => createFormSchema(hosts), [hosts]);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -39,20 +65,37 @@ export default function RepositoryInput({ onRepositoryAnalyzed, onError }: Repos
     },
   });
 
+  // Repository URLs, local paths and uploads all end in the same repository record
   const analyzeMutation = useMutation({
-    mutationFn: (url: string) => analyzeRepository(url),
+    mutationFn: (analyze: () => Promise<Repository>) => analyze(),
     onSuccess: (data) => {
       setError(null);
       onRepositoryAnalyzed(data);
     },
     onError: (err: Error) => {
-      setError(err.message);
+      setError(err);
       onError(err);
     },
   });
 
   const handleSubmit = (data: FormData) => {
-    analyzeMutation.mutate(data.repoUrl);
+    analyzeMutation.mutate(() => analyzeRepository(data.repoUrl));
+  };
+
+  const handleLocalPathSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (localPath.trim()) {
+      analyzeMutation.mutate(() => analyzeLocalRepository(localPath.trim()));
+    }
+  };
+
+  const handleArchiveChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      analyzeMutation.mutate(() => uploadRepositoryArchive(file));
+    }
+    // Allow picking the same file again
+    event.target.value = "";
   };
 
   return (
@@ -64,7 +107,7 @@ export default function RepositoryInput({ onRepositoryAnalyzed, onError }: Repos
               Discover Repository Insights
             </h2>
             <p className="text-gray-600 mt-2">
-              Enter a GitHub repository URL to unlock AI-powered code analysis and insights
+              Enter a GitHub, GitLab or Bitbucket repository URL to unlock AI-powered code analysis and insights
             </p>
           </div>
           <div className="flex items-center space-x-1 bg-gray-100 px-3 py-1.5 rounded-full">
@@ -73,57 +116,114 @@ export default function RepositoryInput({ onRepositoryAnalyzed, onError }: Repos
           </div>
         </div>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col sm:flex-row gap-4">
-            <FormField
-              control={form.control}
-              name="repoUrl"
-              render={({ field }) => (
-                <FormItem className="flex-grow">
-                  <FormControl>
-                    <div className="relative rounded-md shadow-sm">
-                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" viewBox="0 0 20 20" fill="currentColor">
-                          <path fillRule="evenodd" d="M12.586 4.586a2 2 0 112.828 2.828l-3 3a2 2 0 01-2.828 0 1 1 0 00-1.414 1.414 4 4 0 005.656 0l3-3a4 4 0 00-5.656-5.656l-1.5 1.5a1 1 0 101.414 1.414l1.5-1.5z" clipRule="evenodd" />
-                        </svg>
-                      </div>
-                      <Input
-                        {...field}
-                        placeholder="https://github.com/facebook/react"
-                        className="pl-10 pr-4 py-3 border border-gray-300 rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary shadow-sm"
-                      />
-                    </div>
-                  </FormControl>
-                </FormItem>
-              )}
-            />
-            <Button
-              type="submit"
-              className="inline-flex items-center justify-center px-6 py-3 rounded-lg shadow-md text-sm font-medium text-white bg-primary hover:bg-primary/90 transition-colors duration-150"
-              disabled={analyzeMutation.isPending}
-            >
-              {analyzeMutation.isPending ? (
-                <>
-                  <svg className="animate-spin h-5 w-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Analyzing...
-                </>
-              ) : (
-                <>
-                  <Search className="h-5 w-5 mr-2" />
-                  Analyze Repository
-                </>
-              )}
-            </Button>
-          </form>
-        </Form>
+        <Tabs defaultValue="github">
+          <TabsList className="mb-4">
+            <TabsTrigger value="github">Hosted</TabsTrigger>
+            <TabsTrigger value="local">Local</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="github">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col sm:flex-row gap-4">
+                <FormField
+                  control={form.control}
+                  name="repoUrl"
+                  render={({ field }) => (
+                    <FormItem className="flex-grow">
+                      <FormControl>
+                        <div className="relative rounded-md shadow-sm">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400" viewBox="0 0 20 20" fill="currentColor">
+                              <path fillRule="evenodd" d="M12.586 4.586a2 2 0 112.828 2.828l-3 3a2 2 0 01-2.828 0 1 1 0 00-1.414 1.414 4 4 0 005.656 0l3-3a4 4 0 00-5.656-5.656l-1.5 1.5a1 1 0 101.414 1.414l1.5-1.5z" clipRule="evenodd" />
+                            </svg>
+                          </div>
+                          <Input
+                            {...field}
+                            placeholder="https://github.com/facebook/react, https://gitlab.com/gitlab-org/gitlab or facebook/react"
+                            className="pl-10 pr-4 py-3 border border-gray-300 rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary shadow-sm"
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="inline-flex items-center justify-center px-6 py-3 rounded-lg shadow-md text-sm font-medium text-white bg-primary hover:bg-primary/90 transition-colors duration-150"
+                  disabled={analyzeMutation.isPending}
+                >
+                  {analyzeMutation.isPending ? (
+                    <>
+                      <svg className="animate-spin h-5 w-5 mr-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Analyzing...
+                    </>
+                  ) : (
+                    <>
+                      <Search className="h-5 w-5 mr-2" />
+                      Analyze Repository
+                    </>
+                  )}
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="local" className="space-y-4">
+            <form onSubmit={handleLocalPathSubmit} className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-grow rounded-md shadow-sm">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <FolderOpen className="h-5 w-5 text-gray-400" />
+                </div>
+                <Input
+                  value={localPath}
+                  onChange={(event) => setLocalPath(event.target.value)}
+                  placeholder="/home/me/projects/my-repo (a directory on the server)"
+                  className="pl-10 pr-4 py-3 border border-gray-300 rounded-lg text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary shadow-sm"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="inline-flex items-center justify-center px-6 py-3 rounded-lg shadow-md text-sm font-medium text-white bg-primary hover:bg-primary/90 transition-colors duration-150"
+                disabled={analyzeMutation.isPending || !localPath.trim()}
+              >
+                <Search className="h-5 w-5 mr-2" />
+                Analyze Directory
+              </Button>
+            </form>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-600">
+              <span>Or upload a .tar.gz archive or git bundle:</span>
+              <label className="inline-flex items-center justify-center px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 cursor-pointer font-medium text-gray-700">
+                <Upload className="h-4 w-4 mr-2" />
+                Choose File
+                <input
+                  type="file"
+                  accept=".tar.gz,.tgz,.bundle"
+                  className="hidden"
+                  onChange={handleArchiveChange}
+                  disabled={analyzeMutation.isPending}
+                />
+              </label>
+            </div>
+          </TabsContent>
+        </Tabs>
 
         {error && (
           <Alert variant="destructive" className="mt-4 border-red-200 text-red-800 bg-red-50">
             <AlertCircle className="h-4 w-4" />
-            <AlertDescription>{error}</AlertDescription>
+            <AlertDescription>
+              {error instanceof RateLimitedError ? (
+                <>
+                  API rate limit exceeded. <RateLimitCountdown resetAt={error.resetAt} />
+                </>
+              ) : (
+                error.message
+              )}
+            </AlertDescription>
           </Alert>
         )}
 
@@ -1,4 +1,17 @@
-import { Repository } from "@/lib/types";
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Repository, QualitySignal, CoverageReport, Contributor, ContributorRisk } from "@/lib/types";
+import { uploadCoverageReport } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
 
 interface MetricCardProps {
   title: string;
@@ -6,19 +19,341 @@ interface MetricCardProps {
   icon: React.ReactNode;
   bgColor: string;
   textColor: string;
+  // Optional label shown next to the value, like a risk level
+  badge?: React.ReactNode;
+  // Optional drill-down shown in a dialog when the card is clicked
+  details?: React.ReactNode;
+  detailsDescription?: string;
 }
 
-function MetricCard({ title, value, icon, bgColor, textColor }: MetricCardProps) {
-  return (
-    <div className="bg-white rounded-lg shadow-sm p-5 border border-gray-200">
+function MetricCard({ title, value, icon, bgColor, textColor, badge, details, detailsDescription }: MetricCardProps) {
+  const card = (
+    <div className={`bg-white rounded-lg shadow-sm p-5 border border-gray-200 ${details ? "text-left w-full hover:border-gray-300 hover:shadow transition-all cursor-pointer" : ""}`}>
       <div className="flex items-center">
         <div className={`flex-shrink-0 ${bgColor} p-3 rounded-full`}>
           {icon}
         </div>
         <div className="ml-5">
           <p className="text-sm font-medium text-gray-500">{title}</p>
-          <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+          <div className="mt-1 flex items-center gap-2">
+            <p className="text-2xl font-semibold text-gray-900">{value}</p>
+            {badge}
+          </div>
+          {details && <p className={`mt-1 text-xs ${textColor}`}>View details</p>}
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!details) {
+    return card;
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button type="button">{card}</button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {detailsDescription && <DialogDescription>{detailsDescription}</DialogDescription>}
+        </DialogHeader>
+        {details}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function getScoreColor(score: number) {
+  if (score >= 80) {
+    return "bg-green-500";
+  }
+  if (score >= 50) {
+    return "bg-yellow-500";
+  }
+  return "bg-red-500";
+}
+
+function QualityBreakdown({ signals }: { signals: QualitySignal[] }) {
+  const totalWeight = signals
+    .filter(signal => signal.applicable)
+    .reduce((sum, signal) => sum + signal.weight, 0);
+
+  return (
+    <div className="space-y-4">
+      {signals.map(signal => (
+        <div key={signal.key} className={signal.applicable ? "" : "opacity-50"}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900">{signal.label}</span>
+            <span className="text-gray-700">
+              {signal.applicable
+                ? `${signal.score}/100 · ${Math.round((signal.weight / (totalWeight || 1)) * 100)}% weight`
+                : "Not applicable"}
+            </span>
+          </div>
+          <div className="mt-1 h-2 w-full bg-gray-200 rounded-full">
+            <div className={`h-2 ${getScoreColor(signal.score)} rounded-full`} style={{ width: `${signal.applicable ? signal.score : 0}%` }}></div>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">{signal.detail}</p>
         </div>
+      ))}
+    </div>
+  );
+}
+
+interface DirectoryCoverage {
+  path: string;
+  files: number;
+  linesFound: number;
+  linesHit: number;
+  branchesFound: number;
+  branchesHit: number;
+}
+
+// Aggregate per-file coverage into the directories containing the files
+function getDirectoryCoverage(coverage: CoverageReport): DirectoryCoverage[] {
+  const directories = new Map<string, DirectoryCoverage>();
+
+  coverage.files.forEach(file => {
+    const path = file.path.includes("/") ? file.path.slice(0, file.path.lastIndexOf("/")) : ".";
+    const directory = directories.get(path) || { path, files: 0, linesFound: 0, linesHit: 0, branchesFound: 0, branchesHit: 0 };
+    directory.files++;
+    directory.linesFound += file.linesFound;
+    directory.linesHit += file.linesHit;
+    directory.branchesFound += file.branchesFound;
+    directory.branchesHit += file.branchesHit;
+    directories.set(path, directory);
+  });
+
+  return Array.from(directories.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function formatRate(hit: number, found: number) {
+  return found > 0 ? `${((hit / found) * 100).toFixed(1)}%` : "—";
+}
+
+interface CoverageDetailsProps {
+  repository: Repository;
+  onRepositoryUpdated: (repository: Repository) => void;
+}
+
+function CoverageDetails({ repository, onRepositoryUpdated }: CoverageDetailsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const coverage = repository.coverage;
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadCoverageReport(repository.id, file),
+    onSuccess: (data) => {
+      onRepositoryUpdated(data);
+      toast({
+        title: "Coverage Report Uploaded",
+        description: `Line coverage is now ${data.codeCoverage}%`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error Uploading Coverage Report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4">
+      {coverage ? (
+        <>
+          <p className="text-sm text-gray-600">
+            {coverage.format} report {coverage.source === "upload" ? "uploaded" : "found in the repository"}
+            {coverage.reportPath && <span className="font-mono"> ({coverage.reportPath})</span>}
+            {" · "}{coverage.lineRate.toFixed(1)}% lines
+            {coverage.branchRate !== null && `, ${coverage.branchRate.toFixed(1)}% branches`}
+          </p>
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Directory</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Files</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lines</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Branches</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {getDirectoryCoverage(coverage).map(directory => (
+                  <tr key={directory.path}>
+                    <td className="px-4 py-2 text-sm font-mono text-gray-700 break-all">{directory.path}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{directory.files}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatRate(directory.linesHit, directory.linesFound)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatRate(directory.branchesHit, directory.branchesFound)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-600">
+          No coverage report was found in this repository. Upload an lcov, Cobertura, JaCoCo or Clover report to see real coverage.
+        </p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".info,.lcov,.xml"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+      >
+        {uploadMutation.isPending ? "Uploading..." : "Upload Coverage Report"}
+      </Button>
+    </div>
+  );
+}
+
+function formatContributionDate(date?: string) {
+  return date
+    ? new Date(date).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+    : "—";
+}
+
+const RISK_BADGE_CLASSES: Record<ContributorRisk["level"], string> = {
+  High: "bg-red-100 text-red-800",
+  Medium: "bg-yellow-100 text-yellow-800",
+  Low: "bg-green-100 text-green-800",
+  Unknown: "bg-gray-100 text-gray-800",
+};
+
+function RiskBadge({ risk }: { risk: ContributorRisk }) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${RISK_BADGE_CLASSES[risk.level]}`}
+      title={`Bus factor ${risk.busFactor}`}
+    >
+      {risk.level === "Unknown" ? "Risk unknown" : `${risk.level} risk`}
+    </span>
+  );
+}
+
+function ContributorRiskSummary({ risk }: { risk: ContributorRisk }) {
+  const maxQuarter = Math.max(1, ...risk.quarters.map(quarter => quarter.newContributors + quarter.returningContributors));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <RiskBadge risk={risk} />
+        <span>
+          Bus factor <span className="font-semibold">{risk.busFactor}</span>
+          {risk.topContributor && (
+            <> · {risk.topContributor} made {risk.topContributorShare}% of {risk.totalCommits} commits</>
+          )}
+        </span>
+      </div>
+      {risk.quarters.some(quarter => quarter.newContributors + quarter.returningContributors > 0) && (
+        <div>
+          <div className="flex items-end h-16 gap-1">
+            {risk.quarters.map(quarter => (
+              quarter.complete ? (
+                <div
+                  key={quarter.quarter}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${quarter.quarter}: ${quarter.newContributors} new, ${quarter.returningContributors} returning`}
+                >
+                  <div className="bg-blue-300" style={{ height: `${(quarter.newContributors / maxQuarter) * 100}%` }} />
+                  <div className="bg-blue-600" style={{ height: `${(quarter.returningContributors / maxQuarter) * 100}%` }} />
+                </div>
+              ) : (
+                <div
+                  key={quarter.quarter}
+                  className="flex-1 h-full bg-gray-100"
+                  title={`${quarter.quarter}: began before the history read`}
+                />
+              )
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1 text-[10px] text-gray-500">
+            {risk.quarters.map(quarter => (
+              <span key={quarter.quarter} className="flex-1 text-center">{quarter.quarter.replace(/^\d{2}/, "'")}</span>
+            ))}
+          </div>
+          <div className="flex items-center mt-1 space-x-4 text-xs text-gray-500">
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-blue-300" />New contributors</span>
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-blue-600" />Returning contributors</span>
+            {risk.quarters.some(quarter => !quarter.complete) && (
+              <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-gray-100" />Not read</span>
+            )}
+          </div>
+          {risk.historyStart && (
+            <p className="mt-1 text-xs text-gray-500">
+              Commits before {formatContributionDate(risk.historyStart)} weren't read, so some new contributors may be returning ones
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ContributorList({ contributors, risk }: { contributors: Contributor[]; risk: ContributorRisk }) {
+  if (contributors.length === 0) {
+    return <p className="text-sm text-gray-600">No contributors found.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ContributorRiskSummary risk={risk} />
+      <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contributor</th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Commits</th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First</th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {contributors.map((contributor, index) => (
+              <tr key={index}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                  <div className="flex items-center gap-2">
+                    {contributor.avatarUrl && (
+                      <img className="h-6 w-6 rounded-full" src={contributor.avatarUrl} alt="" />
+                    )}
+                    {contributor.htmlUrl ? (
+                      <a href={contributor.htmlUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {contributor.login}
+                      </a>
+                    ) : (
+                      <span>{contributor.login}</span>
+                    )}
+                    {contributor.active && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Active</span>
+                    )}
+                  </div>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{contributor.contributions}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatContributionDate(contributor.firstContribution)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatContributionDate(contributor.lastContribution)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
       </div>
     </div>
   );
@@ -26,14 +361,15 @@ function MetricCard({ title, value, icon, bgColor, textColor }: MetricCardProps)
 
 interface RepositoryMetricsProps {
   repository: Repository;
+  onRepositoryUpdated: (repository: Repository) => void;
 }
 
-export default function RepositoryMetrics({ repository }: RepositoryMetricsProps) {
+export default function RepositoryMetrics({ repository, onRepositoryUpdated }: RepositoryMetricsProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
       <MetricCard
         title="Code Quality"
-        value={`${repository.codeQuality}%`}
+        value={repository.codeQuality !== null ? `${repository.codeQuality}%` : "Not available"}
         icon={
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-primary" viewBox="0 0 20 20" fill="currentColor">
             <path fillRule="evenodd" d="M3 3a1 1 0 000 2v8a2 2 0 002 2h2.586l-1.293 1.293a1 1 0 101.414 1.414L10 15.414l2.293 2.293a1 1 0 001.414-1.414L12.414 15H15a2 2 0 002-2V5a1 1 0 100-2H3zm11.707 4.707a1 1 0 00-1.414-1.414L10 9.586 8.707 8.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
@@ -41,11 +377,13 @@ export default function RepositoryMetrics({ repository }: RepositoryMetricsProps
         }
         bgColor="bg-primary bg-opacity-10"
         textColor="text-primary"
+        details={<QualityBreakdown signals={repository.qualityBreakdown} />}
+        detailsDescription="Weighted average of the signals below. Signals that don't apply to this repository are excluded."
       />
 
       <MetricCard
         title="Code Coverage"
-        value={`${repository.codeCoverage}%`}
+        value={repository.codeCoverage !== null ? `${repository.codeCoverage}%` : "No report"}
         icon={
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-indigo-600" viewBox="0 0 20 20" fill="currentColor">
             <path d="M2 10a8 8 0 018-8v8h8a8 8 0 11-16 0z" />
@@ -54,6 +392,8 @@ export default function RepositoryMetrics({ repository }: RepositoryMetricsProps
         }
         bgColor="bg-indigo-100"
         textColor="text-indigo-600"
+        details={<CoverageDetails repository={repository} onRepositoryUpdated={onRepositoryUpdated} />}
+        detailsDescription="Line and branch coverage per directory from the repository's coverage report."
       />
 
       <MetricCard
@@ -78,6 +418,9 @@ export default function RepositoryMetrics({ repository }: RepositoryMetricsProps
         }
         bgColor="bg-yellow-100"
         textColor="text-yellow-600"
+        badge={<RiskBadge risk={repository.contributorRisk} />}
+        details={<ContributorList contributors={repository.contributors} risk={repository.contributorRisk} />}
+        detailsDescription={`Contributors with commits in the last ${repository.activeWindowDays} days are active. The bus factor is the fewest contributors who made half of the commits. Bot accounts are excluded.`}
       />
     </div>
   );
@@ -0,0 +1,126 @@
+import { Repository, TestDirectory } from "@/lib/types";
+
+interface TestingPanelProps {
+  repository: Repository;
+}
+
+// Untested directories listed before the rest are summarized as a count
+const MAX_LISTED_UNTESTED = 12;
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-lg font-semibold text-gray-900">{value}</p>
+    </div>
+  );
+}
+
+function DirectoryRow({ directory, maxLines }: { directory: TestDirectory; maxLines: number }) {
+  return (
+    <tr>
+      <td className="px-4 py-2 whitespace-nowrap text-gray-700 font-mono text-xs">{directory.path}</td>
+      <td className="px-4 py-2 w-1/2">
+        <div className="space-y-1" title={`${directory.sourceLines.toLocaleString()} source / ${directory.testLines.toLocaleString()} test lines`}>
+          <div className="h-2 rounded-full bg-blue-500" style={{ width: `${(directory.sourceLines / maxLines) * 100}%` }} />
+          <div className="h-2 rounded-full bg-green-500" style={{ width: `${(directory.testLines / maxLines) * 100}%` }} />
+        </div>
+      </td>
+      <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700">
+        {directory.sourceLines > 0 ? (directory.testLines / directory.sourceLines).toFixed(2) : "—"}
+      </td>
+    </tr>
+  );
+}
+
+export default function TestingPanel({ repository }: TestingPanelProps) {
+  const suite = repository.testSuite;
+  const maxLines = Math.max(1, ...suite.directories.map(directory => Math.max(directory.sourceLines, directory.testLines)));
+  const untested = suite.untestedDirectories.slice(0, MAX_LISTED_UNTESTED);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-5 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-medium text-gray-900">Testing</h2>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {suite.frameworks.length === 0 && (
+            <span className="text-sm text-gray-500">No test framework detected</span>
+          )}
+          {suite.frameworks.map(framework => (
+            <span
+              key={framework.name}
+              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+              title={`Found in ${framework.evidence}`}
+            >
+              {framework.name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {suite.sourceFiles === 0 && suite.testFiles === 0 ? (
+        <div className="px-6 py-8 text-center text-gray-500">No source files found</div>
+      ) : (
+        <div className="px-6 py-5 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Stat label="Test files" value={suite.testFiles.toLocaleString()} />
+            <Stat label="Test lines" value={suite.testLines.toLocaleString()} />
+            <Stat label="Source lines" value={suite.sourceLines.toLocaleString()} />
+            <Stat label="Test lines per source line" value={suite.ratio !== null ? suite.ratio.toFixed(2) : "—"} />
+          </div>
+          {suite.estimated && (
+            <p className="text-xs text-gray-400">Lines of some files are estimated from their size</p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Test and source lines per directory */}
+            <div className="lg:col-span-2">
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Directory</th>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lines</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ratio</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {suite.directories.map(directory => (
+                      <DirectoryRow key={directory.path} directory={directory} maxLines={maxLines} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex items-center mt-2 space-x-4 text-xs text-gray-500">
+                <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-blue-500" />Source lines</span>
+                <span className="flex items-center"><span className="w-3 h-3 mr-1 rounded-sm bg-green-500" />Test lines</span>
+              </div>
+            </div>
+
+            {/* Source directories without any tests */}
+            <div>
+              <h3 className="text-base font-medium text-gray-900 mb-3">Directories Without Tests</h3>
+              {untested.length === 0 ? (
+                <p className="text-sm text-gray-500">Every source directory has tests</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {untested.map(path => (
+                    <li key={path} className="flex items-center text-gray-700">
+                      <span className="w-2 h-2 mr-2 rounded-full bg-red-500" />
+                      <span className="font-mono text-xs truncate" title={path}>{path}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {suite.untestedDirectories.length > untested.length && (
+                <p className="mt-2 text-xs text-gray-400">
+                  and {suite.untestedDirectories.length - untested.length} more
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
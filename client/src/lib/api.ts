@@ -1,10 +1,10 @@
 import { apiRequest } from "./queryClient";
-import { Repository, ReadmeOptions, GitHubFile, FileAnalysisRequest, FileAnalysisResponse } from "./types";
+import { Repository, RepositoryRefs, IssuesHealth, HotspotAnalysis, ReadmeOptions, GitHubFile, FileAnalysisRequest, FileAnalysisResponse } from "./types";
 
-// Function to analyze a GitHub repository
-export async function analyzeRepository(url: string): Promise<Repository> {
+// Function to analyze a GitHub repository, optionally at a branch, tag or commit
+export async function analyzeRepository(url: string, ref?: string): Promise<Repository> {
   try {
-    const response = await apiRequest("POST", "/api/analyze", { url });
+    const response = await apiRequest("POST", "/api/analyze", { url, ref });
     const data = await response.json();
     return data;
   } catch (error) {
@@ -13,13 +13,110 @@ export async function analyzeRepository(url: string): Promise<Repository> {
   }
 }
 
+// Function to analyze a repository directory on the server's disk
+export async function analyzeLocalRepository(path: string): Promise<Repository> {
+  try {
+    const response = await apiRequest("POST", "/api/analyze", { path });
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error analyzing local repository:", error);
+    throw error;
+  }
+}
+
+// Function to analyze an uploaded .tar.gz archive or git bundle
+export async function uploadRepositoryArchive(file: File): Promise<Repository> {
+  try {
+    const content = await readAsBase64(file);
+    const response = await apiRequest("POST", "/api/analyze", {
+      archive: { fileName: file.name, content },
+    });
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error uploading repository archive:", error);
+    throw error;
+  }
+}
+
+// Read a file as base64 without the data URL prefix
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Function to list the GitHub hosts repositories can be analyzed from
+export async function getAllowedHosts(): Promise<string[]> {
+  try {
+    const response = await apiRequest("GET", "/api/hosts");
+    const data = await response.json();
+    return data.hosts;
+  } catch (error) {
+    console.error("Error fetching allowed hosts:", error);
+    throw error;
+  }
+}
+
+// Function to fetch the latest stored analysis of a repository
+export async function getRepository(repoId: string): Promise<Repository> {
+  try {
+    const response = await apiRequest("GET", `/api/repositories/${encodeURIComponent(repoId)}`);
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error fetching repository:", error);
+    throw error;
+  }
+}
+
+// Function to list the branches and tags of a repository
+export async function getRepositoryRefs(repoId: string): Promise<RepositoryRefs> {
+  try {
+    const response = await apiRequest("GET", `/api/repositories/${encodeURIComponent(repoId)}/refs`);
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error fetching repository refs:", error);
+    throw error;
+  }
+}
+
+// Function to fetch issue and pull request health of a repository
+export async function getIssuesHealth(repoId: string): Promise<IssuesHealth> {
+  try {
+    const response = await apiRequest("GET", `/api/repositories/${encodeURIComponent(repoId)}/issues-health`);
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error fetching issues health:", error);
+    throw error;
+  }
+}
+
+// Function to recount a repository's hotspots over a window of days
+export async function getHotspots(repoId: string, days: number): Promise<HotspotAnalysis> {
+  try {
+    const response = await apiRequest("GET", `/api/repositories/${encodeURIComponent(repoId)}/hotspots?days=${days}`);
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error fetching hotspots:", error);
+    throw error;
+  }
+}
+
 // Function to generate a README for a repository
 export async function generateReadme(
   repoId: string, 
   options?: ReadmeOptions
 ): Promise<{ content: string, filename: string }> {
   try {
-    const response = await apiRequest("POST", `/api/readme/${repoId}`, options);
+    const response = await apiRequest("POST", `/api/readme/${encodeURIComponent(repoId)}`, options);
     const data = await response.json();
     return data;
   } catch (error) {
@@ -46,10 +143,26 @@ export function downloadReadme(content: string, filename: string = "README.md"):
   }, 0);
 }
 
+// Function to upload a coverage report (lcov, Cobertura, JaCoCo or Clover) for a repository
+export async function uploadCoverageReport(repoId: string, file: File): Promise<Repository> {
+  try {
+    const content = await file.text();
+    const response = await apiRequest("POST", `/api/repositories/${encodeURIComponent(repoId)}/coverage`, {
+      content,
+      fileName: file.name,
+    });
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Error uploading coverage report:", error);
+    throw error;
+  }
+}
+
 // Function to get files from a repository
-export async function getRepositoryFiles(owner: string, repo: string, path: string = ""): Promise<GitHubFile[]> {
+export async function getRepositoryFiles(repoId: string, path: string = ""): Promise<GitHubFile[]> {
   try {
-    const response = await apiRequest("GET", `/api/files/${owner}/${repo}?path=${encodeURIComponent(path)}`);
+    const response = await apiRequest("GET", `/api/repositories/${encodeURIComponent(repoId)}/files?path=${encodeURIComponent(path)}`);
     const data = await response.json();
     
     // Transform GitHub API response to our GitHubFile format
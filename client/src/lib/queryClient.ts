@@ -1,8 +1,32 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Raised when the server reports that the GitHub API rate limit is exhausted
+export class RateLimitedError extends Error {
+  resetAt: Date;
+
+  constructor(message: string, resetAt: Date) {
+    super(message);
+    this.name = "RateLimitedError";
+    this.resetAt = resetAt;
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+
+    if (res.status === 429) {
+      let body: { message?: string; rateLimitReset?: string } = {};
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not a JSON body; fall through to the generic error
+      }
+      if (body.rateLimitReset) {
+        throw new RateLimitedError(body.message || "GitHub API rate limit exceeded", new Date(body.rateLimitReset));
+      }
+    }
+
     throw new Error(`${res.status}: ${text}`);
   }
 }
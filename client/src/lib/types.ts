@@ -1,23 +1,51 @@
 // Repository data type
 export interface Repository {
+  // Host, repository id and commit, e.g. "github.com:10270250@<sha>", or
+  // "local:<key>@<sha>" ("@worktree" outside git) for local repositories
   id: string;
+  // "local" for repositories analyzed from the server's disk or an upload
+  host: string;
   fullName: string;
+  // Branch, tag or commit the repository was analyzed at
+  ref: string | null;
+  // Commit the ref resolved to; null for empty repositories
+  commitSha: string | null;
+  // Directory the analyzed URL pointed into
+  path: string | null;
   description: string;
-  ownerAvatar: string;
-  stars: string;
-  forks: string;
-  openIssues: string;
+  // Null for local repositories and where a host has no such detail, like
+  // stars, forks and open issues on Bitbucket or issues turned off on GitLab
+  ownerAvatar: string | null;
+  stars: string | null;
+  forks: string | null;
+  openIssues: string | null;
   language: string;
   createdAt: string;
   lastUpdated: string;
-  codeQuality: number;
-  codeCoverage: number;
+  // Null when no quality signal applies, e.g. the file tree couldn't be read
+  codeQuality: number | null;
+  codeCoverage: number | null;
   commitFrequency: string;
   activeContributors: number;
   languages: LanguageData[];
   commitActivity: CommitActivity[];
+  // Commits per weekday (Sunday first) and hour of the day in UTC
+  punchCard: number[][];
+  codeFrequency: CodeFrequency;
+  releases: ReleaseAnalysis;
   complexFiles: ComplexFile[];
+  hotspots: HotspotAnalysis;
+  testSuite: TestSuite;
+  buildDeploy: BuildDeploy;
+  community: CommunityProfile;
   dependencies: Dependency[];
+  qualityBreakdown: QualitySignal[];
+  coverage: CoverageReport | null;
+  contributors: Contributor[];
+  activeWindowDays: number;
+  contributorRisk: ContributorRisk;
+  // GitHub was still computing commit statistics; they are refreshed in the background
+  statsPending: boolean;
 }
 
 // Language data for chart
@@ -29,30 +57,331 @@ export interface LanguageData {
 
 // Commit activity data for chart
 export interface CommitActivity {
+  // ISO date of the week's Sunday
+  week: string;
   month: string;
   count: number;
+  // Commits per day, Sunday to Saturday
+  days: number[];
 }
 
 // Complex file data
 export interface ComplexFile {
   path: string;
+  language: string;
+  cyclomatic: number;
+  cognitive: number;
   complexity: number;
   level: "High" | "Medium" | "Low";
 }
 
+// A file's recent changes next to its complexity
+export interface Hotspot {
+  path: string;
+  language: string;
+  // Commits that touched the file in the window
+  changes: number;
+  cyclomatic: number;
+  level: "High" | "Medium" | "Low";
+  // Changes times complexity, relative to the file with the most of both (0-100)
+  score: number;
+  // Both more complex and more often changed than most analyzed files
+  hotspot: boolean;
+}
+
+export interface HotspotAnalysis {
+  windowDays: number;
+  // Highest score first
+  files: Hotspot[];
+  // Some files have more commits than were read, so their counts are lower bounds
+  truncated: boolean;
+}
+
+// Test framework and the file it was recognized from
+export interface TestFramework {
+  name: "Jest" | "Vitest" | "Mocha" | "pytest" | "Go testing" | "JUnit" | "RSpec";
+  evidence: string;
+}
+
+export interface TestDirectory {
+  path: string;
+  sourceFiles: number;
+  sourceLines: number;
+  testFiles: number;
+  testLines: number;
+}
+
+export interface TestSuite {
+  frameworks: TestFramework[];
+  testFiles: number;
+  sourceFiles: number;
+  // Non-blank lines
+  testLines: number;
+  sourceLines: number;
+  // Test lines per source line; null without source
+  ratio: number | null;
+  // Largest directories by source lines
+  directories: TestDirectory[];
+  // Directories with source and no tests at all, largest first
+  untestedDirectories: string[];
+  // Some files weren't read, so their lines are estimated from their size
+  estimated: boolean;
+}
+
+// How a repository is built and deployed
+export interface PipelineJob {
+  name: string;
+  // Runner labels or the image a job runs in
+  runsOn: string | null;
+  // Matrix axes like "node: 18, 20"
+  matrix: string[];
+  steps: number;
+  needs: string[];
+}
+
+export interface Pipeline {
+  file: string;
+  system: "GitHub Actions" | "GitLab CI" | "Bitbucket Pipelines" | "CircleCI" | "Jenkins";
+  name: string | null;
+  // Events that run the pipeline, like "push (main)" or "schedule (0 3 * * 1)"
+  triggers: string[];
+  jobs: PipelineJob[];
+}
+
+export interface DeployTarget {
+  platform: string;
+  // Config file or pipeline the target was found in
+  file: string;
+  detail: string | null;
+}
+
+export interface ContainerConfig {
+  file: string;
+  kind: "Dockerfile" | "Compose";
+  // Base images of a Dockerfile's stages, or the images of Compose services
+  images: string[];
+  // Compose services; empty for Dockerfiles
+  services: string[];
+  ports: string[];
+}
+
+export interface BuildDeploy {
+  pipelines: Pipeline[];
+  // Actions the workflows use, as owner/name@version
+  actions: string[];
+  deployTargets: DeployTarget[];
+  containers: ContainerConfig[];
+}
+
+// Community health and governance files, like a license and contributing guide
+export interface CommunityCheck {
+  key: "license" | "contributing" | "codeOfConduct" | "security" | "issueTemplates" | "pullRequestTemplate" | "codeowners" | "funding";
+  label: string;
+  // "weak" files are present but fall short, like a stub or a placeholder contact
+  status: "pass" | "weak" | "missing";
+  // File in the repository; null when missing or only on the host
+  path: string | null;
+  // The file's page on the host, from its community profile
+  url: string | null;
+  detail: string | null;
+}
+
+export interface CommunityProfile {
+  // The host's own score; null for hosts without a community profile
+  healthPercentage: number | null;
+  checks: CommunityCheck[];
+}
+
 // Dependency data
 export interface Dependency {
   name: string;
   version: string;
-  status: "Up to date" | "Update available" | "Outdated";
+  ecosystem: "npm" | "pypi" | "go" | "cargo" | "maven";
+  manifest: string;
+  dev: boolean;
+  resolvedVersion?: string;
+  latestVersion?: string;
+  semverDistance?: {
+    major: number;
+    minor: number;
+    patch: number;
+  };
+  status: "Up to date" | "Update available" | "Outdated" | "Unknown";
+}
+
+// Signal contributing to the code quality score
+export interface QualitySignal {
+  key: string;
+  label: string;
+  score: number;
+  weight: number;
+  applicable: boolean;
+  detail: string;
+}
+
+// Line and branch coverage of a single file
+export interface FileCoverage {
+  path: string;
+  linesFound: number;
+  linesHit: number;
+  branchesFound: number;
+  branchesHit: number;
+}
+
+// Parsed coverage report
+export interface CoverageReport {
+  format: "lcov" | "cobertura" | "jacoco" | "clover";
+  source: "repository" | "upload";
+  reportPath?: string;
+  lineRate: number;
+  branchRate: number | null;
+  files: FileCoverage[];
+}
+
+// Repository contributor with commit counts
+export interface Contributor {
+  login: string;
+  avatarUrl?: string;
+  htmlUrl?: string;
+  anonymous: boolean;
+  contributions: number;
+  firstContribution?: string;
+  lastContribution?: string;
+  active: boolean;
+}
+
+// Contributors who joined, and who came back, in a calendar quarter
+export interface ContributorQuarter {
+  quarter: string;
+  newContributors: number;
+  returningContributors: number;
+  // The quarter began before the history read, so its contributors aren't counted
+  complete: boolean;
+}
+
+// How much of a repository's history depends on a few people
+export interface ContributorRisk {
+  // Fewest contributors who together made half of the commits
+  busFactor: number;
+  topContributor: string | null;
+  topContributorShare: number;
+  totalCommits: number;
+  level: "High" | "Medium" | "Low" | "Unknown";
+  // Oldest first
+  quarters: ContributorQuarter[];
+  // Date of the oldest commit read when older history was cut off
+  historyStart: string | null;
+}
+
+// Lines added and deleted in a week
+export interface WeeklyChanges {
+  // ISO date of the week's Sunday
+  week: string;
+  additions: number;
+  deletions: number;
+}
+
+// Lines added and deleted in a calendar quarter
+export interface QuarterlyChurn {
+  quarter: string;
+  additions: number;
+  deletions: number;
+  net: number;
+  // Deleted lines per added line; null when nothing was added
+  churnRatio: number | null;
+  // Heavy churn that deleted nearly as much as it added
+  rewrite: boolean;
+}
+
+export interface CodeFrequency {
+  weeks: WeeklyChanges[];
+  quarters: QuarterlyChurn[];
+}
+
+// A release, or a version tag in repositories without releases
+export interface Release {
+  tag: string;
+  name: string | null;
+  date: string;
+  // Normalized semantic version; null for tags that aren't versions
+  version: string | null;
+  bump: "major" | "minor" | "patch" | "prerelease" | "initial" | null;
+  prerelease: boolean;
+}
+
+export interface ReleaseAnalysis {
+  source: "releases" | "tags" | "none";
+  // Newest first
+  releases: Release[];
+  totalReleases: number;
+  releasesLastYear: number;
+  medianDaysBetweenReleases: number | null;
+  lastReleaseDate: string | null;
+  daysSinceLastRelease: number | null;
+  latestTag: string | null;
+  bumpMix: { major: number; minor: number; patch: number; prerelease: number };
+  // Percentage of releases whose tags are semantic versions
+  semverShare: number;
+  // Commits on the analyzed ref after the latest tag; null when unknown
+  unreleasedCommits: number | null;
+}
+
+// Counts and medians for issues or for pull requests
+export interface ItemHealth {
+  open: number;
+  // Closed or merged within the window
+  closed: number;
+  merged: number;
+  // Null when nothing in the window has one, or the host doesn't report responses
+  medianFirstResponseHours: number | null;
+  // Time to close for issues and to merge for pull requests
+  medianResolutionHours: number | null;
+  unanswered: number | null;
+}
+
+export interface AgeBucket {
+  label: string;
+  issues: number;
+  pullRequests: number;
+}
+
+export interface LabelCount {
+  name: string;
+  open: number;
+  closed: number;
+}
+
+export interface IssuesHealth {
+  windowDays: number;
+  issues: ItemHealth;
+  pullRequests: ItemHealth;
+  openAges: AgeBucket[];
+  labels: LabelCount[];
+  // Page caps cut the listings short, so counts are lower bounds
+  truncated: boolean;
+}
+
+// Branch or tag and the commit it points to
+export interface NamedRef {
+  name: string;
+  sha: string;
+}
+
+// Refs offered by the ref selector
+export interface RepositoryRefs {
+  defaultBranch: string;
+  branches: NamedRef[];
+  tags: NamedRef[];
 }
 
 // README generation options
 export interface ReadmeOptions {
   includeInstallation?: boolean;
   includeUsage?: boolean;
+  includeBuildDeploy?: boolean;
   includeContributing?: boolean;
   includeLicense?: boolean;
+  includeCommunitySuggestions?: boolean;
   customSections?: {
     title: string;
     content: string;
@@ -71,7 +400,17 @@ export interface FileAnalysisRequest {
   filePath: string;
 }
 
+// "truncated" analyses only cover the first lines of a long file; binary and
+// too-large files aren't analyzed at all
+export type FileAnalysisStatus = "analyzed" | "truncated" | "binary" | "too-large";
+
 export interface FileAnalysisResponse {
   fileName: string;
-  analysis: string;
+  status: FileAnalysisStatus;
+  analysis: string | null;
+  // Explains why a file was cut short or skipped
+  message?: string;
+  shownLines?: number;
+  totalLines?: number;
+  size?: number;
 }
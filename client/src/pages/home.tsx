@@ -1,17 +1,46 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import RepositoryInput from "@/components/repository-input";
+import RefSelector from "@/components/ref-selector";
 import RepositoryOverview from "@/components/repository-overview";
+import ReleaseTimeline from "@/components/release-timeline";
 import RepositoryMetrics from "@/components/repository-metrics";
 import CodeAnalysis from "@/components/code-analysis";
+import IssuesHealthSection from "@/components/issues-health";
+import HotspotsSection from "@/components/hotspots";
+import TestingPanel from "@/components/testing-panel";
+import BuildDeployCard from "@/components/build-deploy-card";
+import CommunityChecklist from "@/components/community-checklist";
 import ReadmeGenerator from "@/components/readme-generator";
 import FileExplorer from "@/components/file-explorer";
+import { getRepository } from "@/lib/api";
 import { Repository } from "@/lib/types";
+import { LOCAL_REPO_HOST } from "@shared/repo-reference";
+
+// How often to check whether GitHub has finished computing commit statistics
+const STATS_POLL_INTERVAL_MS = 10000;
 
 export default function Home() {
   const [repository, setRepository] = useState<Repository | null>(null);
+  // File to open in the explorer, picked from the hotspots
+  const [explorerFile, setExplorerFile] = useState<{ path: string } | null>(null);
   const { toast } = useToast();
 
+  // Poll the stored record until the background stats refresh has filled it in
+  const { data: refreshedRepository } = useQuery({
+    queryKey: ["/api/repositories", repository?.id],
+    queryFn: () => getRepository(repository!.id),
+    enabled: !!repository?.statsPending,
+    refetchInterval: STATS_POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (refreshedRepository && !refreshedRepository.statsPending) {
+      setRepository(refreshedRepository);
+    }
+  }, [refreshedRepository]);
+
   const handleRepositoryAnalyzed = (repo: Repository) => {
     setRepository(repo);
     toast({
@@ -69,10 +98,23 @@ export default function Home() {
 
         {repository && (
           <div className="space-y-6">
-            <RepositoryOverview repository={repository} />
-            <RepositoryMetrics repository={repository} />
+            {repository.host !== LOCAL_REPO_HOST && (
+              <RefSelector repository={repository} onRepositoryAnalyzed={handleRepositoryAnalyzed} onError={handleError} />
+            )}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <RepositoryOverview repository={repository} />
+              </div>
+              <ReleaseTimeline repository={repository} />
+            </div>
+            <RepositoryMetrics repository={repository} onRepositoryUpdated={setRepository} />
             <CodeAnalysis repository={repository} />
-            <FileExplorer repository={repository} />
+            <HotspotsSection repository={repository} onOpenFile={path => setExplorerFile({ path })} />
+            <TestingPanel repository={repository} />
+            <BuildDeployCard repository={repository} />
+            <CommunityChecklist repository={repository} onOpenFile={path => setExplorerFile({ path })} />
+            {repository.host !== LOCAL_REPO_HOST && <IssuesHealthSection repository={repository} />}
+            <FileExplorer repository={repository} openFile={explorerFile} />
             <ReadmeGenerator repository={repository} />
           </div>
         )}
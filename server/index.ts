@@ -3,7 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Repository archives are uploaded to /api/analyze as base64 in JSON
+app.use("/api/analyze", express.json({ limit: "150mb" }));
+// Coverage reports are uploaded as JSON and can be several megabytes
+app.use(express.json({ limit: "25mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
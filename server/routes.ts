@@ -3,45 +3,192 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import axios from "axios";
 import { z } from "zod";
-import { repositorySchema } from "@shared/schema";
+import { promises as fs } from "fs";
+import { repositorySchema, type HotspotAnalysis, type Repository } from "@shared/schema";
+import { LOCAL_REPO_HOST, parseRepoReference, type RepoReference } from "@shared/repo-reference";
 import { analyzeCode } from "./services/openrouter";
+import { analyzeComplexity } from "./services/complexity";
+import { analyzeTestSuite } from "./services/test-suite";
+import { analyzeBuildDeploy } from "./services/build-deploy";
+import { analyzeCommunity } from "./services/community";
+import { DEFAULT_HOTSPOT_WINDOW_DAYS, MAX_HOTSPOT_FILES, type FileChanges, analyzeHotspots } from "./services/hotspots";
+import { analyzeDependencies } from "./services/dependencies";
+import { computeQualityScore } from "./services/quality";
+import { CoverageParseError, discoverCoverageReport, parseCoverageReport } from "./services/coverage";
+import { analyzeCommitAuthors, historyStartOf } from "./services/contributors";
+import { analyzeCommitDates } from "./services/commit-activity";
+import { analyzeCommitChanges } from "./services/code-frequency";
+import { analyzeReleases, sortVersionTags } from "./services/releases";
+import { scheduleStatsRefresh } from "./services/stats-refresh";
+import type { RepositoryFiles } from "./services/git-tree";
+import { RepositoryWorkspace } from "./services/workspace";
+import { countLanguageBytes, primaryLanguage, toLanguageShares } from "./services/languages";
+import { summarizeTree } from "./services/tree-summary";
+import { MAX_ANALYZED_FILE_BYTES, loadFileContent } from "./services/file-content";
+import {
+  LocalRepository,
+  LocalRepositoryError,
+  MAX_LOG_COMMITS,
+  countCommitsSince,
+  getLocalRepository,
+  openLocalDirectory,
+  openUploadedArchive,
+  readFileChanges,
+  readGitLog,
+  readGitTags,
+  registerLocalRepository,
+} from "./services/local-repository";
+import { resolveRef, type ResolvedRef } from "./services/refs";
+import { RateLimitError } from "./services/github";
+import { DEFAULT_GITHUB_HOST, getAllowedHosts, isAllowedHost } from "./services/github-hosts";
+import { type RepositoryProvider, getRepositoryProvider } from "./services/providers";
+
+// How much code the whole-repository analysis samples; reading from a
+// tarball workspace or local repository costs no API calls, so it can afford more
+const CODE_SAMPLE_LIMITS = {
+  api: { files: 5, chars: 1000 },
+  disk: { files: 25, chars: 4000 },
+};
+
+// Where a stored repository lives, for talking to its host's API. GitLab
+// owners may be nested groups, so the repository is the last segment.
+function providerFor(repository: Repository): RepositoryProvider {
+  const separator = repository.fullName.lastIndexOf('/');
+  return getRepositoryProvider(
+    repository.host,
+    repository.fullName.slice(0, separator),
+    repository.fullName.slice(separator + 1)
+  );
+}
+
+// Error text from a GitHub, GitLab or Bitbucket API error response
+function apiErrorMessage(data: any): string {
+  const message = data?.message || data?.error?.message || data?.error;
+  return typeof message === "string" ? message : "Unknown error";
+}
+
+// Ref a route works at: the one requested, else the commit the repository was analyzed at
+function refFor(repository: Repository, ref?: string): string {
+  return ref || repository.commitSha || repository.ref || "HEAD";
+}
+
+// Files and directory listings of local repositories stay on the server's disk
+function localRepositoryFor(repository: Repository): LocalRepository {
+  const local = getLocalRepository(repository.id);
+  if (!local) {
+    throw new LocalRepositoryError("This local repository is no longer available; analyze it again");
+  }
+  return local;
+}
+
+// Files of a stored repository at a ref, read from disk for local repositories
+async function openFilesFor(repository: Repository, ref?: string): Promise<RepositoryFiles> {
+  if (repository.host === LOCAL_REPO_HOST) {
+    return localRepositoryFor(repository);
+  }
+  return providerFor(repository).openFiles(refFor(repository, ref));
+}
+
+// Ref to analyze and the commit it points to: the URL's ref, which may take in
+// more path segments when a branch name contains slashes, or the default branch
+async function resolveAnalysisRef(reference: RepoReference, provider: RepositoryProvider): Promise<ResolvedRef | null> {
+  if (reference.ref) {
+    return resolveRef(provider, reference.ref, reference.path);
+  }
+
+  const { defaultBranch } = await provider.getMetadata();
+  return { ref: defaultBranch, commitSha: await provider.resolveCommitSha(defaultBranch) };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // API endpoint to analyze a GitHub repository
+  // API endpoint to list the GitHub, GitLab and Bitbucket hosts repositories can be analyzed from
+  app.get("/api/hosts", (_req: Request, res: Response) => {
+    return res.json({ hosts: getAllowedHosts() });
+  });
+
+  // API endpoint to analyze a hosted repository, a local path or an uploaded archive
   app.post("/api/analyze", async (req: Request, res: Response) => {
     try {
+      if (req.body?.path || req.body?.archive) {
+        const localBodySchema = z.object({
+          path: z.string().min(1).optional(),
+          archive: z.object({
+            fileName: z.string().min(1, "Archive file name is required"),
+            // Base64-encoded .tar.gz or git bundle
+            content: z.string().min(1, "Archive content is required")
+          }).optional()
+        });
+
+        const { path, archive } = localBodySchema.parse(req.body);
+        const local = archive
+          ? await openUploadedArchive(archive.fileName, Buffer.from(archive.content, "base64"))
+          : await openLocalDirectory(path!);
+
+        // Local files can change at any time, so they are analyzed on every request
+        const savedRepo = await storage.createRepository(await fetchLocalRepositoryData(local));
+        registerLocalRepository(savedRepo.id, local);
+        return res.json(savedRepo);
+      }
+
       // Validate request body
+      // Accepts HTTPS and SSH URLs, /tree/ and /blob/ links and owner/repo shorthand
       const bodySchema = z.object({
-        url: z.string().url("Invalid URL format")
-          .refine(url => url.includes("github.com"), { 
-            message: "URL must be a GitHub repository" 
-          })
+        url: z.string().min(1, "Repository URL is required")
+          .transform((url, ctx) => {
+            const reference = parseRepoReference(url);
+            if (!reference) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Invalid repository URL. Format should be: https://github.com/owner/repo, https://gitlab.com/group/repo or owner/repo"
+              });
+              return z.NEVER;
+            }
+            if (!isAllowedHost(reference.host)) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `URL must be a repository on ${getAllowedHosts().join(", ")}`
+              });
+              return z.NEVER;
+            }
+            return reference;
+          }),
+        // Branch, tag or commit to analyze; takes precedence over a ref in the URL
+        ref: z.string().min(1).optional()
       });
 
-      const { url } = bodySchema.parse(req.body);
+      const { url, ref } = bodySchema.parse(req.body);
+      // A ref picked separately replaces the URL's ref, and the path that went with it
+      const reference: RepoReference = ref ? { host: url.host, owner: url.owner, repo: url.repo, ref } : url;
+      const { host, owner, repo } = reference;
 
-      // Extract owner and repo name from GitHub URL
-      const urlParts = url.replace(/\/$/, "").split("/");
-      const owner = urlParts[urlParts.length - 2];
-      const repo = urlParts[urlParts.length - 1];
+      // GitHub, GitLab or Bitbucket, depending on the host
+      const provider = getRepositoryProvider(host, owner, repo);
 
-      if (!owner || !repo) {
-        return res.status(400).json({ 
-          message: "Invalid GitHub repository URL. Format should be: https://github.com/owner/repo" 
-        });
+      // Resolve the ref to a commit so analyses of the same commit are shared
+      const resolved = await resolveAnalysisRef(reference, provider);
+      if (!resolved) {
+        return res.status(404).json({ message: `Ref "${reference.ref}" not found in ${owner}/${repo}` });
       }
       
       // Try to get repository from storage first (cache)
-      const existingRepo = await storage.getRepositoryByFullName(`${owner}/${repo}`);
+      const existingRepo = await storage.getRepositoryByCommit(host, `${owner}/${repo}`, resolved.commitSha);
       if (existingRepo) {
+        if (existingRepo.statsPending) {
+          scheduleStatsRefresh(existingRepo.id, provider);
+        }
         return res.json(existingRepo);
       }
 
-      // Fetch repository data from GitHub API
-      const repoData = await fetchRepositoryData(owner, repo);
+      // Fetch repository data from the host's API
+      const repoData = await fetchRepositoryData(reference, provider, resolved);
       
       // Save repository to storage
       const savedRepo = await storage.createRepository(repoData);
+
+      // Fill in statistics GitHub was still computing once they are ready
+      if (savedRepo.statsPending) {
+        scheduleStatsRefresh(savedRepo.id, provider);
+      }
       
       return res.json(savedRepo);
     } catch (error) {
@@ -50,10 +197,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+
+      if (error instanceof LocalRepositoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
       
       if (axios.isAxiosError(error) && error.response) {
         return res.status(error.response.status).json({
-          message: `GitHub API error: ${error.response.data.message || "Unknown error"}`
+          message: `API error: ${apiErrorMessage(error.response.data)}`
         });
       }
       
@@ -61,6 +219,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint to get a previously analyzed repository
+  app.get("/api/repositories/:id", async (req: Request, res: Response) => {
+    try {
+      const repository = await storage.getRepository(req.params.id);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+      return res.json(repository);
+    } catch (error) {
+      console.error("Error fetching repository:", error);
+      return res.status(500).json({ message: "Failed to fetch repository" });
+    }
+  });
+
+  // API endpoint to list the branches and tags of a repository
+  app.get("/api/repositories/:id/refs", async (req: Request, res: Response) => {
+    try {
+      const repository = await storage.getRepository(req.params.id);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+      if (repository.host === LOCAL_REPO_HOST) {
+        return res.status(400).json({ message: "Local repositories are analyzed at their checked out commit" });
+      }
+
+      const refs = await providerFor(repository).listRefs();
+      return res.json(refs);
+    } catch (error) {
+      console.error("Error fetching repository refs:", error);
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
+
+      if (axios.isAxiosError(error) && error.response) {
+        return res.status(error.response.status).json({
+          message: `API error: ${apiErrorMessage(error.response.data)}`
+        });
+      }
+      return res.status(500).json({ message: "Failed to fetch repository refs" });
+    }
+  });
+
+  // API endpoint to summarize the health of a repository's issues and pull requests
+  app.get("/api/repositories/:id/issues-health", async (req: Request, res: Response) => {
+    try {
+      const querySchema = z.object({
+        days: z.coerce.number().int().min(1, "days must be at least 1").max(730, "days must be at most 730").optional()
+      });
+      const { days } = querySchema.parse(req.query);
+
+      const repository = await storage.getRepository(req.params.id);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+      if (repository.host === LOCAL_REPO_HOST) {
+        return res.status(400).json({ message: "Local repositories have no issues or pull requests" });
+      }
+
+      const health = await providerFor(repository).getIssuesHealth({ windowDays: days });
+      return res.json(health);
+    } catch (error) {
+      console.error("Error fetching issues health:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
+
+      if (axios.isAxiosError(error) && error.response) {
+        return res.status(error.response.status).json({
+          message: `API error: ${apiErrorMessage(error.response.data)}`
+        });
+      }
+      return res.status(500).json({ message: "Failed to fetch issues health" });
+    }
+  });
+
+  // API endpoint to recount the analyzed hotspots over a different window
+  app.get("/api/repositories/:id/hotspots", async (req: Request, res: Response) => {
+    try {
+      const querySchema = z.object({
+        days: z.coerce.number().int().min(1, "days must be at least 1").max(730, "days must be at most 730").optional()
+      });
+      const { days = DEFAULT_HOTSPOT_WINDOW_DAYS } = querySchema.parse(req.query);
+
+      const repository = await storage.getRepository(req.params.id);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+
+      // The analyzed files keep their complexity; only their changes are read again
+      const { files } = repository.hotspots as HotspotAnalysis;
+      const paths = files.map(file => file.path);
+      let fileChanges: FileChanges = { counts: {}, truncated: false };
+      if (repository.host === LOCAL_REPO_HOST) {
+        fileChanges = await readFileChanges(localRepositoryFor(repository), paths, days);
+      } else if (repository.commitSha && paths.length > 0) {
+        fileChanges = await providerFor(repository).getFileChanges(paths, repository.commitSha, days);
+      }
+      return res.json(analyzeHotspots(files, fileChanges, days));
+    } catch (error) {
+      console.error("Error fetching hotspots:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+
+      if (error instanceof LocalRepositoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
+
+      if (axios.isAxiosError(error) && error.response) {
+        return res.status(error.response.status).json({
+          message: `API error: ${apiErrorMessage(error.response.data)}`
+        });
+      }
+      return res.status(500).json({ message: "Failed to fetch hotspots" });
+    }
+  });
+
   // API endpoint to generate README for a repository
   app.post("/api/readme/:id", async (req: Request, res: Response) => {
     try {
@@ -87,22 +379,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API endpoint to upload a coverage report for a repository
+  app.post("/api/repositories/:id/coverage", async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      // Validate request body
+      const bodySchema = z.object({
+        content: z.string().min(1, "Coverage report content is required"),
+        format: z.enum(["lcov", "cobertura", "jacoco", "clover"]).optional(),
+        fileName: z.string().optional(),
+        ref: z.string().optional()
+      });
+
+      const { content, format, fileName, ref } = bodySchema.parse(req.body);
+
+      const repository = await storage.getRepository(id);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+
+      // The tree lets report paths be mapped onto repository paths
+      let treePaths: string[] = [];
+      try {
+        const files = await openFilesFor(repository, ref);
+        treePaths = files.tree.filter(entry => entry.type === "blob").map(entry => entry.path);
+      } catch (err) {
+        console.error("Error fetching repository tree:", err);
+      }
+
+      const coverage = parseCoverageReport(content, { format, source: "upload", reportPath: fileName, treePaths });
+      const updated = await storage.updateRepository(id, {
+        coverage,
+        codeCoverage: Math.round(coverage.lineRate)
+      });
+
+      return res.json(updated);
+    } catch (error) {
+      console.error("Error uploading coverage report:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+
+      if (error instanceof CoverageParseError) {
+        return res.status(422).json({ message: error.message });
+      }
+
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
+
+      return res.status(500).json({ message: "Failed to process coverage report" });
+    }
+  });
+
   // API endpoint to get repository files
-  app.get("/api/files/:owner/:repo", async (req: Request, res: Response) => {
+  app.get("/api/repositories/:id/files", async (req: Request, res: Response) => {
     try {
-      const { owner, repo } = req.params;
       const path = req.query.path as string || "";
+      const ref = req.query.ref as string | undefined;
+
+      const repository = await storage.getRepository(req.params.id);
+      if (!repository) {
+        return res.status(404).json({ message: "Repository not found" });
+      }
+
+      // Listed from disk in the same shape as the providers' listings
+      if (repository.host === LOCAL_REPO_HOST) {
+        const entries = localRepositoryFor(repository).listDirectory(path);
+        return res.json(entries.map(entry => ({
+          name: entry.path.split('/').pop(),
+          path: entry.path,
+          type: entry.type === 'tree' ? 'dir' : 'file'
+        })));
+      }
+
+      // Fetch the directory listing from the host's API
+      const entries = await providerFor(repository).listDirectory(path, refFor(repository, ref));
       
-      // Fetch repository contents from GitHub API
-      const contentsUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-      const response = await axios.get(contentsUrl);
-      
-      return res.json(response.data);
+      return res.json(entries);
     } catch (error) {
       console.error("Error fetching repository files:", error);
+      if (error instanceof LocalRepositoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
+      
       if (axios.isAxiosError(error) && error.response) {
         return res.status(error.response.status).json({
-          message: `GitHub API error: ${error.response.data.message || "Unknown error"}`
+          message: `API error: ${apiErrorMessage(error.response.data)}`
         });
       }
       return res.status(500).json({ message: "Failed to fetch repository files" });
@@ -115,10 +490,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body
       const bodySchema = z.object({
         repositoryId: z.string().min(1, "Repository ID is required"),
-        filePath: z.string().min(1, "File path is required")
+        filePath: z.string().min(1, "File path is required"),
+        ref: z.string().optional()
       });
       
-      const { repositoryId, filePath } = bodySchema.parse(req.body);
+      const { repositoryId, filePath, ref } = bodySchema.parse(req.body);
       
       // Fetch repository data
       const repository = await storage.getRepository(repositoryId);
@@ -126,33 +502,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Repository not found" });
       }
       
-      const [owner, repo] = repository.fullName.split('/');
-      
-      // Fetch file content from GitHub API
-      const fileContentUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${filePath}`;
-      const fileContentResponse = await axios.get(fileContentUrl);
-      
-      // Fetch directory structure
-      const dirStructureUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/HEAD?recursive=1`;
-      const structureResponse = await axios.get(dirStructureUrl);
-      
-      const fileContent = Buffer.from(fileContentResponse.data.content, 'base64').toString('utf-8');
+      // Fetch the repository's files, from a workspace when one is available
+      const files = await openFilesFor(repository, ref);
+      const { tree } = files;
+
+      const entry = tree.find(item => item.type === 'blob' && item.path === filePath);
+      if (!entry) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const fileName = filePath.split('/').pop() || filePath;
+
+      // Binaries and files over the size limit aren't sent to the AI at all
+      const file = await loadFileContent(files, entry);
+      if (file.status === "binary") {
+        return res.json({
+          fileName,
+          status: "binary",
+          analysis: null,
+          message: `${fileName} is a binary file${file.reason === "gitattributes" ? " according to .gitattributes" : ""} and can't be analyzed`
+        });
+      }
+      if (file.status === "too-large") {
+        return res.json({
+          fileName,
+          status: "too-large",
+          analysis: null,
+          size: file.size,
+          message: `${fileName} is ${formatBytes(file.size)}, over the ${formatBytes(MAX_ANALYZED_FILE_BYTES)} analysis limit`
+        });
+      }
       
-      // Simplify directory structure for the AI
-      const dirStructure = structureResponse.data.tree
-        .filter((item: any) => item.type === 'tree' || item.type === 'blob')
-        .map((item: any) => `${item.type === 'tree' ? 'directory' : 'file'}: ${item.path}`)
-        .join('\n');
+      // Simplify directory structure for the AI, summarized for big repositories
+      const dirStructure = summarizeTree(tree, { truncated: files.truncated, focusPath: filePath });
       
       // Prepare code content (selected file and relevant imports)
-      const codeContent = `File: ${filePath}\n\n\`\`\`\n${fileContent}\n\`\`\``;
+      const truncated = file.status === "truncated";
+      const codeContent = `File: ${filePath}${truncated ? ` (first ${file.shownLines} of ${file.totalLines} lines)` : ""}\n\n\`\`\`\n${file.content}\n\`\`\``;
       
       // Call OpenRouter to analyze the code
       const analysis = await analyzeCode(dirStructure, codeContent, filePath);
       
       return res.json({
-        fileName: filePath.split('/').pop() || filePath,
-        analysis
+        fileName,
+        status: truncated ? "truncated" : "analyzed",
+        analysis,
+        ...(truncated && {
+          shownLines: file.shownLines,
+          totalLines: file.totalLines,
+          message: `${fileName} is too large to analyze in full; showing the first ${file.shownLines} of ${file.totalLines} lines`
+        })
       });
     } catch (error) {
       console.error("Error analyzing file:", error);
@@ -160,10 +558,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+
+      if (error instanceof LocalRepositoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
       
       if (axios.isAxiosError(error) && error.response) {
         return res.status(error.response.status).json({
-          message: `GitHub API error: ${error.response.data.message || "Unknown error"}`
+          message: `API error: ${apiErrorMessage(error.response.data)}`
         });
       }
       
@@ -177,9 +586,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body
       const bodySchema = z.object({
         repositoryId: z.string().min(1, "Repository ID is required"),
+        ref: z.string().optional(),
       });
       
-      const { repositoryId } = bodySchema.parse(req.body);
+      const { repositoryId, ref } = bodySchema.parse(req.body);
       
       // Fetch repository data
       const repository = await storage.getRepository(repositoryId);
@@ -187,41 +597,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Repository not found" });
       }
       
-      const [owner, repo] = repository.fullName.split('/');
-      
-      // Fetch directory structure
-      const dirStructureUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/HEAD?recursive=1`;
-      const structureResponse = await axios.get(dirStructureUrl);
+      // Fetch the repository's files, from a workspace when one is available
+      const files = await openFilesFor(repository, ref);
+      const { tree } = files;
+      const onDisk = files instanceof RepositoryWorkspace || files instanceof LocalRepository;
+      const limits = onDisk ? CODE_SAMPLE_LIMITS.disk : CODE_SAMPLE_LIMITS.api;
       
-      // Simplify directory structure for the AI
-      const dirStructure = structureResponse.data.tree
-        .filter((item: any) => item.type === 'tree' || item.type === 'blob')
-        .map((item: any) => `${item.type === 'tree' ? 'directory' : 'file'}: ${item.path}`)
-        .join('\n');
+      // Simplify directory structure for the AI, summarized for big repositories
+      const dirStructure = summarizeTree(tree, { truncated: files.truncated });
       
-      // Get a sample of important files (at most 5 files)
+      // Get a sample of important files
       const importantFileExtensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.php', '.go', '.rb', '.c', '.cpp'];
-      const codeFiles = structureResponse.data.tree
-        .filter((item: any) => 
+      const codeFiles = tree
+        .filter(item => 
           item.type === 'blob' && 
           importantFileExtensions.some(ext => item.path.endsWith(ext)) &&
           !item.path.includes('node_modules/') &&
           !item.path.includes('vendor/') && 
           !item.path.match(/\.(min|bundle|compiled)\./i)
         )
-        .slice(0, 5);
+        .slice(0, limits.files);
       
       // Fetch content of important files
       let sampleCode = '';
       for (const file of codeFiles) {
         try {
-          const fileUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${file.path}`;
-          const fileResponse = await axios.get(fileUrl);
-          const content = Buffer.from(fileResponse.data.content, 'base64').toString('utf-8');
+          const content = await files.readFile(file);
           
           // Add file content with markdown formatting
-          sampleCode += `\nFile: ${file.path}\n\`\`\`\n${content.slice(0, 1000)}${content.length > 1000 ? '...' : ''}\n\`\`\`\n`;
+          sampleCode += `\nFile: ${file.path}\n\`\`\`\n${content.slice(0, limits.chars)}${content.length > limits.chars ? '...' : ''}\n\`\`\`\n`;
         } catch (err) {
+          if (err instanceof RateLimitError) {
+            throw err;
+          }
           console.error(`Error fetching file ${file.path}:`, err);
           // Continue with other files if one fails
         }
@@ -232,6 +640,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       return res.json({
         fileName: repository.fullName,
+        status: "analyzed",
         analysis
       });
     } catch (error) {
@@ -240,10 +649,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
+
+      if (error instanceof LocalRepositoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      if (error instanceof RateLimitError) {
+        return res.status(429).json({
+          message: error.message,
+          rateLimitReset: error.resetAt.toISOString()
+        });
+      }
       
       if (axios.isAxiosError(error) && error.response) {
         return res.status(error.response.status).json({
-          message: `GitHub API error: ${error.response.data.message || "Unknown error"}`
+          message: `API error: ${apiErrorMessage(error.response.data)}`
         });
       }
       
@@ -255,152 +675,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-// Helper function to fetch repository data from GitHub API
-async function fetchRepositoryData(owner: string, repo: string) {
+// Helper function to run the analyses that only need a repository's files
+async function analyzeRepositoryFiles(files: RepositoryFiles) {
+  // Compute per-file complexity and keep the most complex files
+  const analyzedFiles = await analyzeComplexity(files);
+  const complexFiles = analyzedFiles.slice(0, 10);
+
+  // Use a coverage report committed to the repository, if there is one
+  const coverage = await discoverCoverageReport(files);
+  const codeCoverage = coverage ? Math.round(coverage.lineRate) : null;
+
+  // Parse dependency manifests and compare against the latest releases
+  const dependencies = await analyzeDependencies(files);
+
+  // Find test frameworks and compare test code with source code
+  const testSuite = await analyzeTestSuite(files);
+
+  // Summarize CI pipelines, container builds and deploy targets
+  const buildDeploy = await analyzeBuildDeploy(files);
+
+  // Score code quality from the collected signals
+  const quality = computeQualityScore({ tree: files.tree, complexFiles: analyzedFiles, dependencies });
+
+  return { analyzedFiles, complexFiles, testSuite, buildDeploy, coverage, codeCoverage, dependencies, quality };
+}
+
+// Helper function to fetch repository data from the host's API
+async function fetchRepositoryData(reference: RepoReference, provider: RepositoryProvider, resolved: ResolvedRef) {
+  const { host } = reference;
   try {
     // Fetch repository info
-    const repoResponse = await axios.get(`https://api.github.com/repos/${owner}/${repo}`);
-    const repoInfo = repoResponse.data;
-
-    // Fetch languages
-    const languagesResponse = await axios.get(repoInfo.languages_url);
-    const languagesData = languagesResponse.data as Record<string, number>;
-    
-    // Calculate total bytes to get percentage
-    let totalBytes = 0;
-    Object.values(languagesData).forEach(bytes => {
-      totalBytes += (bytes as number);
-    });
-    
-    // Prepare languages array with colors
-    const languageColors: Record<string, string> = {
-      JavaScript: "#f1e05a",
-      TypeScript: "#3178c6",
-      HTML: "#e34c26",
-      CSS: "#563d7c",
-      Python: "#3572A5",
-      Java: "#b07219",
-      Go: "#00ADD8",
-      Rust: "#dea584",
-      C: "#555555",
-      "C++": "#f34b7d",
-      "C#": "#178600"
-    };
+    const repoInfo = await provider.getMetadata();
 
-    const languages = Object.entries(languagesData).map(entry => {
-      const name = entry[0];
-      const bytes = entry[1] as number;
-      return {
-        name,
-        percentage: (bytes / (totalBytes || 1)) * 100,
-        color: languageColors[name] || "#808080"
-      };
-    });
+    // Fetch commit activity, code frequency and contributors together, since
+    // each may wait out retries while GitHub is still computing its statistics
+    const [activity, codeFrequency, contributorAnalysis] = await Promise.all([
+      provider.getCommitActivity(),
+      provider.getCodeFrequency(),
+      provider.getContributors(),
+    ]);
 
-    // Fetch commit activity
-    const commitActivityResponse = await axios.get(`https://api.github.com/repos/${owner}/${repo}/stats/commit_activity`);
-    const commitData = commitActivityResponse.data || [];
-    
-    // Process commit data for chart (last 7 weeks to months)
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    
-    // Make sure commitData is an array before using slice
-    const commitActivity = Array.isArray(commitData) 
-      ? commitData.slice(-7).map((weekData: any, index: number) => {
-          const date = new Date(weekData.week * 1000);
-          const month = months[date.getMonth()];
-          return {
-            month,
-            count: weekData.total
-          };
-        })
-      : Array(7).fill(0).map((_, index) => {
-          const date = new Date();
-          date.setDate(date.getDate() - (index * 7));
-          const month = months[date.getMonth()];
-          return {
-            month,
-            count: 0
-          };
-        });
+    // Format dates
+    const createdAt = formatDate(new Date(repoInfo.createdAt));
 
-    // Calculate average weekly commits for commit frequency
-    const averageWeeklyCommits = Array.isArray(commitData) 
-      ? commitData.slice(-12).reduce((sum: number, week: any) => sum + week.total, 0) / (Math.min(commitData.length, 12) || 1)
-      : 0;
-    const commitFrequency = `${Math.round(averageWeeklyCommits)}/week`;
+    const lastUpdated = getRelativeTimeString(new Date(repoInfo.updatedAt));
 
-    // Format dates
-    const createdAt = new Date(repoInfo.created_at).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+    // Fetch the files at the resolved commit, as a tarball workspace when
+    // possible (empty repositories have none)
+    let files: RepositoryFiles = { tree: [], readFile: async () => "" };
+    if (resolved.commitSha) {
+      try {
+        files = await provider.openFiles(resolved.commitSha);
+      } catch (err) {
+        console.error("Error fetching repository tree:", err);
+      }
+    }
+    const { analyzedFiles, complexFiles, testSuite, buildDeploy, coverage, codeCoverage, dependencies, quality } = await analyzeRepositoryFiles(files);
+
+    // Fetch languages; hosts that don't name a primary language get the largest one
+    const languagesData = resolved.commitSha ? await provider.getLanguages(resolved.commitSha) : {};
+    const languages = toLanguageShares(languagesData);
+    const language = repoInfo.language || primaryLanguage(languagesData) || "Unknown";
+
+    // Release cadence and the commits made since the latest release
+    const releases = await provider.getReleases(resolved.commitSha);
 
-    const lastUpdated = getRelativeTimeString(new Date(repoInfo.updated_at));
-
-    // Mock some data that we can't easily get from GitHub API
-    const codeQuality = Math.floor(70 + Math.random() * 25); // 70-95%
-    const codeCoverage = Math.floor(60 + Math.random() * 30); // 60-90%
-
-    // Mock complex files data
-    const complexFiles = [
-      {
-        path: `src/core/${repo}Core.js`,
-        complexity: 85,
-        level: "High" as const
-      },
-      {
-        path: `src/components/${repo}Component.js`,
-        complexity: 65,
-        level: "Medium" as const
-      },
-      {
-        path: `src/utils/helpers.js`,
-        complexity: 45,
-        level: "Low" as const
-      }
-    ];
-
-    // Mock dependencies data
-    const dependencies = [
-      {
-        name: "react",
-        version: "^18.2.0",
-        status: "Up to date" as const
-      },
-      {
-        name: "lodash",
-        version: "^4.17.21",
-        status: "Up to date" as const
-      },
-      {
-        name: "axios",
-        version: "^0.21.1",
-        status: "Update available" as const
-      }
-    ];
+    // Recent changes to the most complex files, to find the ones worth refactoring
+    const hotspotPaths = analyzedFiles.slice(0, MAX_HOTSPOT_FILES).map(file => file.path);
+    const fileChanges = resolved.commitSha && hotspotPaths.length > 0
+      ? await provider.getFileChanges(hotspotPaths, resolved.commitSha, DEFAULT_HOTSPOT_WINDOW_DAYS)
+      : { counts: {}, truncated: false };
+    const hotspots = analyzeHotspots(analyzedFiles, fileChanges, DEFAULT_HOTSPOT_WINDOW_DAYS);
+
+    // Check governance files in the tree against the host's community profile
+    const community = await analyzeCommunity(files, await provider.getCommunityProfile());
 
     // Prepare repository data
     const repositoryData = {
-      id: repoInfo.id.toString(),
-      fullName: repoInfo.full_name,
-      description: repoInfo.description || `A ${repoInfo.language} repository`,
-      ownerAvatar: repoInfo.owner.avatar_url,
-      stars: formatNumber(repoInfo.stargazers_count),
-      forks: formatNumber(repoInfo.forks_count),
-      openIssues: formatNumber(repoInfo.open_issues_count),
-      language: repoInfo.language || "Unknown",
+      id: `${host}:${repoInfo.id}@${resolved.commitSha ?? resolved.ref}`,
+      host,
+      fullName: repoInfo.fullName,
+      ref: resolved.ref,
+      commitSha: resolved.commitSha,
+      // Links to a file start browsing in the file's directory
+      path: resolved.path && reference.pathType === "blob"
+        ? resolved.path.split("/").slice(0, -1).join("/")
+        : resolved.path ?? null,
+      description: repoInfo.description || `A ${language} repository`,
+      ownerAvatar: repoInfo.ownerAvatar,
+      stars: formatNumber(repoInfo.stars),
+      forks: formatNumber(repoInfo.forks),
+      openIssues: formatNumber(repoInfo.openIssues),
+      language,
       createdAt,
       lastUpdated,
-      codeQuality,
+      codeQuality: quality.score,
       codeCoverage,
-      commitFrequency,
-      activeContributors: Math.floor(10 + Math.random() * 490), // Random number 10-500
+      commitFrequency: activity.commitFrequency,
+      activeContributors: contributorAnalysis.activeContributors,
+      activeWindowDays: contributorAnalysis.windowDays,
+      contributors: contributorAnalysis.contributors,
+      contributorRisk: contributorAnalysis.risk,
       languages,
-      commitActivity,
+      commitActivity: activity.commitActivity,
+      punchCard: activity.punchCard,
+      codeFrequency: codeFrequency.codeFrequency,
+      releases,
+      statsPending: activity.pending || codeFrequency.pending || contributorAnalysis.statsPending,
       complexFiles,
-      dependencies
+      hotspots,
+      testSuite,
+      buildDeploy,
+      community,
+      dependencies,
+      qualityBreakdown: quality.signals,
+      coverage
     };
 
     return repositoryData;
@@ -410,24 +799,130 @@ async function fetchRepositoryData(owner: string, repo: string) {
   }
 }
 
+// Helper function to analyze a repository on the server's disk, with the
+// commit history read from git instead of GitHub's statistics
+async function fetchLocalRepositoryData(local: LocalRepository) {
+  const commits = await readGitLog(local);
+  const activity = analyzeCommitDates(commits.map(commit => commit.timestamp));
+  const codeFrequency = analyzeCommitChanges(commits);
+
+  // Releases come from version tags since there are no hosted releases
+  const tags = sortVersionTags(await readGitTags(local));
+  const releases = analyzeReleases(
+    tags.map(tag => ({ tag: tag.name, date: new Date(tag.timestamp * 1000).toISOString() })),
+    { source: tags.length > 0 ? "tags" : "none", unreleasedCommits: null }
+  );
+  if (releases.latestTag) {
+    releases.unreleasedCommits = await countCommitsSince(local, releases.latestTag);
+  }
+  const contributorAnalysis = analyzeCommitAuthors(
+    commits,
+    undefined,
+    historyStartOf(commits, commits.length >= MAX_LOG_COMMITS, null)
+  );
+
+  // Languages come from file extensions since there is no GitHub to classify them
+  const languagesData = countLanguageBytes(local.tree);
+  const languages = toLanguageShares(languagesData);
+  const language = primaryLanguage(languagesData) ?? "Unknown";
+
+  const { analyzedFiles, complexFiles, testSuite, buildDeploy, coverage, codeCoverage, dependencies, quality } = await analyzeRepositoryFiles(local);
+  const fileChanges = await readFileChanges(
+    local,
+    analyzedFiles.slice(0, MAX_HOTSPOT_FILES).map(file => file.path),
+    DEFAULT_HOTSPOT_WINDOW_DAYS
+  );
+  const hotspots = analyzeHotspots(analyzedFiles, fileChanges, DEFAULT_HOTSPOT_WINDOW_DAYS);
+  const community = await analyzeCommunity(local, null);
+
+  // Dates come from the commit history, or the directory itself without one
+  const timestamps = commits.map(commit => commit.timestamp * 1000);
+  const stat = await fs.stat(local.directory);
+  const created = timestamps.length > 0 ? new Date(Math.min(...timestamps)) : stat.birthtime;
+  const updated = timestamps.length > 0 ? new Date(Math.max(...timestamps)) : stat.mtime;
+
+  return {
+    id: `${LOCAL_REPO_HOST}:${local.key}@${local.commitSha ?? "worktree"}`,
+    host: LOCAL_REPO_HOST,
+    fullName: `${LOCAL_REPO_HOST}/${local.name}`,
+    ref: local.ref,
+    commitSha: local.commitSha,
+    path: null,
+    description: `A local ${language} repository`,
+    ownerAvatar: null,
+    stars: null,
+    forks: null,
+    openIssues: null,
+    language,
+    createdAt: formatDate(created),
+    lastUpdated: getRelativeTimeString(updated),
+    codeQuality: quality.score,
+    codeCoverage,
+    commitFrequency: activity.commitFrequency,
+    activeContributors: contributorAnalysis.activeContributors,
+    activeWindowDays: contributorAnalysis.windowDays,
+    contributors: contributorAnalysis.contributors,
+    contributorRisk: contributorAnalysis.risk,
+    languages,
+    commitActivity: activity.commitActivity,
+    punchCard: activity.punchCard,
+    codeFrequency: codeFrequency.codeFrequency,
+    releases,
+    statsPending: false,
+    complexFiles,
+    hotspots,
+    testSuite,
+    buildDeploy,
+    community,
+    dependencies,
+    qualityBreakdown: quality.signals,
+    coverage
+  };
+}
+
+// README sections suggested in place of missing community files, by check
+const SUGGESTED_COMMUNITY_SECTIONS: Record<string, { title: string; content: string }> = {
+  codeOfConduct: {
+    title: "Code of Conduct",
+    content: "Everyone taking part in this project is expected to follow the [Contributor Covenant](https://www.contributor-covenant.org/). Report unacceptable behavior to the maintainers.",
+  },
+  issueTemplates: {
+    title: "Reporting Issues",
+    content: "When opening an issue, describe what you expected, what happened instead and the steps to reproduce it, along with the version you used.",
+  },
+  security: {
+    title: "Security",
+    content: "Please don't report security vulnerabilities in public issues. Contact the maintainers privately with a description of the problem and how to reproduce it.",
+  },
+  funding: {
+    title: "Support",
+    content: "If this project is useful to you, consider supporting its maintainers.",
+  },
+};
+
 // Helper function to generate README content
 function generateReadmeContent(repository: any, options: any) {
   const {
     includeInstallation = true,
     includeUsage = true,
+    includeBuildDeploy = true,
     includeContributing = true,
     includeLicense = true,
+    includeCommunitySuggestions = true,
     customSections = []
   } = options;
 
-  const repoName = repository.fullName.split('/')[1];
+  const repoName = repository.fullName.split('/').pop();
   
   let content = `# ${repoName}\n\n`;
   content += `${repository.description}\n\n`;
   
-  content += `![GitHub stars](https://img.shields.io/github/stars/${repository.fullName}?style=social) `;
-  content += `![License](https://img.shields.io/github/license/${repository.fullName}) `;
-  content += `![Last commit](https://img.shields.io/github/last-commit/${repository.fullName})\n\n`;
+  // shields.io can only read repositories on github.com
+  if (repository.host === DEFAULT_GITHUB_HOST) {
+    content += `![GitHub stars](https://img.shields.io/github/stars/${repository.fullName}?style=social) `;
+    content += `![License](https://img.shields.io/github/license/${repository.fullName}) `;
+    content += `![Last commit](https://img.shields.io/github/last-commit/${repository.fullName})\n\n`;
+  }
   
   content += `## Overview\n\n`;
   content += `This repository contains a ${repository.language} project that ${repository.description.toLowerCase()}.\n\n`;
@@ -442,10 +937,13 @@ function generateReadmeContent(repository: any, options: any) {
   if (includeInstallation) {
     content += `## Installation\n\n`;
     content += `\`\`\`bash\n`;
-    content += `# Clone the repository\n`;
-    content += `git clone https://github.com/${repository.fullName}.git\n\n`;
-    content += `# Change directory\n`;
-    content += `cd ${repoName}\n\n`;
+    // Local repositories have no remote to clone from
+    if (repository.host !== LOCAL_REPO_HOST) {
+      content += `# Clone the repository\n`;
+      content += `git clone https://${repository.host}/${repository.fullName}.git\n\n`;
+      content += `# Change directory\n`;
+      content += `cd ${repoName}\n\n`;
+    }
     content += `# Install dependencies\n`;
     if (repository.language === "JavaScript" || repository.language === "TypeScript") {
       content += `npm install\n`;
@@ -486,9 +984,44 @@ function generateReadmeContent(repository: any, options: any) {
     content += `\`\`\`\n\n`;
   }
   
+  // Pipelines, containers and deploy targets found in the repository's configs
+  const { pipelines, deployTargets, containers } = repository.buildDeploy;
+  if (includeBuildDeploy && (pipelines.length > 0 || deployTargets.length > 0 || containers.length > 0)) {
+    content += `## Build & Deploy\n\n`;
+    pipelines.forEach((pipeline: any) => {
+      content += `- **${pipeline.system}** (\`${pipeline.file}\`)`;
+      if (pipeline.triggers.length > 0) {
+        content += ` runs on ${pipeline.triggers.join(", ")}`;
+      }
+      if (pipeline.jobs.length > 0) {
+        content += ` with jobs ${pipeline.jobs.map((job: any) => `\`${job.name}\``).join(", ")}`;
+      }
+      content += `\n`;
+    });
+    containers.forEach((container: any) => {
+      content += container.kind === "Compose"
+        ? `- **Docker Compose** (\`${container.file}\`) with services ${container.services.map((service: string) => `\`${service}\``).join(", ")}\n`
+        : `- **Docker** image (\`${container.file}\`) built from ${container.images.map((image: string) => `\`${image}\``).join(", ")}\n`;
+    });
+    if (deployTargets.length > 0) {
+      const platforms = Array.from(new Set(deployTargets.map((target: any) =>
+        target.detail ? `${target.platform} (${target.detail})` : target.platform
+      )));
+      content += `- **Deploys to** ${platforms.join(", ")}\n`;
+    }
+    content += `\n`;
+  }
+
+  const communityCheck = (key: string) => repository.community.checks.find((check: any) => check.key === key);
+  const contributing = communityCheck("contributing");
+  const license = communityCheck("license");
+
   if (includeContributing) {
     content += `## Contributing\n\n`;
     content += `Contributions are welcome! Please feel free to submit a Pull Request.\n\n`;
+    if (contributing?.path) {
+      content += `Please read [the contributing guide](${contributing.path}) before you start.\n\n`;
+    }
     content += `1. Fork the repository\n`;
     content += `2. Create your feature branch (\`git checkout -b feature/amazing-feature\`)\n`;
     content += `3. Commit your changes (\`git commit -m 'Add some amazing feature'\`)\n`;
@@ -498,7 +1031,26 @@ function generateReadmeContent(repository: any, options: any) {
   
   if (includeLicense) {
     content += `## License\n\n`;
-    content += `This project is licensed under the MIT License - see the LICENSE file for details.\n\n`;
+    if (license?.path && license.status === "pass" && license.detail) {
+      content += `This project is licensed under the ${license.detail} - see the [${license.path}](${license.path}) file for details.\n\n`;
+    } else if (license?.path || license?.status === "pass") {
+      content += `See the ${license.path ? `[${license.path}](${license.path})` : "LICENSE"} file for licensing details.\n\n`;
+    } else {
+      content += `<!-- Suggested: the repository has no license file yet -->\n`;
+      content += `This project doesn't have a license yet. Until one is added, all rights are reserved by the authors.\n\n`;
+    }
+  }
+
+  // Sections for governance files the repository lacks or that fall short
+  if (includeCommunitySuggestions) {
+    Object.entries(SUGGESTED_COMMUNITY_SECTIONS).forEach(([key, section]) => {
+      const check = communityCheck(key);
+      if (check && check.status !== "pass") {
+        content += `## ${section.title}\n\n`;
+        content += `<!-- Suggested: ${check.status === "missing" ? `the repository has no ${check.label.toLowerCase()}` : `${check.label}: ${check.detail}`} -->\n`;
+        content += `${section.content}\n\n`;
+      }
+    });
   }
   
   // Add custom sections
@@ -516,8 +1068,11 @@ function generateReadmeContent(repository: any, options: any) {
   return content;
 }
 
-// Helper function to format large numbers
-function formatNumber(num: number): string {
+// Helper function to format large numbers, keeping counts a host doesn't have null
+function formatNumber(num: number | null): string | null {
+  if (num === null) {
+    return null;
+  }
   if (num >= 1000000) {
     return (num / 1000000).toFixed(1) + 'M';
   }
@@ -527,6 +1082,26 @@ function formatNumber(num: number): string {
   return num.toString();
 }
 
+// Helper function to format a file size like "1.5 MB"
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} bytes`;
+}
+
+// Helper function to format a date like "January 5, 2024"
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
 // Helper function to get relative time string
 function getRelativeTimeString(date: Date): string {
   const now = new Date();
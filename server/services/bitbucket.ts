@@ -0,0 +1,345 @@
+import axios, { type AxiosResponse } from "axios";
+import type { ReleaseAnalysis } from "@shared/schema";
+import { type GitHubClient, RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry } from "./git-tree";
+import { type CommitActivityAnalysis, analyzeCommitDates } from "./commit-activity";
+import { type CodeFrequencyAnalysis, analyzeCommitChanges } from "./code-frequency";
+import { type CommitAuthor, type ContributorAnalysis, type ContributorOptions, analyzeCommitAuthors, historyStartOf } from "./contributors";
+import {
+  DEFAULT_ISSUES_WINDOW_DAYS,
+  MAX_ISSUE_PAGES,
+  type IssueItem,
+  type IssuesHealth,
+  type IssuesHealthOptions,
+  analyzeIssueItems,
+} from "./issues-health";
+import type { HostCommunityProfile } from "./community";
+import { type FileChanges, MAX_FILE_COMMITS, countFileChanges, hotspotWindowStart } from "./hotspots";
+import { MAX_RELEASE_PAGES, analyzeReleases, sortVersionTags } from "./releases";
+import { type NamedRef, type RepositoryRefs, encodeRef } from "./refs";
+import type { DirectoryEntry, RepositoryMetadata, RepositoryProvider } from "./providers";
+import { countLanguageBytes } from "./languages";
+import { openWorkspaceFiles } from "./workspace";
+
+// Page caps for refs, directory listings, the recursive tree and the commit history
+const MAX_REF_PAGES = 5;
+const MAX_DIRECTORY_PAGES = 10;
+const MAX_TREE_PAGES = 100;
+const MAX_HISTORY_PAGES = 20;
+// Entries a page holds
+const PAGE_SIZE = 100;
+
+const HISTORY_DAYS = 365;
+// Pages of commits counted after the latest tag; more than this is reported as the cap
+const MAX_UNRELEASED_PAGES = 5;
+// How deep the API fallback lists the source tree
+const MAX_TREE_DEPTH = 20;
+
+// Issue states that count as open; the others are kinds of closed
+const OPEN_ISSUE_STATES = ["new", "open", "on hold"];
+
+// Bitbucket's author is a "Name <email>" string
+function parseAuthor(raw: string): { name: string; email: string } {
+  const match = raw.match(/^(.*?)\s*<([^>]*)>$/);
+  return match ? { name: match[1] || match[2], email: match[2] } : { name: raw, email: "" };
+}
+
+// A repository on Bitbucket Cloud. Bitbucket has neither statistics nor a
+// languages endpoint, so those come from the commit history and the files.
+export class BitbucketProvider implements RepositoryProvider {
+  readonly host: string;
+  readonly owner: string;
+  readonly repo: string;
+  private client: GitHubClient;
+  private repositoryPath: string;
+  private history?: Promise<CommitAuthor[]>;
+
+  constructor(host: string, client: GitHubClient, owner: string, repo: string) {
+    this.host = host;
+    this.owner = owner;
+    this.repo = repo;
+    this.client = client;
+    this.repositoryPath = `/repositories/${owner}/${repo}`;
+  }
+
+  async getMetadata(): Promise<RepositoryMetadata> {
+    const { data } = await this.client.get(this.repositoryPath);
+    return {
+      id: data.uuid,
+      fullName: data.full_name,
+      description: data.description,
+      ownerAvatar: data.links?.avatar?.href ?? null,
+      stars: null,
+      forks: null,
+      openIssues: null,
+      language: null,
+      createdAt: data.created_on,
+      updatedAt: data.updated_on,
+      defaultBranch: data.mainbranch?.name ?? "main",
+    };
+  }
+
+  // Counted from file extensions in the same workspace the analyses read
+  async getLanguages(ref: string): Promise<Record<string, number>> {
+    const files = await this.openFiles(ref);
+    return countLanguageBytes(files.tree);
+  }
+
+  async resolveCommitSha(ref: string): Promise<string | null> {
+    try {
+      const response = await this.client.get(`${this.repositoryPath}/commits/${encodeURIComponent(ref)}`, {
+        params: { pagelen: 1 }
+      });
+      return response.data.values?.[0]?.hash ?? null;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listRefs(): Promise<RepositoryRefs> {
+    const [metadata, branches, tags] = await Promise.all([
+      this.getMetadata(),
+      this.getValues(`${this.repositoryPath}/refs/branches`, {}, MAX_REF_PAGES),
+      this.getValues(`${this.repositoryPath}/refs/tags`, {}, MAX_REF_PAGES),
+    ]);
+
+    const toNamedRef = (entry: any): NamedRef => ({ name: entry.name, sha: entry.target.hash });
+    return {
+      defaultBranch: metadata.defaultBranch,
+      branches: branches.map(toNamedRef),
+      tags: tags.map(toNamedRef),
+    };
+  }
+
+  openFiles(ref: string): Promise<RepositoryFiles> {
+    return openWorkspaceFiles(
+      {
+        client: this.client,
+        key: `${this.owner}/${this.repo}@${ref}`,
+        // Archives are served by the website rather than the API
+        archivePath: `https://${this.host}/${this.owner}/${this.repo}/get/${encodeURIComponent(ref)}.tar.gz`,
+        readMissing: entry => this.readSource(ref, entry.path),
+      },
+      async () => {
+        const entries = await this.getValues(
+          `${this.repositoryPath}/src/${encodeURIComponent(ref)}/`,
+          { max_depth: MAX_TREE_DEPTH },
+          MAX_TREE_PAGES
+        );
+        const tree: TreeEntry[] = entries.map(entry => ({
+          path: entry.path,
+          type: entry.type === "commit_directory" ? "tree" : "blob",
+          sha: "",
+          size: entry.size,
+        }));
+        // A full last page means the listing was cut off at the page cap
+        return {
+          tree,
+          truncated: entries.length >= MAX_TREE_PAGES * PAGE_SIZE,
+          readFile: entry => this.readSource(ref, entry.path),
+        };
+      }
+    );
+  }
+
+  async listDirectory(path: string, ref: string): Promise<DirectoryEntry[]> {
+    const entries = await this.getValues(
+      `${this.repositoryPath}/src/${encodeURIComponent(ref)}/${path ? `${encodeRef(path)}/` : ""}`,
+      {},
+      MAX_DIRECTORY_PAGES
+    );
+    return entries.map(entry => ({
+      name: entry.path.split("/").pop(),
+      path: entry.path,
+      type: entry.type === "commit_directory" ? "dir" : "file",
+    }));
+  }
+
+  async getCommitActivity(_retries?: number): Promise<CommitActivityAnalysis> {
+    const commits = await this.getHistory();
+    return analyzeCommitDates(commits.map(commit => commit.timestamp));
+  }
+
+  // Bitbucket's commit list has no line counts, and a diffstat request per
+  // commit would use up the rate limit, so there is no code frequency
+  async getCodeFrequency(_retries?: number): Promise<CodeFrequencyAnalysis> {
+    return analyzeCommitChanges([]);
+  }
+
+  async getContributors(options: ContributorOptions = {}): Promise<ContributorAnalysis> {
+    // The history goes back a year, or less when the page cap cut it short
+    const history = await this.getHistory();
+    const since = Math.floor((Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000) / 1000);
+    const historyStart = historyStartOf(history, history.length >= MAX_HISTORY_PAGES * PAGE_SIZE, since);
+    return analyzeCommitAuthors(history, options.windowDays, historyStart);
+  }
+
+  // Pull requests and, when the repository has the issue tracker turned on,
+  // issues that are open or were updated in the window. Bitbucket has no
+  // labels or close dates, so an issue's kind stands in for its label and the
+  // last update for when it was closed; response times are left out.
+  async getIssuesHealth(options: IssuesHealthOptions = {}): Promise<IssuesHealth> {
+    const windowDays = options.windowDays ?? DEFAULT_ISSUES_WINDOW_DAYS;
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+    const recent = `updated_on > ${since}`;
+
+    const [issues, ...pullRequests] = await Promise.all([
+      this.getIssues(`${OPEN_ISSUE_STATES.map(state => `state = "${state}"`).join(" OR ")} OR ${recent}`),
+      this.getValues(`${this.repositoryPath}/pullrequests`, { state: "OPEN" }, MAX_ISSUE_PAGES),
+      this.getValues(`${this.repositoryPath}/pullrequests`, { state: "MERGED", q: recent }, MAX_ISSUE_PAGES),
+      this.getValues(`${this.repositoryPath}/pullrequests`, { state: "DECLINED", q: recent }, MAX_ISSUE_PAGES),
+    ]);
+
+    const pullItems = pullRequests.flat().map((entry): IssueItem => ({
+      kind: "pull",
+      author: entry.author?.nickname ?? entry.author?.display_name ?? null,
+      state: entry.state === "OPEN" ? "open" : "closed",
+      createdAt: entry.created_on,
+      closedAt: entry.state === "OPEN" ? null : entry.updated_on,
+      mergedAt: entry.state === "MERGED" ? entry.updated_on : null,
+      labels: [],
+      firstResponseAt: null,
+    }));
+    const issueItems = issues.map((entry): IssueItem => {
+      const open = OPEN_ISSUE_STATES.includes(entry.state);
+      return {
+        kind: "issue",
+        author: entry.reporter?.nickname ?? entry.reporter?.display_name ?? null,
+        state: open ? "open" : "closed",
+        createdAt: entry.created_on,
+        closedAt: open ? null : entry.updated_on,
+        mergedAt: null,
+        labels: entry.kind ? [entry.kind] : [],
+        firstResponseAt: null,
+      };
+    });
+
+    return analyzeIssueItems([...issueItems, ...pullItems], {
+      windowDays,
+      hasResponses: false,
+      truncated: [issues, ...pullRequests].some(list => list.length >= MAX_ISSUE_PAGES * PAGE_SIZE),
+    });
+  }
+
+  // Bitbucket has no releases, so they come from version tags and their dates
+  async getReleases(ref: string | null): Promise<ReleaseAnalysis> {
+    const tags = sortVersionTags(await this.getValues(`${this.repositoryPath}/refs/tags`, {}, MAX_RELEASE_PAGES));
+    const analysis = analyzeReleases(
+      tags.map(tag => ({ tag: tag.name, date: tag.date ?? tag.target.date })),
+      { source: tags.length > 0 ? "tags" : "none", unreleasedCommits: null }
+    );
+    if (analysis.latestTag && ref) {
+      analysis.unreleasedCommits = await this.countCommitsSince(analysis.latestTag, ref);
+    }
+    return analysis;
+  }
+
+  // The commits endpoint has no date filter, so the newest page per file is
+  // read and counted up to the start of the window
+  getFileChanges(paths: string[], ref: string, windowDays: number): Promise<FileChanges> {
+    const since = new Date(hotspotWindowStart(windowDays)).getTime();
+    return countFileChanges(paths, async path => {
+      const commits = await this.getValues(
+        `${this.repositoryPath}/commits/${encodeURIComponent(ref)}`,
+        { path, pagelen: MAX_FILE_COMMITS },
+        1
+      );
+      return commits.filter(commit => new Date(commit.date).getTime() >= since).length;
+    });
+  }
+
+  // Bitbucket has no community profile, so the checks come from the files alone
+  async getCommunityProfile(): Promise<HostCommunityProfile | null> {
+    return null;
+  }
+
+  // Commits on a ref after a tag, or null when they can't be compared
+  private async countCommitsSince(tag: string, ref: string): Promise<number | null> {
+    try {
+      const commits = await this.getValues(
+        `${this.repositoryPath}/commits/${encodeURIComponent(ref)}`,
+        { exclude: tag },
+        MAX_UNRELEASED_PAGES
+      );
+      return commits.length;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      console.error(`Error comparing ${tag} with ${ref}:`, error);
+      return null;
+    }
+  }
+
+  // Issues matching a query, or none when the issue tracker is turned off
+  private async getIssues(query: string): Promise<any[]> {
+    try {
+      return await this.getValues(`${this.repositoryPath}/issues`, { q: query }, MAX_ISSUE_PAGES);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Files are served raw; responseType "text" keeps JSON files from being parsed
+  private async readSource(ref: string, path: string): Promise<string> {
+    const response = await this.client.get<string>(
+      `${this.repositoryPath}/src/${encodeURIComponent(ref)}/${encodeRef(path)}`,
+      { responseType: "text" }
+    );
+    return response.data;
+  }
+
+  // Bitbucket pages by a "next" URL in the response body instead of Link headers
+  private async getValues(
+    path: string,
+    params: Record<string, string | number>,
+    maxPages: number,
+    until?: (values: any[]) => boolean
+  ): Promise<any[]> {
+    const values: any[] = [];
+    let nextUrl: string | undefined = path;
+    let pageParams: Record<string, string | number> | undefined = { pagelen: PAGE_SIZE, ...params };
+
+    for (let page = 0; nextUrl && page < maxPages; page++) {
+      const response: AxiosResponse<any> = await this.client.get(nextUrl, { params: pageParams });
+      const pageValues: any[] = Array.isArray(response.data.values) ? response.data.values : [];
+      values.push(...pageValues);
+      if (until?.(pageValues)) {
+        break;
+      }
+
+      // The next URL already carries the query string
+      nextUrl = response.data.next;
+      pageParams = undefined;
+    }
+
+    return values;
+  }
+
+  // Commits on the main branch over the last year, shared by activity and contributors.
+  // The commits endpoint has no date filter, so pages are read until they reach a year back.
+  private getHistory(): Promise<CommitAuthor[]> {
+    if (!this.history) {
+      const since = Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+      const isOld = (commit: any) => new Date(commit.date).getTime() < since;
+      this.history = this.getMetadata()
+        .then(metadata => this.getValues(
+          `${this.repositoryPath}/commits/${encodeURIComponent(metadata.defaultBranch)}`,
+          {},
+          MAX_HISTORY_PAGES,
+          page => page.some(isOld)
+        ))
+        .then(commits => commits.filter(commit => !isOld(commit)).map(commit => ({
+          timestamp: Math.floor(new Date(commit.date).getTime() / 1000),
+          ...parseAuthor(commit.author?.raw ?? ""),
+        })));
+    }
+    return this.history;
+  }
+}
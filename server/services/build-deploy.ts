@@ -0,0 +1,466 @@
+import type { BuildDeploy, ContainerConfig, DeployTarget, Pipeline, PipelineJob } from "@shared/schema";
+import { RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry, isIgnoredPath, mapWithConcurrency } from "./git-tree";
+import { type YamlValue, parseYaml, yamlList, yamlMapping, yamlString } from "./yaml";
+
+// Config files read per analysis
+const MAX_CONFIG_FILES = 40;
+const MAX_CONFIG_BYTES = 512 * 1024;
+const FETCH_CONCURRENCY = 5;
+
+type ConfigKind = "github" | "gitlab" | "bitbucket" | "circleci" | "jenkins" | "dockerfile" | "compose";
+
+const CONFIG_FILES: { pattern: RegExp; kind: ConfigKind }[] = [
+  { pattern: /^\.github\/workflows\/[^/]+\.ya?ml$/, kind: "github" },
+  { pattern: /^\.gitlab-ci\.ya?ml$/, kind: "gitlab" },
+  { pattern: /^bitbucket-pipelines\.ya?ml$/, kind: "bitbucket" },
+  { pattern: /^\.circleci\/config\.ya?ml$/, kind: "circleci" },
+  { pattern: /^Jenkinsfile$/, kind: "jenkins" },
+  { pattern: /(^|\/)(Dockerfile|Containerfile)(\.[\w.-]+)?$|\.Dockerfile$/i, kind: "dockerfile" },
+  { pattern: /(^|\/)(docker-)?compose(\.[\w-]+)?\.ya?ml$/, kind: "compose" },
+];
+
+// Platform configs and what they deploy to; detail reads the app or service names
+const DEPLOY_CONFIGS: { pattern: RegExp; platform: string; details?: (content: string) => (string | null)[] }[] = [
+  { pattern: /^render\.ya?ml$/, platform: "Render", details: renderServices },
+  { pattern: /(^|\/)fly\.toml$/, platform: "Fly.io", details: content => [tomlString(content, "app")] },
+  { pattern: /(^|\/)vercel\.json$/, platform: "Vercel" },
+  { pattern: /(^|\/)netlify\.toml$/, platform: "Netlify" },
+  { pattern: /(^|\/)Procfile$/, platform: "Heroku", details: procfileProcesses },
+  { pattern: /(^|\/)railway\.(json|toml)$/, platform: "Railway" },
+  { pattern: /(^|\/)app\.ya?ml$/, platform: "Google App Engine", details: appEngineRuntime },
+  { pattern: /(^|\/)serverless\.ya?ml$/, platform: "Serverless Framework", details: serverlessProvider },
+  { pattern: /(^|\/)firebase\.json$/, platform: "Firebase" },
+  { pattern: /(^|\/)amplify\.ya?ml$/, platform: "AWS Amplify" },
+  { pattern: /(^|\/)Dockerrun\.aws\.json$/, platform: "AWS Elastic Beanstalk" },
+  { pattern: /(^|\/)Chart\.ya?ml$/, platform: "Helm", details: content => [yamlString(yamlMapping(parseYaml(content)).name)] },
+];
+
+// Workflow actions that deploy or publish, by name without the version
+const DEPLOY_ACTIONS: Record<string, string> = {
+  "actions/deploy-pages": "GitHub Pages",
+  "peaceiris/actions-gh-pages": "GitHub Pages",
+  "JamesIves/github-pages-deploy-action": "GitHub Pages",
+  "superfly/flyctl-actions": "Fly.io",
+  "amondnet/vercel-action": "Vercel",
+  "nwtgck/actions-netlify": "Netlify",
+  "akhileshns/heroku-deploy": "Heroku",
+  "aws-actions/amazon-ecs-deploy-task-definition": "AWS ECS",
+  "google-github-actions/deploy-cloudrun": "Google Cloud Run",
+  "google-github-actions/deploy-appengine": "Google App Engine",
+  "azure/webapps-deploy": "Azure Web Apps",
+  "docker/build-push-action": "Container registry",
+  "pypa/gh-action-pypi-publish": "PyPI",
+  "JS-DevTools/npm-publish": "npm",
+};
+
+// Commands in scripts and run steps that deploy or publish
+const DEPLOY_COMMANDS: { pattern: RegExp; platform: string }[] = [
+  { pattern: /\bflyctl deploy\b|\bfly deploy\b/, platform: "Fly.io" },
+  { pattern: /\bvercel\b.*(--prod|\bdeploy\b)/, platform: "Vercel" },
+  { pattern: /\bnetlify deploy\b/, platform: "Netlify" },
+  { pattern: /\bnpm publish\b|\byarn publish\b|\bpnpm publish\b/, platform: "npm" },
+  { pattern: /\btwine upload\b|\bpoetry publish\b/, platform: "PyPI" },
+  { pattern: /\bcargo publish\b/, platform: "crates.io" },
+  { pattern: /\bdocker push\b/, platform: "Container registry" },
+  { pattern: /\bkubectl apply\b|\bhelm (upgrade|install)\b/, platform: "Kubernetes" },
+  { pattern: /\bfirebase deploy\b/, platform: "Firebase" },
+  { pattern: /\bgcloud run deploy\b/, platform: "Google Cloud Run" },
+  { pattern: /\bgcloud app deploy\b/, platform: "Google App Engine" },
+  { pattern: /\bserverless deploy\b|\bsls deploy\b/, platform: "Serverless Framework" },
+];
+
+// Top-level .gitlab-ci.yml keys that aren't jobs
+const GITLAB_KEYWORDS = new Set([
+  "stages", "variables", "image", "services", "before_script", "after_script", "cache", "include", "default", "workflow", "types",
+]);
+
+// Sections of bitbucket-pipelines.yml and the events that run them
+const BITBUCKET_EVENTS: Record<string, string> = {
+  branches: "push",
+  "pull-requests": "pull request",
+  tags: "tag",
+  custom: "manual",
+};
+
+// Collects what the configs reveal while they are parsed
+interface Findings {
+  pipelines: Pipeline[];
+  actions: Set<string>;
+  deployTargets: Map<string, DeployTarget>;
+  containers: ContainerConfig[];
+}
+
+function addDeployTarget(findings: Findings, platform: string, file: string, detail: string | null = null) {
+  findings.deployTargets.set(`${platform}\0${file}\0${detail}`, { platform, file, detail });
+}
+
+function strings(value: YamlValue | undefined): string[] {
+  return yamlList(value).filter((item): item is string => typeof item === "string");
+}
+
+// Script lines of a step or job, for spotting deploy commands
+function scanCommands(findings: Findings, file: string, commands: string[]) {
+  for (const command of commands) {
+    for (const { pattern, platform } of DEPLOY_COMMANDS) {
+      if (pattern.test(command)) {
+        addDeployTarget(findings, platform, file);
+      }
+    }
+  }
+}
+
+// Named environments are deployments, whatever platform they go to
+function scanEnvironment(findings: Findings, file: string, environment: YamlValue | undefined) {
+  const name = yamlString(environment) ?? yamlString(yamlMapping(environment).name);
+  if (name) {
+    addDeployTarget(findings, "Environment", file, name);
+  }
+}
+
+function matrixAxes(matrix: YamlValue | undefined): string[] {
+  if (typeof matrix === "string") {
+    return [matrix];
+  }
+  return Object.entries(yamlMapping(matrix))
+    .filter(([axis]) => axis !== "include" && axis !== "exclude")
+    .map(([axis, values]) => `${axis}: ${yamlList(values).map(value => typeof value === "string" ? value : JSON.stringify(value)).join(", ")}`);
+}
+
+function githubTriggers(on: YamlValue | undefined): string[] {
+  if (typeof on === "string" || Array.isArray(on)) {
+    return strings(on);
+  }
+  return Object.entries(yamlMapping(on)).flatMap(([event, config]) => {
+    if (event === "schedule") {
+      return yamlList(config).map(entry => `schedule (${yamlString(yamlMapping(entry).cron) ?? "?"})`);
+    }
+    const branches = strings(yamlMapping(config).branches);
+    const tags = strings(yamlMapping(config).tags);
+    const filters = [...branches, ...tags.map(tag => `tag ${tag}`)];
+    return [filters.length > 0 ? `${event} (${filters.join(", ")})` : event];
+  });
+}
+
+function parseGitHubWorkflow(findings: Findings, file: string, workflow: YamlValue) {
+  const root = yamlMapping(workflow);
+  const jobs: PipelineJob[] = Object.entries(yamlMapping(root.jobs)).map(([id, value]) => {
+    const job = yamlMapping(value);
+    const steps = yamlList(job.steps).map(yamlMapping);
+
+    // Reusable workflows are called like actions
+    const reusable = yamlString(job.uses);
+    for (const uses of [reusable, ...steps.map(step => yamlString(step.uses))]) {
+      if (uses && !uses.startsWith("./")) {
+        findings.actions.add(uses);
+        const deployPlatform = DEPLOY_ACTIONS[uses.split("@")[0].split("/").slice(0, 2).join("/")];
+        if (deployPlatform) {
+          addDeployTarget(findings, deployPlatform, file);
+        }
+      }
+    }
+    scanCommands(findings, file, steps.map(step => yamlString(step.run)).filter((run): run is string => !!run));
+    scanEnvironment(findings, file, job.environment);
+
+    const runsOn = job["runs-on"];
+    return {
+      name: yamlString(job.name) ?? id,
+      runsOn: yamlString(runsOn) ?? (strings(runsOn).join(", ") || strings(yamlMapping(runsOn).labels).join(", ") || null),
+      matrix: matrixAxes(yamlMapping(job.strategy).matrix),
+      steps: steps.length,
+      needs: strings(job.needs),
+    };
+  });
+
+  findings.pipelines.push({
+    file,
+    system: "GitHub Actions",
+    name: yamlString(root.name),
+    triggers: githubTriggers(root.on),
+    jobs,
+  });
+}
+
+function gitlabImage(image: YamlValue | undefined): string | null {
+  return yamlString(image) ?? yamlString(yamlMapping(image).name);
+}
+
+function parseGitLabPipeline(findings: Findings, file: string, config: YamlValue) {
+  const root = yamlMapping(config);
+  const defaultImage = gitlabImage(root.image) ?? gitlabImage(yamlMapping(root.default).image);
+  // Conditions of the workflow and job rules name the events that run the pipeline
+  const conditions: string[] = yamlList(yamlMapping(root.workflow).rules).map(rule => yamlString(yamlMapping(rule).if) ?? "");
+
+  const jobs: PipelineJob[] = Object.entries(root)
+    .filter(([key, value]) => !GITLAB_KEYWORDS.has(key) && !key.startsWith(".") && value && typeof value === "object" && !Array.isArray(value))
+    .map(([name, value]) => {
+      const job = yamlMapping(value);
+      const script = strings(job.script);
+      scanCommands(findings, file, script);
+      scanEnvironment(findings, file, job.environment);
+      conditions.push(...yamlList(job.rules).map(rule => yamlString(yamlMapping(rule).if) ?? ""));
+      conditions.push(...strings(job.only).map(only => `only ${only}`));
+
+      const matrix = yamlList(yamlMapping(job.parallel).matrix).flatMap(entry => matrixAxes(entry));
+      return {
+        name: yamlString(job.stage) ? `${name} (${job.stage})` : name,
+        runsOn: gitlabImage(job.image) ?? defaultImage,
+        matrix,
+        steps: script.length,
+        needs: yamlList(job.needs).map(need => yamlString(need) ?? yamlString(yamlMapping(need).job)).filter((need): need is string => !!need),
+      };
+    });
+
+  const triggers = ["push"];
+  if (conditions.some(condition => /merge_request_event|only merge_requests/.test(condition))) triggers.push("merge request");
+  if (conditions.some(condition => /CI_COMMIT_TAG|only tags/.test(condition))) triggers.push("tag");
+  if (conditions.some(condition => /"schedule"|'schedule'|only schedules/.test(condition))) triggers.push("schedule");
+  if (conditions.some(condition => /"web"|'web'|only web/.test(condition))) triggers.push("manual");
+
+  findings.pipelines.push({ file, system: "GitLab CI", name: null, triggers, jobs });
+}
+
+function parseBitbucketPipelines(findings: Findings, file: string, config: YamlValue) {
+  const root = yamlMapping(config);
+  const defaultImage = gitlabImage(root.image);
+  const pipelines = yamlMapping(root.pipelines);
+  const jobs: PipelineJob[] = [];
+
+  // Steps sit in lists, possibly grouped under "parallel" or "stage"
+  const collectSteps = (items: YamlValue | undefined) => {
+    for (const item of yamlList(items)) {
+      const entry = yamlMapping(item);
+      if (entry.parallel) {
+        collectSteps(yamlMapping(entry.parallel).steps ?? entry.parallel);
+      }
+      if (entry.stage) {
+        collectSteps(yamlMapping(entry.stage).steps);
+      }
+      if (entry.step) {
+        const step = yamlMapping(entry.step);
+        const script = strings(step.script);
+        scanCommands(findings, file, script);
+        scanEnvironment(findings, file, step.deployment);
+        jobs.push({
+          name: yamlString(step.name) ?? `Step ${jobs.length + 1}`,
+          runsOn: gitlabImage(step.image) ?? defaultImage,
+          matrix: [],
+          steps: script.length,
+          needs: [],
+        });
+      }
+    }
+  };
+
+  const triggers: string[] = [];
+  for (const [section, value] of Object.entries(pipelines)) {
+    if (section === "default") {
+      triggers.push("push");
+      collectSteps(value);
+    } else {
+      const patterns = Object.keys(yamlMapping(value));
+      const event = BITBUCKET_EVENTS[section] ?? section;
+      triggers.push(patterns.length > 0 && event !== "manual" ? `${event} (${patterns.join(", ")})` : event);
+      for (const steps of Object.values(yamlMapping(value))) {
+        collectSteps(steps);
+      }
+    }
+  }
+
+  findings.pipelines.push({ file, system: "Bitbucket Pipelines", name: null, triggers, jobs });
+}
+
+function parseCircleCi(findings: Findings, file: string, config: YamlValue) {
+  const root = yamlMapping(config);
+  const jobs: PipelineJob[] = Object.entries(yamlMapping(root.jobs)).map(([name, value]) => {
+    const job = yamlMapping(value);
+    const steps = yamlList(job.steps);
+    scanCommands(findings, file, steps.map(step => yamlString(yamlMapping(step).run) ?? yamlString(yamlMapping(yamlMapping(step).run).command) ?? ""));
+    return {
+      name,
+      runsOn: yamlString(yamlMapping(yamlList(job.docker)[0]).image) ?? yamlString(job.executor) ?? (job.machine ? "machine" : null),
+      matrix: [],
+      steps: steps.length,
+      needs: [],
+    };
+  });
+
+  const schedules = Object.values(yamlMapping(root.workflows))
+    .flatMap(workflow => yamlList(yamlMapping(workflow).triggers))
+    .map(trigger => yamlString(yamlMapping(yamlMapping(trigger).schedule).cron))
+    .filter((cron): cron is string => !!cron);
+
+  findings.pipelines.push({
+    file,
+    system: "CircleCI",
+    name: null,
+    triggers: ["push", ...schedules.map(cron => `schedule (${cron})`)],
+    jobs,
+  });
+}
+
+// Declarative and scripted pipelines both name their stages with stage('...')
+function parseJenkinsfile(findings: Findings, file: string, content: string) {
+  const stages = Array.from(content.matchAll(/\bstage\s*\(\s*['"]([^'"]+)['"]/g), match => match[1]);
+  scanCommands(findings, file, content.split("\n"));
+
+  const triggers: string[] = [];
+  for (const match of Array.from(content.matchAll(/\bcron\s*\(\s*['"]([^'"]+)['"]/g))) {
+    triggers.push(`schedule (${match[1]})`);
+  }
+  if (/\bpollSCM\s*\(/.test(content)) {
+    triggers.push("poll");
+  }
+
+  findings.pipelines.push({
+    file,
+    system: "Jenkins",
+    name: null,
+    triggers,
+    jobs: stages.map(name => ({ name, runsOn: null, matrix: [], steps: 0, needs: [] })),
+  });
+}
+
+function parseDockerfile(findings: Findings, file: string, content: string) {
+  // Continuation lines are joined so each instruction is one line
+  const instructions = content.replace(/\\\r?\n/g, " ").split("\n").map(line => line.trim());
+  const stages = new Set<string>();
+  const images: string[] = [];
+  const ports: string[] = [];
+
+  for (const instruction of instructions) {
+    const from = instruction.match(/^FROM\s+(?:--platform=\S+\s+)?(\S+)(?:\s+AS\s+(\S+))?/i);
+    if (from) {
+      // Stages built from an earlier stage aren't base images
+      if (!stages.has(from[1].toLowerCase()) && !images.includes(from[1])) {
+        images.push(from[1]);
+      }
+      if (from[2]) {
+        stages.add(from[2].toLowerCase());
+      }
+    }
+    const expose = instruction.match(/^EXPOSE\s+(.+)/i);
+    if (expose) {
+      ports.push(...expose[1].split(/\s+/).filter(Boolean));
+    }
+  }
+
+  findings.containers.push({ file, kind: "Dockerfile", images, services: [], ports });
+}
+
+function parseCompose(findings: Findings, file: string, config: YamlValue) {
+  const services = yamlMapping(yamlMapping(config).services);
+  const images: string[] = [];
+  const ports: string[] = [];
+  for (const [name, value] of Object.entries(services)) {
+    const service = yamlMapping(value);
+    const image = yamlString(service.image);
+    images.push(image ?? `${name} (built)`);
+    ports.push(...yamlList(service.ports).map(port => yamlString(port) ?? yamlString(yamlMapping(port).published) ?? "").filter(Boolean));
+  }
+  findings.containers.push({ file, kind: "Compose", images, services: Object.keys(services), ports });
+}
+
+function renderServices(content: string): (string | null)[] {
+  return yamlList(yamlMapping(parseYaml(content)).services).map(value => {
+    const service = yamlMapping(value);
+    return [yamlString(service.type), yamlString(service.name)].filter(Boolean).join(" ") || null;
+  });
+}
+
+function procfileProcesses(content: string): (string | null)[] {
+  const processes = content.split("\n").map(line => line.match(/^([\w-]+):/)?.[1]).filter(Boolean);
+  return [processes.length > 0 ? processes.join(", ") : null];
+}
+
+function appEngineRuntime(content: string): (string | null)[] {
+  const runtime = yamlString(yamlMapping(parseYaml(content)).runtime);
+  return runtime ? [`runtime ${runtime}`] : [];
+}
+
+function serverlessProvider(content: string): (string | null)[] {
+  const provider = yamlMapping(parseYaml(content)).provider;
+  return [yamlString(provider) ?? yamlString(yamlMapping(provider).name)];
+}
+
+function tomlString(content: string, key: string): string | null {
+  return content.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, "m"))?.[1] ?? null;
+}
+
+function parseConfig(findings: Findings, entry: TreeEntry, content: string) {
+  const deploy = DEPLOY_CONFIGS.find(({ pattern }) => pattern.test(entry.path));
+  if (deploy) {
+    const details = deploy.details?.(content) ?? [null];
+    // App Engine's app.yaml is only told apart from other app.yaml files by its runtime
+    if (details.length === 0) {
+      return;
+    }
+    for (const detail of details) {
+      addDeployTarget(findings, deploy.platform, entry.path, detail);
+    }
+    return;
+  }
+
+  const kind = CONFIG_FILES.find(({ pattern }) => pattern.test(entry.path))?.kind;
+  switch (kind) {
+    case "github":
+      return parseGitHubWorkflow(findings, entry.path, parseYaml(content));
+    case "gitlab":
+      return parseGitLabPipeline(findings, entry.path, parseYaml(content));
+    case "bitbucket":
+      return parseBitbucketPipelines(findings, entry.path, parseYaml(content));
+    case "circleci":
+      return parseCircleCi(findings, entry.path, parseYaml(content));
+    case "jenkins":
+      return parseJenkinsfile(findings, entry.path, content);
+    case "dockerfile":
+      return parseDockerfile(findings, entry.path, content);
+    case "compose":
+      return parseCompose(findings, entry.path, parseYaml(content));
+  }
+}
+
+// Summarize the pipelines, container builds and deploy targets a repository
+// configures. Configs that fail to parse are skipped.
+export async function analyzeBuildDeploy(files: RepositoryFiles): Promise<BuildDeploy> {
+  const configs = files.tree
+    .filter(entry => entry.type === "blob" && !isIgnoredPath(entry.path) && (entry.size ?? 0) <= MAX_CONFIG_BYTES)
+    .filter(entry => CONFIG_FILES.some(({ pattern }) => pattern.test(entry.path)) ||
+      DEPLOY_CONFIGS.some(({ pattern }) => pattern.test(entry.path)))
+    // Configs nearest the root first
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length || a.path.localeCompare(b.path))
+    .slice(0, MAX_CONFIG_FILES);
+
+  const findings: Findings = { pipelines: [], actions: new Set(), deployTargets: new Map(), containers: [] };
+  const contents = await mapWithConcurrency(configs, FETCH_CONCURRENCY, async entry => {
+    try {
+      return await files.readFile(entry);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error reading ${entry.path}:`, err);
+      return null;
+    }
+  });
+
+  // Parsed in tree order so the summary doesn't depend on which read finished first
+  configs.forEach((entry, index) => {
+    const content = contents[index];
+    if (content === null) {
+      return;
+    }
+    try {
+      parseConfig(findings, entry, content);
+    } catch (err) {
+      console.error(`Error parsing ${entry.path}:`, err);
+    }
+  });
+
+  return {
+    pipelines: findings.pipelines,
+    actions: Array.from(findings.actions).sort(),
+    deployTargets: Array.from(findings.deployTargets.values()),
+    containers: findings.containers,
+  };
+}
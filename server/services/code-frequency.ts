@@ -0,0 +1,119 @@
+import axios from "axios";
+import type { CodeFrequency, QuarterlyChurn, WeeklyChanges } from "@shared/schema";
+import type { RepoTarget } from "./github";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Quarters that delete at least this many lines per added line, with at least
+// the average quarter's changes, are flagged as rewrites
+const REWRITE_CHURN_RATIO = 0.75;
+
+export interface CodeFrequencyAnalysis {
+  codeFrequency: CodeFrequency;
+  // GitHub hasn't finished computing the statistics yet
+  pending: boolean;
+}
+
+// Lines changed by a single commit, for sources that only have the commit history
+export interface CommitChanges {
+  // Author date in Unix seconds
+  timestamp: number;
+  additions: number;
+  deletions: number;
+}
+
+const EMPTY_CODE_FREQUENCY: CodeFrequency = { weeks: [], quarters: [] };
+
+function quarterOf(isoDate: string): string {
+  const [year, month] = isoDate.split("-").map(Number);
+  return `${year} Q${Math.floor((month - 1) / 3) + 1}`;
+}
+
+// Weekly changes and their totals per calendar quarter, counting each week in
+// the quarter it starts in, oldest first
+export function summarizeCodeFrequency(weeks: WeeklyChanges[]): CodeFrequency {
+  const totals = new Map<string, { additions: number; deletions: number }>();
+  for (const week of weeks) {
+    const quarter = quarterOf(week.week);
+    const total = totals.get(quarter) ?? { additions: 0, deletions: 0 };
+    total.additions += week.additions;
+    total.deletions += week.deletions;
+    totals.set(quarter, total);
+  }
+
+  const changes = Array.from(totals.values()).map(total => total.additions + total.deletions);
+  const averageChanges = changes.reduce((sum, value) => sum + value, 0) / (changes.length || 1);
+
+  const quarters: QuarterlyChurn[] = Array.from(totals.entries()).map(([quarter, { additions, deletions }]) => {
+    const churnRatio = additions > 0 ? Math.round((deletions / additions) * 100) / 100 : null;
+    return {
+      quarter,
+      additions,
+      deletions,
+      net: additions - deletions,
+      churnRatio,
+      rewrite: churnRatio !== null &&
+        churnRatio >= REWRITE_CHURN_RATIO &&
+        additions + deletions > 0 &&
+        additions + deletions >= averageChanges,
+    };
+  });
+
+  return { weeks, quarters };
+}
+
+// Weekly additions and deletions over the repository's history
+export async function analyzeCodeFrequency({ client, owner, repo }: RepoTarget, retries?: number): Promise<CodeFrequencyAnalysis> {
+  let stats;
+  try {
+    stats = await client.getStats(`/repos/${owner}/${repo}/stats/code_frequency`, retries);
+  } catch (error) {
+    // GitHub refuses to compute these for repositories with 10,000 or more commits
+    if (axios.isAxiosError(error) && error.response?.status === 422) {
+      return { codeFrequency: EMPTY_CODE_FREQUENCY, pending: false };
+    }
+    throw error;
+  }
+
+  if (stats.pending) {
+    return { codeFrequency: EMPTY_CODE_FREQUENCY, pending: true };
+  }
+
+  // Entries are [week, additions, deletions] with deletions negative
+  const entries: number[][] = Array.isArray(stats.data) ? stats.data : [];
+  const weeks = entries.map(([week, additions, deletions]) => ({
+    week: new Date(week * 1000).toISOString().slice(0, 10),
+    additions,
+    deletions: Math.abs(deletions),
+  }));
+  return { codeFrequency: summarizeCodeFrequency(weeks), pending: false };
+}
+
+// Weekly additions and deletions from per-commit line counts, for sources
+// without GitHub's code frequency statistics
+export function analyzeCommitChanges(commits: CommitChanges[]): CodeFrequencyAnalysis {
+  if (commits.length === 0) {
+    return { codeFrequency: EMPTY_CODE_FREQUENCY, pending: false };
+  }
+
+  // Weeks start on Sunday like GitHub's, with empty weeks kept so the chart's time axis is even
+  const weekStart = (timestamp: number) => {
+    const date = new Date(timestamp * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay());
+  };
+  const timestamps = commits.map(commit => commit.timestamp);
+  const firstWeek = weekStart(Math.min(...timestamps));
+  const lastWeek = weekStart(Math.max(...timestamps));
+
+  const weeks: WeeklyChanges[] = [];
+  for (let week = firstWeek; week <= lastWeek; week += WEEK_MS) {
+    weeks.push({ week: new Date(week).toISOString().slice(0, 10), additions: 0, deletions: 0 });
+  }
+  for (const commit of commits) {
+    const week = weeks[Math.round((weekStart(commit.timestamp) - firstWeek) / WEEK_MS)];
+    week.additions += commit.additions;
+    week.deletions += commit.deletions;
+  }
+
+  return { codeFrequency: summarizeCodeFrequency(weeks), pending: false };
+}
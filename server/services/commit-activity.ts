@@ -0,0 +1,117 @@
+import type { RepoTarget } from "./github";
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const WEEKS_OF_ACTIVITY = 52;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Commits in one week, for the bar chart and the calendar heatmap
+export interface CommitWeek {
+  // ISO date of the week's Sunday
+  week: string;
+  // Month the week starts in, for chart labels
+  month: string;
+  count: number;
+  // Commits per day, Sunday to Saturday
+  days: number[];
+}
+
+// Commits per weekday (Sunday first) and hour of the day in UTC
+export type PunchCard = number[][];
+
+export interface CommitActivityAnalysis {
+  // Every week of the last year, oldest first
+  commitActivity: CommitWeek[];
+  commitFrequency: string;
+  punchCard: PunchCard;
+  // GitHub hasn't finished computing the statistics yet
+  pending: boolean;
+}
+
+// Commits in the week starting at `week` (Unix seconds), oldest week first
+export interface WeeklyCommits {
+  week: number;
+  total: number;
+  days?: number[];
+}
+
+function emptyPunchCard(): PunchCard {
+  return Array.from({ length: 7 }, () => new Array(24).fill(0));
+}
+
+// Chart data for the last year of weeks and the average rate over the last 12
+export function summarizeWeeklyCommits(commitData: WeeklyCommits[]): Pick<CommitActivityAnalysis, "commitActivity" | "commitFrequency"> {
+  const commitActivity = commitData.slice(-WEEKS_OF_ACTIVITY).map(weekData => {
+    const date = new Date(weekData.week * 1000);
+    return {
+      week: date.toISOString().slice(0, 10),
+      month: MONTHS[date.getUTCMonth()],
+      count: weekData.total,
+      days: weekData.days ?? new Array(7).fill(0),
+    };
+  });
+
+  // Calculate average weekly commits for commit frequency
+  const averageWeeklyCommits = commitData.slice(-12).reduce((sum, week) => sum + week.total, 0) /
+    (Math.min(commitData.length, 12) || 1);
+
+  return {
+    commitActivity,
+    commitFrequency: `${Math.round(averageWeeklyCommits)}/week`,
+  };
+}
+
+// Weekly and daily commit counts for the last year, and commits by weekday and hour
+export async function analyzeCommitActivity({ client, owner, repo }: RepoTarget, retries?: number): Promise<CommitActivityAnalysis> {
+  const [stats, punchCardStats] = await Promise.all([
+    client.getStats(`/repos/${owner}/${repo}/stats/commit_activity`, retries),
+    client.getStats(`/repos/${owner}/${repo}/stats/punch_card`, retries),
+  ]);
+
+  // Nothing is stored while the numbers are being computed so the chart isn't
+  // mistaken for a repository without commits
+  if (stats.pending || punchCardStats.pending) {
+    return { commitActivity: [], commitFrequency: "Pending", punchCard: emptyPunchCard(), pending: true };
+  }
+
+  // Punch card entries are [day, hour, commits]
+  const punchCard = emptyPunchCard();
+  for (const [day, hour, commits] of Array.isArray(punchCardStats.data) ? punchCardStats.data : []) {
+    if (punchCard[day]?.[hour] !== undefined) {
+      punchCard[day][hour] = commits;
+    }
+  }
+
+  const commitData: WeeklyCommits[] = Array.isArray(stats.data) ? stats.data : [];
+  return { ...summarizeWeeklyCommits(commitData), punchCard, pending: false };
+}
+
+// Weekly, daily and hourly commit counts over the last year from commit dates
+// (Unix seconds), for sources without GitHub's commit activity statistics
+export function analyzeCommitDates(timestamps: number[], now = Date.now()): CommitActivityAnalysis {
+  // GitHub's weeks start on Sunday
+  const today = new Date(now);
+  const currentWeek = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - today.getUTCDay());
+  const firstWeek = currentWeek - (WEEKS_OF_ACTIVITY - 1) * WEEK_MS;
+
+  const weeks: WeeklyCommits[] = Array.from({ length: WEEKS_OF_ACTIVITY }, (_, index) => ({
+    week: (firstWeek + index * WEEK_MS) / 1000,
+    total: 0,
+    days: new Array(7).fill(0),
+  }));
+  const punchCard = emptyPunchCard();
+  for (const timestamp of timestamps) {
+    const offset = timestamp * 1000 - firstWeek;
+    const index = Math.floor(offset / WEEK_MS);
+    if (index >= 0 && index < weeks.length) {
+      weeks[index].total++;
+      weeks[index].days![Math.floor((offset % WEEK_MS) / DAY_MS)]++;
+
+      const date = new Date(timestamp * 1000);
+      punchCard[date.getUTCDay()][date.getUTCHours()]++;
+    }
+  }
+
+  return { ...summarizeWeeklyCommits(weeks), punchCard, pending: false };
+}
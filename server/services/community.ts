@@ -0,0 +1,302 @@
+import axios from "axios";
+import type { CommunityCheck, CommunityProfile } from "@shared/schema";
+import { type RepoTarget, RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry, mapWithConcurrency } from "./git-tree";
+import { YamlParseError, parseYaml, yamlMapping } from "./yaml";
+
+type CheckKey = CommunityCheck["key"];
+type CheckResult = Pick<CommunityCheck, "status" | "detail">;
+
+// Files larger than this aren't read and pass on presence alone
+const MAX_READ_BYTES = 256 * 1024;
+const FETCH_CONCURRENCY = 4;
+
+// Guides shorter than this many non-blank lines count as stubs
+const MIN_GUIDE_LINES = 10;
+const MIN_TEMPLATE_LINES = 3;
+
+// A community file as the host's profile reports it
+export interface HostCommunityFile {
+  // Page of the file on the host, which may be in the owner's defaults repository
+  url: string | null;
+  // Name of a recognized license or code of conduct
+  name: string | null;
+}
+
+export interface HostCommunityProfile {
+  healthPercentage: number | null;
+  files: Partial<Record<CheckKey, HostCommunityFile>>;
+}
+
+interface CheckDefinition {
+  key: CheckKey;
+  label: string;
+  patterns: RegExp[];
+  // Judges the first matching file; content is null when it couldn't be read
+  evaluate(content: string | null, found: TreeEntry[], hostFile: HostCommunityFile | undefined): CheckResult;
+}
+
+// Licenses told apart by phrases of their text, most specific first
+const LICENSE_TEXTS: { name: string; patterns: RegExp[] }[] = [
+  { name: "GNU AGPLv3", patterns: [/GNU AFFERO GENERAL PUBLIC LICENSE/i] },
+  { name: "GNU LGPLv3", patterns: [/GNU LESSER GENERAL PUBLIC LICENSE/i, /Version 3/i] },
+  { name: "GNU LGPLv2.1", patterns: [/GNU LESSER GENERAL PUBLIC LICENSE/i] },
+  { name: "GNU GPLv3", patterns: [/GNU GENERAL PUBLIC LICENSE/i, /Version 3/i] },
+  { name: "GNU GPLv2", patterns: [/GNU GENERAL PUBLIC LICENSE/i, /Version 2/i] },
+  { name: "Apache License 2.0", patterns: [/Apache License/i, /Version 2\.0/i] },
+  { name: "Mozilla Public License 2.0", patterns: [/Mozilla Public License/i, /2\.0/] },
+  { name: "BSD 3-Clause License", patterns: [/Redistribution and use in source and binary forms/i, /Neither the name/i] },
+  { name: "BSD 2-Clause License", patterns: [/Redistribution and use in source and binary forms/i] },
+  { name: "MIT License", patterns: [/Permission is hereby granted, free of charge/i] },
+  { name: "ISC License", patterns: [/Permission to use, copy, modify, and\/or distribute this software/i] },
+  { name: "The Unlicense", patterns: [/This is free and unencumbered software/i] },
+  { name: "Creative Commons Zero v1.0 Universal", patterns: [/CC0 1\.0 Universal/i] },
+  { name: "Eclipse Public License 2.0", patterns: [/Eclipse Public License - v 2\.0/i] },
+  { name: "Boost Software License 1.0", patterns: [/Boost Software License - Version 1\.0/i] },
+];
+
+// Links that come with template text rather than naming a way to reach the maintainers
+const TEMPLATE_LINK_PATTERN = /contributor-covenant\.org|creativecommons\.org|docs\.github\.com|help\.github\.com/i;
+
+// GitHub's community profile names files by these keys
+const GITHUB_PROFILE_FILES: Record<string, CheckKey> = {
+  license: "license",
+  contributing: "contributing",
+  code_of_conduct: "codeOfConduct",
+  issue_template: "issueTemplates",
+  pull_request_template: "pullRequestTemplate",
+};
+
+function countLines(content: string): number {
+  return content.split("\n").filter(line => line.trim() !== "").length;
+}
+
+function identifyLicense(content: string): string | null {
+  return LICENSE_TEXTS.find(({ patterns }) => patterns.every(pattern => pattern.test(content)))?.name ?? null;
+}
+
+// An email address or a link of the project's own to report to
+function hasContact(content: string): boolean {
+  if (/[\w.+-]+@[\w-]+\.[\w.-]+/.test(content)) {
+    return true;
+  }
+  return (content.match(/https?:\/\/[^\s)>\]]+/g) ?? []).some(url => !TEMPLATE_LINK_PATTERN.test(url));
+}
+
+function guideResult(content: string | null): CheckResult {
+  if (content === null) {
+    return { status: "pass", detail: null };
+  }
+  const lines = countLines(content);
+  return lines < MIN_GUIDE_LINES
+    ? { status: "weak", detail: `Only ${lines} lines` }
+    : { status: "pass", detail: `${lines} lines` };
+}
+
+// Where GitHub looks for community files: the root, .github and docs
+function communityFile(name: string): RegExp {
+  return new RegExp(`^(?:(?:\\.github|docs)/)?${name}$`, "i");
+}
+
+const CHECKS: CheckDefinition[] = [
+  {
+    key: "license",
+    label: "License",
+    patterns: [communityFile("(?:licen[cs]e|copying|unlicense)(?:[-.][\\w.-]+)?")],
+    evaluate(content, _found, hostFile) {
+      const name = hostFile?.name ?? (content !== null ? identifyLicense(content) : null);
+      if (name) {
+        return { status: "pass", detail: name };
+      }
+      return content === null
+        ? { status: "pass", detail: null }
+        : { status: "weak", detail: "Not a recognized license" };
+    },
+  },
+  {
+    key: "contributing",
+    label: "Contributing guide",
+    patterns: [communityFile("contributing(?:\\.\\w+)?")],
+    evaluate: content => guideResult(content),
+  },
+  {
+    key: "codeOfConduct",
+    label: "Code of conduct",
+    patterns: [communityFile("code[-_]of[-_]conduct(?:\\.\\w+)?")],
+    evaluate(content, _found, hostFile) {
+      const name = hostFile?.name ?? (content && /Contributor Covenant/i.test(content) ? "Contributor Covenant" : null);
+      if (content === null) {
+        return { status: "pass", detail: name };
+      }
+      if (/\[INSERT [^\]]*\]/i.test(content)) {
+        return { status: "weak", detail: "Contact method is still a placeholder" };
+      }
+      if (!hasContact(content)) {
+        return { status: "weak", detail: "No contact for reporting violations" };
+      }
+      return { status: "pass", detail: name };
+    },
+  },
+  {
+    key: "security",
+    label: "Security policy",
+    patterns: [communityFile("security(?:\\.\\w+)?")],
+    evaluate(content) {
+      if (content === null) {
+        return { status: "pass", detail: null };
+      }
+      // GitHub's suggested policy, left as it was
+      if (/Use this section to tell people/i.test(content)) {
+        return { status: "weak", detail: "Still the template text" };
+      }
+      if (!hasContact(content) && !/security advisor/i.test(content)) {
+        return { status: "weak", detail: "No way to report a vulnerability" };
+      }
+      return { status: "pass", detail: null };
+    },
+  },
+  {
+    key: "issueTemplates",
+    label: "Issue templates",
+    patterns: [
+      communityFile("issue_template(?:\\.\\w+)?"),
+      /^\.github\/ISSUE_TEMPLATE\/(?!config\.ya?ml$)[^/]+\.(?:md|ya?ml)$/i,
+      /^\.gitlab\/issue_templates\/[^/]+\.md$/i,
+    ],
+    evaluate: (_content, found) => ({
+      status: "pass",
+      detail: found.length === 1 ? "1 template" : `${found.length} templates`,
+    }),
+  },
+  {
+    key: "pullRequestTemplate",
+    label: "Pull request template",
+    patterns: [
+      communityFile("pull_request_template(?:\\.\\w+)?"),
+      /^\.github\/PULL_REQUEST_TEMPLATE\/[^/]+\.md$/i,
+      /^\.gitlab\/merge_request_templates\/[^/]+\.md$/i,
+    ],
+    evaluate(content) {
+      if (content !== null && countLines(content) < MIN_TEMPLATE_LINES) {
+        return { status: "weak", detail: "Nearly empty" };
+      }
+      return { status: "pass", detail: null };
+    },
+  },
+  {
+    key: "codeowners",
+    label: "Code owners",
+    patterns: [/^(?:(?:\.github|\.gitlab|docs)\/)?CODEOWNERS$/i],
+    evaluate(content) {
+      if (content === null) {
+        return { status: "pass", detail: null };
+      }
+      // A path followed by owners; GitLab's [Section] headers aren't rules
+      const rules = content.split("\n")
+        .map(line => line.trim())
+        .filter(line => line !== "" && !line.startsWith("#") && !line.startsWith("[") && !line.startsWith("^["))
+        .map(line => line.split(/\s+/))
+        .filter(([, ...owners]) => owners.some(owner => owner.includes("@")));
+      if (rules.length === 0) {
+        return { status: "weak", detail: "No ownership rules" };
+      }
+      const catchAll = rules.some(([pattern]) => pattern === "*" || pattern === "/");
+      return {
+        status: "pass",
+        detail: `${rules.length} ${rules.length === 1 ? "rule" : "rules"}${catchAll ? ", with a default owner" : ""}`,
+      };
+    },
+  },
+  {
+    key: "funding",
+    label: "Funding",
+    patterns: [/^\.github\/FUNDING\.ya?ml$/i],
+    evaluate(content) {
+      if (content === null) {
+        return { status: "pass", detail: null };
+      }
+      let platforms: string[];
+      try {
+        platforms = Object.entries(yamlMapping(parseYaml(content)))
+          .filter(([, value]) => Array.isArray(value) ? value.length > 0 : value !== null && value !== "")
+          .map(([platform]) => platform);
+      } catch (err) {
+        if (err instanceof YamlParseError) {
+          return { status: "weak", detail: "Not valid YAML" };
+        }
+        throw err;
+      }
+      return platforms.length > 0
+        ? { status: "pass", detail: platforms.join(", ") }
+        : { status: "weak", detail: "No funding platforms set" };
+    },
+  },
+];
+
+// GitHub's community profile, or null where the host doesn't report one,
+// like private repositories and older GitHub Enterprise servers
+export async function fetchGitHubCommunityProfile(target: RepoTarget): Promise<HostCommunityProfile | null> {
+  const { client, owner, repo } = target;
+  let data: any;
+  try {
+    ({ data } = await client.get(`/repos/${owner}/${repo}/community/profile`));
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+
+  const files: HostCommunityProfile["files"] = {};
+  for (const [name, key] of Object.entries(GITHUB_PROFILE_FILES)) {
+    const file = data.files?.[name];
+    if (file) {
+      const license = name === "license" && file.spdx_id !== "NOASSERTION";
+      files[key] = {
+        url: file.html_url ?? null,
+        name: name === "code_of_conduct" || license ? file.name ?? null : null,
+      };
+    }
+  }
+  // A code of conduct GitHub doesn't recognize is only reported as a file
+  if (!files.codeOfConduct && data.files?.code_of_conduct_file) {
+    files.codeOfConduct = { url: data.files.code_of_conduct_file.html_url ?? null, name: null };
+  }
+  return { healthPercentage: data.health_percentage ?? null, files };
+}
+
+// Checks each community file is there and good for what it's for. Files the
+// host's profile knows of but the tree lacks, like defaults shared from the
+// owner's .github repository, pass without being judged.
+export async function analyzeCommunity(files: RepositoryFiles, hostProfile: HostCommunityProfile | null): Promise<CommunityProfile> {
+  const blobs = files.tree.filter(entry => entry.type === "blob");
+
+  const checks = await mapWithConcurrency(CHECKS, FETCH_CONCURRENCY, async (check): Promise<CommunityCheck> => {
+    const found = blobs.filter(entry => check.patterns.some(pattern => pattern.test(entry.path)));
+    const hostFile = hostProfile?.files[check.key];
+    const base = { key: check.key, label: check.label, url: hostFile?.url ?? null };
+
+    if (found.length === 0) {
+      return hostFile
+        ? { ...base, status: "pass", path: null, detail: "Inherited from the owner's defaults" }
+        : { ...base, status: "missing", path: null, detail: null };
+    }
+
+    // Files nearest the root first, like the host picks them
+    const [entry] = [...found].sort((a, b) => a.path.split("/").length - b.path.split("/").length);
+    let content: string | null = null;
+    if ((entry.size ?? 0) <= MAX_READ_BYTES) {
+      try {
+        content = await files.readFile(entry);
+      } catch (err) {
+        if (err instanceof RateLimitError) {
+          throw err;
+        }
+        console.error(`Error reading ${entry.path} for community checks:`, err);
+      }
+    }
+    return { ...base, path: entry.path, ...check.evaluate(content, found, hostFile) };
+  });
+
+  return { healthPercentage: hostProfile?.healthPercentage ?? null, checks };
+}
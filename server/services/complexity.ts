@@ -0,0 +1,343 @@
+import type { ComplexFile } from "@shared/schema";
+import { RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry, isIgnoredPath, mapWithConcurrency } from "./git-tree";
+
+// Cyclomatic complexity thresholds used to derive a file's level
+export const COMPLEXITY_THRESHOLDS = {
+  high: 40,
+  medium: 15,
+};
+
+// Cyclomatic complexity that maps to a full bar in the UI
+const COMPLEXITY_SCALE_MAX = 80;
+
+// Limits on how much source is fetched per analysis
+const MAX_ANALYZED_FILES = Number(process.env.COMPLEXITY_MAX_FILES) || 40;
+const MAX_FILE_BYTES = 200 * 1024;
+const FETCH_CONCURRENCY = 5;
+
+type SyntaxFamily = "brace" | "indent";
+
+interface LanguageRules {
+  name: string;
+  family: SyntaxFamily;
+  // Keywords that add an independent path through the code
+  branchKeywords: string[];
+  // Keywords that open a nested control structure (cognitive complexity)
+  nestingKeywords: string[];
+  // Operators that short-circuit and therefore add a path
+  logicalOperators: string[];
+  // Matches the start of a function or method definition
+  functionPattern: RegExp;
+  ternary: boolean;
+}
+
+const C_LOGICAL = ["&&", "||"];
+
+const JS_RULES: LanguageRules = {
+  name: "JavaScript",
+  family: "brace",
+  branchKeywords: ["if", "for", "while", "case", "catch"],
+  nestingKeywords: ["if", "for", "while", "switch", "catch", "do"],
+  logicalOperators: ["&&", "||", "??"],
+  functionPattern: /\bfunction\b|=>|^\s*(?:(?:public|private|protected|static|async|get|set)\s+)*(?!if\b|for\b|while\b|switch\b|catch\b|return\b)[A-Za-z_$][\w$]*\s*\([^)]*\)\s*(?::[^={]+)?\{/gm,
+  ternary: true,
+};
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  js: JS_RULES,
+  jsx: JS_RULES,
+  mjs: JS_RULES,
+  cjs: JS_RULES,
+  ts: { ...JS_RULES, name: "TypeScript" },
+  tsx: { ...JS_RULES, name: "TypeScript" },
+  py: {
+    name: "Python",
+    family: "indent",
+    branchKeywords: ["if", "elif", "for", "while", "except", "case"],
+    nestingKeywords: ["if", "for", "while", "except", "match"],
+    logicalOperators: ["and", "or"],
+    functionPattern: /^\s*(?:async\s+)?def\s+\w+/gm,
+    ternary: false,
+  },
+  go: {
+    name: "Go",
+    family: "brace",
+    branchKeywords: ["if", "for", "case"],
+    nestingKeywords: ["if", "for", "switch", "select"],
+    logicalOperators: C_LOGICAL,
+    functionPattern: /^\s*func\b/gm,
+    ternary: false,
+  },
+  java: {
+    name: "Java",
+    family: "brace",
+    branchKeywords: ["if", "for", "while", "case", "catch"],
+    nestingKeywords: ["if", "for", "while", "switch", "catch", "do"],
+    logicalOperators: C_LOGICAL,
+    functionPattern: /^\s*(?:(?:public|private|protected|static|final|abstract|synchronized)\s+)+[\w<>\[\],\s]+\s+\w+\s*\([^)]*\)\s*(?:throws [\w.,\s]+)?\{/gm,
+    ternary: true,
+  },
+  kt: {
+    name: "Kotlin",
+    family: "brace",
+    branchKeywords: ["if", "for", "while", "catch", "when"],
+    nestingKeywords: ["if", "for", "while", "when", "catch", "do"],
+    logicalOperators: C_LOGICAL,
+    functionPattern: /\bfun\s+[\w.<>]+\s*\(/g,
+    ternary: false,
+  },
+  cs: {
+    name: "C#",
+    family: "brace",
+    branchKeywords: ["if", "for", "foreach", "while", "case", "catch"],
+    nestingKeywords: ["if", "for", "foreach", "while", "switch", "catch", "do"],
+    logicalOperators: ["&&", "||", "??"],
+    functionPattern: /^\s*(?:(?:public|private|protected|internal|static|async|virtual|override)\s+)+[\w<>\[\],\s]+\s+\w+\s*\([^)]*\)\s*\{/gm,
+    ternary: true,
+  },
+  c: {
+    name: "C",
+    family: "brace",
+    branchKeywords: ["if", "for", "while", "case"],
+    nestingKeywords: ["if", "for", "while", "switch", "do"],
+    logicalOperators: C_LOGICAL,
+    functionPattern: /^[\w\s\*]+\s+\**\w+\s*\([^;{)]*\)\s*\{/gm,
+    ternary: true,
+  },
+};
+LANGUAGES.h = LANGUAGES.c;
+LANGUAGES.cpp = { ...LANGUAGES.c, name: "C++", branchKeywords: [...LANGUAGES.c.branchKeywords, "catch"] };
+LANGUAGES.cc = LANGUAGES.cpp;
+LANGUAGES.hpp = LANGUAGES.cpp;
+
+export interface ComplexityMetrics {
+  cyclomatic: number;
+  cognitive: number;
+  functions: number;
+}
+
+// Resolve the complexity rules for a file path, if the language is supported
+function getLanguageRules(path: string): LanguageRules | undefined {
+  const extension = path.split(".").pop()?.toLowerCase() || "";
+  return LANGUAGES[extension];
+}
+
+// Replace comments and string literals with blanks so keywords inside them are ignored
+function stripCommentsAndStrings(source: string, family: SyntaxFamily): string {
+  const pattern = family === "indent"
+    ? /("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|#[^\n]*)/g
+    : /(\/\*[\s\S]*?\*\/|\/\/[^\n]*|`(?:\\.|[^`\\])*`|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')/g;
+
+  // Keep line breaks so indentation-based analysis still sees the same lines
+  return source.replace(pattern, match => {
+    const isString = /^["'`]/.test(match);
+    const blank = match.replace(/[^\n]/g, " ");
+    return isString ? `""${blank.slice(2)}` : blank;
+  });
+}
+
+function countFunctions(code: string, rules: LanguageRules): number {
+  return (code.match(rules.functionPattern) || []).length;
+}
+
+function analyzeBraceLanguage(code: string, rules: LanguageRules): { decisions: number; cognitive: number } {
+  const tokens = code.match(/[A-Za-z_$][\w$]*|&&|\|\||\?\?|\?(?![?.:,)=\]])|[{}();]/g) || [];
+  const blockStack: boolean[] = [];
+  let decisions = 0;
+  let cognitive = 0;
+  let parenDepth = 0;
+  let pendingControlDepth: number | null = null;
+  let pendingKeyword = "";
+  let lastLogical: string | null = null;
+  let previous = "";
+
+  const nestingDepth = () => blockStack.filter(Boolean).length;
+
+  for (const token of tokens) {
+    if (rules.branchKeywords.includes(token)) {
+      decisions++;
+    }
+
+    if (token === "else") {
+      cognitive++;
+      pendingControlDepth = parenDepth;
+      pendingKeyword = token;
+    } else if (rules.nestingKeywords.includes(token)) {
+      // "else if" is already counted by the "else"
+      if (!(token === "if" && previous === "else")) {
+        cognitive += 1 + nestingDepth();
+      }
+      pendingControlDepth = parenDepth;
+      pendingKeyword = token;
+    } else if (token === "?" && rules.ternary) {
+      decisions++;
+      cognitive += 1 + nestingDepth();
+    } else if (rules.logicalOperators.includes(token)) {
+      decisions++;
+      // A run of the same operator counts once
+      if (token !== lastLogical) {
+        cognitive++;
+      }
+      lastLogical = token;
+    } else if (token === "(") {
+      parenDepth++;
+    } else if (token === ")") {
+      parenDepth = Math.max(0, parenDepth - 1);
+    } else if (token === "{") {
+      blockStack.push(pendingControlDepth !== null && pendingControlDepth === parenDepth);
+      pendingControlDepth = null;
+      lastLogical = null;
+    } else if (token === "}") {
+      blockStack.pop();
+      lastLogical = null;
+    } else if (token === ";") {
+      // Go's paren-less "for init; cond; post {" keeps its block pending
+      if (pendingControlDepth === parenDepth && pendingKeyword !== "for") {
+        pendingControlDepth = null;
+      }
+      lastLogical = null;
+    }
+
+    previous = token;
+  }
+
+  return { decisions, cognitive };
+}
+
+function analyzeIndentLanguage(code: string, rules: LanguageRules): { decisions: number; cognitive: number } {
+  const blockStack: { indent: number; control: boolean }[] = [];
+  let decisions = 0;
+  let cognitive = 0;
+
+  for (const line of code.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    while (blockStack.length > 0 && blockStack[blockStack.length - 1].indent >= indent) {
+      blockStack.pop();
+    }
+
+    const words = line.match(/[A-Za-z_]\w*/g) || [];
+    const first = words[0];
+    const nestingDepth = blockStack.filter(block => block.control).length;
+
+    words.forEach((word, index) => {
+      if (rules.branchKeywords.includes(word)) {
+        decisions++;
+      }
+      // Inline conditionals and comprehension filters
+      if (index > 0 && word === "if") {
+        cognitive += 1 + nestingDepth;
+      }
+    });
+
+    let lastLogical: string | null = null;
+    for (const word of words) {
+      if (rules.logicalOperators.includes(word)) {
+        decisions++;
+        if (word !== lastLogical) {
+          cognitive++;
+        }
+        lastLogical = word;
+      }
+    }
+
+    const isControl = first !== undefined && rules.nestingKeywords.includes(first);
+    if (first === "elif" || first === "else") {
+      cognitive++;
+    } else if (isControl) {
+      cognitive += 1 + nestingDepth;
+    }
+
+    if (line.trimEnd().endsWith(":")) {
+      blockStack.push({ indent, control: isControl || first === "elif" || first === "else" });
+    }
+  }
+
+  return { decisions, cognitive };
+}
+
+// Compute cyclomatic and cognitive complexity for a single source file.
+// This is a token-level approximation rather than a full parse, which keeps
+// it language-agnostic and cheap enough to run over many files per request.
+export function computeComplexity(source: string, path: string): ComplexityMetrics | null {
+  const rules = getLanguageRules(path);
+  if (!rules) {
+    return null;
+  }
+
+  const code = stripCommentsAndStrings(source, rules.family);
+  const { decisions, cognitive } = rules.family === "indent"
+    ? analyzeIndentLanguage(code, rules)
+    : analyzeBraceLanguage(code, rules);
+  const functions = countFunctions(code, rules);
+
+  return {
+    // Each function contributes its own base path
+    cyclomatic: decisions + Math.max(functions, 1),
+    cognitive,
+    functions,
+  };
+}
+
+export function getComplexityLevel(cyclomatic: number): ComplexFile["level"] {
+  if (cyclomatic >= COMPLEXITY_THRESHOLDS.high) {
+    return "High";
+  }
+  if (cyclomatic >= COMPLEXITY_THRESHOLDS.medium) {
+    return "Medium";
+  }
+  return "Low";
+}
+
+// Whether a tree entry is a source file the analyzer understands
+export function isAnalyzableSource(entry: TreeEntry): boolean {
+  return entry.type === "blob" &&
+    !!getLanguageRules(entry.path) &&
+    !isIgnoredPath(entry.path) &&
+    !entry.path.endsWith(".d.ts") &&
+    (entry.size ?? 0) <= MAX_FILE_BYTES;
+}
+
+// Analyze the largest source files of a repository and return them ordered
+// from most to least complex
+export async function analyzeComplexity(files: RepositoryFiles): Promise<ComplexFile[]> {
+  const candidates = files.tree
+    .filter(isAnalyzableSource)
+    .sort((a, b) => (b.size ?? 0) - (a.size ?? 0))
+    .slice(0, MAX_ANALYZED_FILES);
+
+  const analyzed = await mapWithConcurrency(candidates, FETCH_CONCURRENCY, async (entry) => {
+    try {
+      const source = await files.readFile(entry);
+      const metrics = computeComplexity(source, entry.path);
+      if (!metrics) {
+        return null;
+      }
+
+      const file: ComplexFile = {
+        path: entry.path,
+        language: getLanguageRules(entry.path)!.name,
+        cyclomatic: metrics.cyclomatic,
+        cognitive: metrics.cognitive,
+        complexity: Math.min(100, Math.round((metrics.cyclomatic / COMPLEXITY_SCALE_MAX) * 100)),
+        level: getComplexityLevel(metrics.cyclomatic),
+      };
+      return file;
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error analyzing complexity of ${entry.path}:`, err);
+      // Continue with other files if one fails
+      return null;
+    }
+  });
+
+  return analyzed
+    .filter((file): file is ComplexFile => file !== null)
+    .sort((a, b) => b.cyclomatic - a.cyclomatic);
+}
@@ -0,0 +1,338 @@
+import axios from "axios";
+import type { Contributor, ContributorRisk } from "@shared/schema";
+import { type RepoTarget, RateLimitError } from "./github";
+
+// Default window for counting a contributor as active
+export const DEFAULT_ACTIVE_WINDOW_DAYS = Number(process.env.ACTIVE_CONTRIBUTOR_WINDOW_DAYS) || 90;
+
+const INCLUDE_ANONYMOUS = process.env.INCLUDE_ANONYMOUS_CONTRIBUTORS === "true";
+
+// Page caps for the contributors list and the recent commit history
+const MAX_CONTRIBUTOR_PAGES = 5;
+const MAX_COMMIT_PAGES = 10;
+
+// Quarters of new and returning contributors reported, ending with the current one
+const RISK_QUARTERS = 8;
+
+// Automation accounts that don't report type "Bot" or a [bot] suffix
+const KNOWN_BOTS = new Set([
+  "dependabot", "dependabot-preview", "renovate", "renovate-bot", "greenkeeper", "snyk-bot",
+  "github-actions", "codecov", "codecov-io", "allcontributors", "semantic-release-bot",
+  "pre-commit-ci", "mergify", "imgbot", "deepsource-autofix", "web-flow",
+]);
+
+export interface ContributorOptions {
+  windowDays?: number;
+  includeAnonymous?: boolean;
+  // Retries while GitHub computes contributor statistics
+  statsRetries?: number;
+}
+
+export interface ContributorAnalysis {
+  activeContributors: number;
+  windowDays: number;
+  contributors: Contributor[];
+  risk: ContributorRisk;
+  // Contribution dates are missing because GitHub is still computing them
+  statsPending: boolean;
+}
+
+// Author of a single commit, for sources that only have the commit history
+export interface CommitAuthor {
+  // Author date in Unix seconds
+  timestamp: number;
+  name: string;
+  email: string;
+}
+
+// Commits of one author and when they were made, for the bus factor
+export interface AuthorCommits {
+  name: string;
+  commits: number;
+  // Unix seconds of the commits, or of the weeks with commits
+  activity: number[];
+}
+
+function quarterOf(date: Date): string {
+  return `${date.getUTCFullYear()} Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+}
+
+// Start of a commit history in Unix seconds: the oldest commit read when a cap
+// cut it short, otherwise the date it was read back to (null for all of it)
+export function historyStartOf(commits: CommitAuthor[], capped: boolean, since: number | null): number | null {
+  if (capped && commits.length > 0) {
+    return commits.reduce((oldest, commit) => Math.min(oldest, commit.timestamp), Infinity);
+  }
+  return since;
+}
+
+// Bus factor, the top contributor's share of commits and how many contributors
+// were new or returning in each recent quarter. A bus factor of 1, or one
+// person with most of the commits, is high risk. Quarters that began before
+// historyStart (Unix seconds) are left out of the new and returning counts.
+export function analyzeContributorRisk(
+  authors: AuthorCommits[],
+  now = Date.now(),
+  historyStart: number | null = null
+): ContributorRisk {
+  const sorted = authors.filter(author => author.commits > 0).sort((a, b) => b.commits - a.commits);
+  const totalCommits = sorted.reduce((sum, author) => sum + author.commits, 0);
+
+  let busFactor = 0;
+  for (let covered = 0; busFactor < sorted.length && covered * 2 < totalCommits; busFactor++) {
+    covered += sorted[busFactor].commits;
+  }
+  const topContributorShare = totalCommits > 0 ? Math.round((sorted[0].commits / totalCommits) * 100) : 0;
+
+  let level: ContributorRisk["level"] = "Unknown";
+  if (totalCommits > 0) {
+    if (busFactor <= 1 || topContributorShare >= 80) {
+      level = "High";
+    } else if (busFactor === 2 || topContributorShare >= 50) {
+      level = "Medium";
+    } else {
+      level = "Low";
+    }
+  }
+
+  // The last quarters up to the current one, including those without commits
+  const current = new Date(now);
+  const quarters = Array.from({ length: RISK_QUARTERS }, (_, index) => {
+    const date = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - (RISK_QUARTERS - 1 - index) * 3, 1));
+    const start = Date.UTC(date.getUTCFullYear(), Math.floor(date.getUTCMonth() / 3) * 3, 1) / 1000;
+    return {
+      quarter: quarterOf(date),
+      newContributors: 0,
+      returningContributors: 0,
+      complete: historyStart === null || start >= historyStart,
+    };
+  });
+  const byQuarter = new Map(quarters.map(quarter => [quarter.quarter, quarter]));
+
+  // An author is new in the first quarter they committed in and returning in later ones
+  for (const author of sorted) {
+    const active = Array.from(new Set(author.activity.map(timestamp => quarterOf(new Date(timestamp * 1000))))).sort();
+    active.forEach((quarter, index) => {
+      const entry = byQuarter.get(quarter);
+      if (!entry?.complete) {
+        return;
+      }
+      if (index === 0) {
+        entry.newContributors++;
+      } else {
+        entry.returningContributors++;
+      }
+    });
+  }
+
+  return {
+    busFactor,
+    topContributor: sorted[0]?.name ?? null,
+    topContributorShare,
+    totalCommits,
+    level,
+    quarters,
+    historyStart: historyStart === null ? null : new Date(historyStart * 1000).toISOString(),
+  };
+}
+
+export function isBotAccount(login: string | undefined, type?: string): boolean {
+  if (!login) {
+    return false;
+  }
+  const normalized = login.toLowerCase();
+  return type === "Bot" ||
+    normalized.endsWith("[bot]") ||
+    normalized.endsWith("-bot") ||
+    KNOWN_BOTS.has(normalized);
+}
+
+// Identity of a commit author: the GitHub login when the commit is linked to
+// an account, otherwise the email from the commit itself
+function commitAuthorKey(commit: any): string | null {
+  if (commit.author?.login) {
+    return commit.author.login;
+  }
+  const email = commit.commit?.author?.email;
+  return email ? email.toLowerCase() : null;
+}
+
+function isBotCommit(commit: any): boolean {
+  return isBotAccount(commit.author?.login, commit.author?.type) ||
+    /\[bot\]/i.test(commit.commit?.author?.name || "");
+}
+
+// First and last week with commits per login, and the weekly commits of each
+// author for the bus factor, from the stats endpoint. When GitHub is still
+// computing these they are left out and reported pending.
+async function fetchContributionStats(
+  { client, owner, repo }: RepoTarget,
+  retries?: number
+): Promise<{ dates: Map<string, { first: string; last: string }>; authors: AuthorCommits[]; pending: boolean }> {
+  const dates = new Map<string, { first: string; last: string }>();
+  const authors: AuthorCommits[] = [];
+  try {
+    const stats = await client.getStats(`/repos/${owner}/${repo}/stats/contributors`, retries);
+    if (!Array.isArray(stats.data)) {
+      return { dates, authors, pending: stats.pending };
+    }
+
+    for (const stat of stats.data) {
+      const activeWeeks = (stat.weeks || []).filter((week: any) => week.c > 0);
+      if (stat.author?.login && activeWeeks.length > 0) {
+        dates.set(stat.author.login, {
+          first: new Date(activeWeeks[0].w * 1000).toISOString(),
+          last: new Date(activeWeeks[activeWeeks.length - 1].w * 1000).toISOString(),
+        });
+      }
+      if (stat.author?.login && !isBotAccount(stat.author.login, stat.author.type)) {
+        authors.push({ name: stat.author.login, commits: stat.total, activity: activeWeeks.map((week: any) => week.w) });
+      }
+    }
+  } catch (err) {
+    if (err instanceof RateLimitError) {
+      throw err;
+    }
+    console.error("Error fetching contributor stats:", err);
+  }
+  return { dates, authors, pending: false };
+}
+
+// Commits since a date; none for empty repositories, which GitHub answers with 409
+async function fetchRecentCommits({ client, owner, repo }: RepoTarget, since: Date): Promise<any[]> {
+  try {
+    return await client.getAllPages(`/repos/${owner}/${repo}/commits`, { since: since.toISOString() }, MAX_COMMIT_PAGES);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 409) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Count active contributors from recent commit authors and list all
+// contributors with their commit counts and contribution dates
+export async function analyzeContributors(target: RepoTarget, options: ContributorOptions = {}): Promise<ContributorAnalysis> {
+  const { client, owner, repo } = target;
+  const windowDays = options.windowDays ?? DEFAULT_ACTIVE_WINDOW_DAYS;
+  const includeAnonymous = options.includeAnonymous ?? INCLUDE_ANONYMOUS;
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+  const [contributorList, recentCommits, contributionStats] = await Promise.all([
+    client.getAllPages(
+      `/repos/${owner}/${repo}/contributors`,
+      includeAnonymous ? { anon: 1 } : {},
+      MAX_CONTRIBUTOR_PAGES
+    ),
+    fetchRecentCommits(target, since),
+    fetchContributionStats(target, options.statsRetries),
+  ]);
+
+  // Latest commit per author inside the window
+  const recentAuthors = new Map<string, string>();
+  for (const commit of recentCommits) {
+    const key = commitAuthorKey(commit);
+    if (!key || isBotCommit(commit)) {
+      continue;
+    }
+    const date = commit.commit?.author?.date;
+    if (!recentAuthors.has(key) || (date && date > recentAuthors.get(key)!)) {
+      recentAuthors.set(key, date);
+    }
+  }
+
+  const contributors: Contributor[] = contributorList
+    .filter(entry => !isBotAccount(entry.login ?? entry.name, entry.type))
+    .map(entry => {
+      const anonymous = entry.type === "Anonymous";
+      const key = anonymous ? (entry.email || "").toLowerCase() : entry.login;
+      const dates = contributionStats.dates.get(entry.login);
+      const recent = recentAuthors.get(key);
+
+      return {
+        login: anonymous ? entry.name || entry.email : entry.login,
+        avatarUrl: entry.avatar_url,
+        htmlUrl: entry.html_url,
+        anonymous,
+        contributions: entry.contributions,
+        firstContribution: dates?.first,
+        lastContribution: recent && (!dates || recent > dates.last) ? recent : dates?.last,
+        active: recentAuthors.has(key),
+      };
+    });
+
+  // Without the stats the bus factor comes from the contributor list, which has no dates
+  const risk = analyzeContributorRisk(contributionStats.authors.length > 0
+    ? contributionStats.authors
+    : contributors
+      .filter(contributor => !contributor.anonymous)
+      .map(contributor => ({ name: contributor.login, commits: contributor.contributions, activity: [] })));
+
+  return {
+    activeContributors: recentAuthors.size,
+    windowDays,
+    contributors,
+    risk,
+    statsPending: contributionStats.pending,
+  };
+}
+
+// Contributors by commit author email, the way GitHub lists anonymous
+// contributors, for sources without a contributors endpoint of their own.
+// historyStart is where the commits begin when older history wasn't read.
+export function analyzeCommitAuthors(
+  commits: CommitAuthor[],
+  windowDays = DEFAULT_ACTIVE_WINDOW_DAYS,
+  historyStart: number | null = null,
+  now = Date.now()
+): ContributorAnalysis {
+  const since = (now - windowDays * 24 * 60 * 60 * 1000) / 1000;
+  const byAuthor = new Map<string, { name: string; count: number; first: number; last: number; timestamps: number[] }>();
+
+  for (const commit of commits) {
+    if (isBotAccount(commit.name) || /\[bot\]/i.test(commit.name)) {
+      continue;
+    }
+    const key = (commit.email || commit.name).toLowerCase();
+    const author = byAuthor.get(key);
+    if (author) {
+      author.count++;
+      author.first = Math.min(author.first, commit.timestamp);
+      author.last = Math.max(author.last, commit.timestamp);
+      author.timestamps.push(commit.timestamp);
+    } else {
+      byAuthor.set(key, {
+        name: commit.name,
+        count: 1,
+        first: commit.timestamp,
+        last: commit.timestamp,
+        timestamps: [commit.timestamp],
+      });
+    }
+  }
+
+  const contributors: Contributor[] = Array.from(byAuthor.values())
+    .sort((a, b) => b.count - a.count)
+    .map(author => ({
+      login: author.name,
+      anonymous: true,
+      contributions: author.count,
+      firstContribution: new Date(author.first * 1000).toISOString(),
+      lastContribution: new Date(author.last * 1000).toISOString(),
+      active: author.last >= since,
+    }));
+
+  const risk = analyzeContributorRisk(
+    Array.from(byAuthor.values()).map(author => ({ name: author.name, commits: author.count, activity: author.timestamps })),
+    now,
+    historyStart
+  );
+
+  return {
+    activeContributors: contributors.filter(contributor => contributor.active).length,
+    windowDays,
+    contributors,
+    risk,
+    statsPending: false,
+  };
+}
@@ -0,0 +1,281 @@
+import type { CoverageReport, FileCoverage } from "@shared/schema";
+import { RateLimitError } from "./github";
+import { type RepositoryFiles, isIgnoredPath } from "./git-tree";
+
+export type CoverageFormat = CoverageReport["format"];
+
+// Reports larger than this are skipped during discovery
+const MAX_REPORT_BYTES = 20 * 1024 * 1024;
+
+// File names that conventionally hold coverage reports
+const REPORT_CANDIDATES: { pattern: RegExp; format?: CoverageFormat }[] = [
+  { pattern: /(^|\/)lcov\.info$|\.lcov$/i, format: "lcov" },
+  { pattern: /(^|\/)(cobertura(-coverage)?|coverage)\.xml$/i },
+  { pattern: /(^|\/)jacoco(TestReport)?\.xml$/i, format: "jacoco" },
+  { pattern: /(^|\/)clover\.xml$/i, format: "clover" },
+];
+
+export class CoverageParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CoverageParseError";
+  }
+}
+
+// Parse the attributes of a single XML start tag into a map
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g))) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+function emptyFile(path: string): FileCoverage {
+  return { path, linesFound: 0, linesHit: 0, branchesFound: 0, branchesHit: 0 };
+}
+
+function parseLcov(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  let lineHits = new Map<number, number>();
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(":");
+    const key = separator >= 0 ? line.slice(0, separator) : line;
+    const value = separator >= 0 ? line.slice(separator + 1) : "";
+
+    if (key === "SF") {
+      current = emptyFile(value);
+      lineHits = new Map();
+    } else if (!current) {
+      continue;
+    } else if (key === "DA") {
+      const [lineNumber, hits] = value.split(",").map(Number);
+      lineHits.set(lineNumber, (lineHits.get(lineNumber) || 0) + hits);
+    } else if (key === "LF") {
+      current.linesFound = Number(value);
+    } else if (key === "LH") {
+      current.linesHit = Number(value);
+    } else if (key === "BRF") {
+      current.branchesFound = Number(value);
+    } else if (key === "BRH") {
+      current.branchesHit = Number(value);
+    } else if (key === "end_of_record") {
+      // Some generators omit the LF/LH summary lines
+      if (current.linesFound === 0 && lineHits.size > 0) {
+        current.linesFound = lineHits.size;
+        current.linesHit = Array.from(lineHits.values()).filter(hits => hits > 0).length;
+      }
+      files.push(current);
+      current = null;
+    }
+  }
+
+  return files;
+}
+
+function parseCobertura(content: string): FileCoverage[] {
+  // A file can be split across several <class> elements, so merge by line number
+  const byFile = new Map<string, Map<number, { hit: boolean; branches: number; branchesHit: number }>>();
+
+  for (const classMatch of Array.from(content.matchAll(/<class\b([^>]*)>([\s\S]*?)<\/class>/g))) {
+    const filename = parseAttributes(classMatch[1]).filename;
+    if (!filename) {
+      continue;
+    }
+    const lines = byFile.get(filename) || new Map();
+    byFile.set(filename, lines);
+
+    for (const lineMatch of Array.from(classMatch[2].matchAll(/<line\b([^>]*?)\/?>/g))) {
+      const attributes = parseAttributes(lineMatch[1]);
+      const number = Number(attributes.number);
+      const condition = (attributes["condition-coverage"] || "").match(/\((\d+)\/(\d+)\)/);
+      const existing = lines.get(number);
+      lines.set(number, {
+        hit: (existing?.hit ?? false) || Number(attributes.hits) > 0,
+        branches: Math.max(existing?.branches ?? 0, condition ? Number(condition[2]) : 0),
+        branchesHit: Math.max(existing?.branchesHit ?? 0, condition ? Number(condition[1]) : 0),
+      });
+    }
+  }
+
+  return Array.from(byFile.entries()).map(([path, lines]) => {
+    const values = Array.from(lines.values());
+    return {
+      path,
+      linesFound: values.length,
+      linesHit: values.filter(line => line.hit).length,
+      branchesFound: values.reduce((sum, line) => sum + line.branches, 0),
+      branchesHit: values.reduce((sum, line) => sum + line.branchesHit, 0),
+    };
+  });
+}
+
+function parseJacoco(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+
+  for (const packageMatch of Array.from(content.matchAll(/<package\b([^>]*)>([\s\S]*?)<\/package>/g))) {
+    const packageName = parseAttributes(packageMatch[1]).name || "";
+
+    for (const fileMatch of Array.from(packageMatch[2].matchAll(/<sourcefile\b([^>]*)>([\s\S]*?)<\/sourcefile>/g))) {
+      const name = parseAttributes(fileMatch[1]).name;
+      const file = emptyFile(packageName ? `${packageName}/${name}` : name);
+
+      for (const counterMatch of Array.from(fileMatch[2].matchAll(/<counter\b([^>]*?)\/?>/g))) {
+        const counter = parseAttributes(counterMatch[1]);
+        const missed = Number(counter.missed);
+        const covered = Number(counter.covered);
+        if (counter.type === "LINE") {
+          file.linesFound = missed + covered;
+          file.linesHit = covered;
+        } else if (counter.type === "BRANCH") {
+          file.branchesFound = missed + covered;
+          file.branchesHit = covered;
+        }
+      }
+      files.push(file);
+    }
+  }
+
+  return files;
+}
+
+function parseClover(content: string): FileCoverage[] {
+  return Array.from(content.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)).map(fileMatch => {
+    const attributes = parseAttributes(fileMatch[1]);
+    const file = emptyFile(attributes.path || attributes.name);
+    // The first <metrics> element inside a file summarizes the whole file
+    const metricsMatch = fileMatch[2].match(/<metrics\b([^>]*?)\/?>/);
+    if (metricsMatch) {
+      const metrics = parseAttributes(metricsMatch[1]);
+      file.linesFound = Number(metrics.statements || 0);
+      file.linesHit = Number(metrics.coveredstatements || 0);
+      file.branchesFound = Number(metrics.conditionals || 0);
+      file.branchesHit = Number(metrics.coveredconditionals || 0);
+    }
+    return file;
+  });
+}
+
+const PARSERS: Record<CoverageFormat, (content: string) => FileCoverage[]> = {
+  lcov: parseLcov,
+  cobertura: parseCobertura,
+  jacoco: parseJacoco,
+  clover: parseClover,
+};
+
+// Work out the report format from its contents
+export function detectCoverageFormat(content: string): CoverageFormat | null {
+  const head = content.slice(0, 4096);
+  if (/^(TN|SF):/m.test(head)) {
+    return "lcov";
+  }
+  if (/<report\b/.test(head) && /jacoco/i.test(head)) {
+    return "jacoco";
+  }
+  if (/<coverage\b[^>]*\bclover=/.test(head) || (/<coverage\b[^>]*generated=/.test(head) && /<project\b/.test(head))) {
+    return "clover";
+  }
+  if (/<coverage\b[^>]*line-rate=/.test(head) || /cobertura/i.test(head)) {
+    return "cobertura";
+  }
+  return null;
+}
+
+// Make report paths relative to the repository root. Reports generated in CI
+// usually contain absolute paths, so match them by suffix against the tree
+// when it is known and otherwise strip the common directory prefix.
+function normalizePaths(files: FileCoverage[], treePaths?: string[]): FileCoverage[] {
+  const stripped = files.map(file => ({ ...file, path: file.path.replace(/\\/g, "/").replace(/^\.\//, "") }));
+
+  if (treePaths && treePaths.length > 0) {
+    const known = new Set(treePaths);
+    return stripped.map(file => {
+      if (known.has(file.path)) {
+        return file;
+      }
+      // Absolute CI paths end with the tree path; source-relative paths are a suffix of it
+      const match = treePaths
+        .filter(path => file.path.endsWith(`/${path}`))
+        .sort((a, b) => b.length - a.length)[0];
+      const suffixMatches = match ? [] : treePaths.filter(path => path.endsWith(`/${file.path}`));
+      if (match || suffixMatches.length === 1) {
+        return { ...file, path: match || suffixMatches[0] };
+      }
+      return file;
+    });
+  }
+
+  if (stripped.length > 0 && stripped.every(file => file.path.startsWith("/"))) {
+    const directories = stripped.map(file => file.path.split("/").slice(0, -1));
+    let common = directories[0];
+    for (const parts of directories) {
+      let i = 0;
+      while (i < common.length && common[i] === parts[i]) i++;
+      common = common.slice(0, i);
+    }
+    const prefix = common.join("/") + "/";
+    return stripped.map(file => ({ ...file, path: file.path.slice(prefix.length) }));
+  }
+
+  return stripped;
+}
+
+// Parse a coverage report, detecting the format when it isn't given
+export function parseCoverageReport(
+  content: string,
+  options: { format?: CoverageFormat; source: CoverageReport["source"]; reportPath?: string; treePaths?: string[] }
+): CoverageReport {
+  const format = options.format ?? detectCoverageFormat(content);
+  if (!format) {
+    throw new CoverageParseError("Unrecognized coverage report format. Supported formats are lcov, Cobertura, JaCoCo and Clover.");
+  }
+
+  const files = normalizePaths(PARSERS[format](content), options.treePaths)
+    .filter(file => file.linesFound > 0 || file.branchesFound > 0);
+  if (files.length === 0) {
+    throw new CoverageParseError(`No file coverage found in ${format} report`);
+  }
+
+  const linesFound = files.reduce((sum, file) => sum + file.linesFound, 0);
+  const linesHit = files.reduce((sum, file) => sum + file.linesHit, 0);
+  const branchesFound = files.reduce((sum, file) => sum + file.branchesFound, 0);
+  const branchesHit = files.reduce((sum, file) => sum + file.branchesHit, 0);
+
+  return {
+    format,
+    source: options.source,
+    reportPath: options.reportPath,
+    lineRate: linesFound > 0 ? (linesHit / linesFound) * 100 : 0,
+    branchRate: branchesFound > 0 ? (branchesHit / branchesFound) * 100 : null,
+    files: files.sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
+
+// Look for a coverage report committed to the repository and parse the first usable one
+export async function discoverCoverageReport(files: RepositoryFiles): Promise<CoverageReport | null> {
+  const treePaths = files.tree.filter(entry => entry.type === "blob").map(entry => entry.path);
+  const candidates = files.tree
+    .filter(entry => entry.type === "blob" && !isIgnoredPath(entry.path) && (entry.size ?? 0) <= MAX_REPORT_BYTES)
+    .flatMap(entry => {
+      const candidate = REPORT_CANDIDATES.find(({ pattern }) => pattern.test(entry.path));
+      return candidate ? [{ entry, format: candidate.format }] : [];
+    });
+
+  for (const { entry, format } of candidates) {
+    try {
+      const content = await files.readFile(entry);
+      return parseCoverageReport(content, { format, source: "repository", reportPath: entry.path, treePaths });
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      // Files like a pom's coverage.xml may not be reports at all; try the next candidate
+      console.error(`Error parsing coverage report ${entry.path}:`, err);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,149 @@
+import type { Dependency } from "@shared/schema";
+import { RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry, isIgnoredPath, mapWithConcurrency } from "./git-tree";
+import { type DeclaredDependency, type LockfileVersions, MANIFEST_PARSERS, LOCKFILE_PARSERS } from "./manifests";
+import { type RegistryMetadataSource, registry } from "./registry";
+import { compareVersions, parseRangeBase, parseVersion, semverDistance, formatVersion } from "./semver";
+
+// Limits on how much of a monorepo is inspected
+const MAX_MANIFESTS = 20;
+const MAX_LOOKUPS = Number(process.env.DEPENDENCY_LOOKUP_LIMIT) || 150;
+const LOOKUP_CONCURRENCY = 8;
+
+const STATUS_ORDER: Record<Dependency["status"], number> = {
+  "Outdated": 0,
+  "Update available": 1,
+  "Unknown": 2,
+  "Up to date": 3,
+};
+
+function fileName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+function directoryOf(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+// Read every manifest in the tree, attaching versions pinned by lockfiles in the same directory
+async function collectDeclaredDependencies(files: RepositoryFiles): Promise<DeclaredDependency[]> {
+  const blobs = files.tree.filter(entry => entry.type === "blob" && !isIgnoredPath(entry.path));
+  const manifests = blobs
+    .filter(entry => MANIFEST_PARSERS[fileName(entry.path)])
+    // Prefer manifests closest to the repository root
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length)
+    .slice(0, MAX_MANIFESTS);
+
+  const lockfiles = new Map<string, TreeEntry[]>();
+  blobs
+    .filter(entry => LOCKFILE_PARSERS[fileName(entry.path)])
+    .forEach(entry => {
+      const dir = directoryOf(entry.path);
+      lockfiles.set(dir, [...(lockfiles.get(dir) || []), entry]);
+    });
+
+  const lockfileCache = new Map<string, Promise<LockfileVersions>>();
+  const readLockfile = (entry: TreeEntry) => {
+    if (!lockfileCache.has(entry.path)) {
+      lockfileCache.set(entry.path, files.readFile(entry)
+        .then(content => LOCKFILE_PARSERS[fileName(entry.path)](content))
+        .catch(err => {
+          if (err instanceof RateLimitError) {
+            throw err;
+          }
+          console.error(`Error parsing lockfile ${entry.path}:`, err);
+          return new Map();
+        }));
+    }
+    return lockfileCache.get(entry.path)!;
+  };
+
+  const perManifest = await mapWithConcurrency(manifests, 4, async (manifest) => {
+    try {
+      const content = await files.readFile(manifest);
+      const declared = MANIFEST_PARSERS[fileName(manifest.path)](content, manifest.path);
+
+      const pinned = await Promise.all((lockfiles.get(directoryOf(manifest.path)) || []).map(readLockfile));
+      return declared.map(dep => {
+        // Cargo.lock and poetry.lock names are lowercased, while manifests keep the declared case
+        const resolved = dep.resolved ??
+          pinned.map(versions => versions.get(dep.name) ?? versions.get(dep.name.toLowerCase())).find(Boolean);
+        return resolved ? { ...dep, resolved } : dep;
+      });
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error parsing manifest ${manifest.path}:`, err);
+      // Continue with other manifests if one fails
+      return [];
+    }
+  });
+
+  return perManifest.flat();
+}
+
+// Compare a declared dependency against the latest published version
+async function evaluateDependency(dep: DeclaredDependency, source: RegistryMetadataSource): Promise<Dependency> {
+  const base: Dependency = {
+    name: dep.name,
+    version: dep.declared,
+    ecosystem: dep.ecosystem,
+    manifest: dep.manifest,
+    dev: dep.dev,
+    resolvedVersion: dep.resolved,
+    status: "Unknown",
+  };
+
+  const current = dep.resolved ? parseVersion(dep.resolved) : parseRangeBase(dep.declared);
+  const latestRaw = await source.getLatestVersion(dep.ecosystem, dep.name);
+  const latest = latestRaw ? parseVersion(latestRaw) : null;
+  if (!current || !latest) {
+    return { ...base, latestVersion: latestRaw ?? undefined };
+  }
+
+  // A pre-release of the latest version is behind it with no component to count
+  const distance = semverDistance(current, latest);
+  const status = distance.major > 0
+    ? "Outdated"
+    : compareVersions(current, latest) < 0
+      ? "Update available"
+      : "Up to date";
+
+  return {
+    ...base,
+    resolvedVersion: dep.resolved ?? formatVersion(current),
+    latestVersion: latestRaw!,
+    semverDistance: distance,
+    status,
+  };
+}
+
+// Parse all dependency manifests in a repository and compute how far each
+// dependency is behind its latest release
+export async function analyzeDependencies(
+  files: RepositoryFiles,
+  source: RegistryMetadataSource = registry
+): Promise<Dependency[]> {
+  const declared = await collectDeclaredDependencies(files);
+
+  // Runtime dependencies are more interesting than dev tooling when capping lookups
+  const seen = new Set<string>();
+  const unique = declared
+    .sort((a, b) => Number(a.dev) - Number(b.dev))
+    .filter(dep => {
+      const key = `${dep.ecosystem}:${dep.name}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_LOOKUPS);
+
+  const dependencies = await mapWithConcurrency(unique, LOOKUP_CONCURRENCY, dep => evaluateDependency(dep, source));
+
+  return dependencies.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.name.localeCompare(b.name)
+  );
+}
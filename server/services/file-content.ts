@@ -0,0 +1,168 @@
+import type { RepositoryFiles, TreeEntry } from "./git-tree";
+
+// Files larger than this aren't read for analysis at all
+export const MAX_ANALYZED_FILE_BYTES = Number(process.env.ANALYZE_FILE_MAX_BYTES) || 10 * 1024 * 1024;
+// How much of a file goes into the prompt; longer files are cut to their first lines
+const MAX_PROMPT_LINES = Number(process.env.ANALYZE_FILE_MAX_LINES) || 800;
+const MAX_PROMPT_CHARS = Number(process.env.ANALYZE_FILE_MAX_CHARS) || 60_000;
+
+// How much of a file is checked for NUL bytes, like git's own binary detection
+const BINARY_SNIFF_CHARS = 8000;
+
+const BINARY_EXTENSIONS = new Set([
+  "png", "jpg", "jpeg", "gif", "bmp", "ico", "webp", "tif", "tiff", "psd",
+  "pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx",
+  "zip", "gz", "tgz", "bz2", "xz", "7z", "rar", "tar", "jar", "war", "whl", "egg",
+  "exe", "dll", "so", "dylib", "a", "o", "obj", "lib", "class", "pyc", "pyo", "wasm", "bin", "dat",
+  "woff", "woff2", "ttf", "otf", "eot",
+  "mp3", "mp4", "wav", "ogg", "flac", "avi", "mov", "mkv", "webm",
+  "sqlite", "db", "keystore", "p12", "pfx",
+]);
+
+export type BinaryReason = "extension" | "gitattributes" | "content";
+
+export type FileContent =
+  | { status: "text"; content: string; totalLines: number }
+  // Only the first shownLines lines made it into content
+  | { status: "truncated"; content: string; shownLines: number; totalLines: number }
+  | { status: "binary"; reason: BinaryReason }
+  | { status: "too-large"; size: number };
+
+interface AttributeRule {
+  pattern: RegExp;
+  binary: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+// Match a .gitattributes pattern the way git does: patterns without a slash
+// match file names at any depth, others are relative to the file's directory
+function patternToRegExp(pattern: string, base: string): RegExp {
+  const anchored = pattern.replace(/^\//, "").includes("/");
+  const glob = escapeRegExp(pattern.replace(/^\//, ""))
+    .replace(/\*\*\//g, "\u0000")
+    .replace(/\*\*/g, "\u0001")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/\u0000/g, "(?:.*/)?")
+    .replace(/\u0001/g, ".*");
+  const prefix = base ? `${escapeRegExp(base)}/` : "";
+  return new RegExp(anchored ? `^${prefix}${glob}$` : `^${prefix}(?:.*/)?${glob}$`);
+}
+
+// Rules from a .gitattributes file that say whether files are binary. "binary"
+// and "-text"/"-diff" mark them binary; "text" and "diff" mark them text.
+export function parseGitAttributes(content: string, base = ""): AttributeRule[] {
+  const rules: AttributeRule[] = [];
+  for (const line of content.split("\n")) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    if (!pattern || pattern.startsWith("#")) {
+      continue;
+    }
+
+    let binary: boolean | null = null;
+    for (const attribute of attributes) {
+      if (attribute === "binary" || attribute === "-text" || attribute === "-diff") {
+        binary = true;
+      } else if (attribute === "text" || attribute === "diff") {
+        binary = false;
+      }
+    }
+    if (binary !== null) {
+      rules.push({ pattern: patternToRegExp(pattern, base), binary });
+    }
+  }
+  return rules;
+}
+
+// .gitattributes rules that apply to a file, from the root down to its directory
+async function loadAttributeRules(files: RepositoryFiles, path: string): Promise<AttributeRule[]> {
+  const segments = path.split("/").slice(0, -1);
+  const rules: AttributeRule[] = [];
+
+  for (let depth = 0; depth <= segments.length; depth++) {
+    const base = segments.slice(0, depth).join("/");
+    const attributesPath = base ? `${base}/.gitattributes` : ".gitattributes";
+    const entry = files.tree.find(item => item.type === "blob" && item.path === attributesPath);
+    if (!entry) {
+      continue;
+    }
+    try {
+      rules.push(...parseGitAttributes(await files.readFile(entry), base));
+    } catch (err) {
+      console.error(`Error reading ${attributesPath}:`, err);
+    }
+  }
+  return rules;
+}
+
+// Whether .gitattributes marks a file binary; later and deeper rules win
+export function isBinaryByAttributes(rules: AttributeRule[], path: string): boolean {
+  let binary = false;
+  for (const rule of rules) {
+    if (rule.pattern.test(path)) {
+      binary = rule.binary;
+    }
+  }
+  return binary;
+}
+
+export function hasBinaryExtension(path: string): boolean {
+  const name = path.split("/").pop() || path;
+  return name.includes(".") && BINARY_EXTENSIONS.has(name.slice(name.lastIndexOf(".") + 1).toLowerCase());
+}
+
+// NUL bytes, or bytes that aren't valid UTF-8 in more than a tenth of the
+// sniffed characters, mean the content isn't text
+export function looksBinary(content: string): boolean {
+  const sample = content.slice(0, BINARY_SNIFF_CHARS);
+  if (sample.includes("\u0000")) {
+    return true;
+  }
+  const invalid = sample.split("\uFFFD").length - 1;
+  return sample.length > 0 && invalid / sample.length > 0.1;
+}
+
+// Read a file for analysis, skipping binaries and files over the size limit
+// and cutting long ones down to their first lines
+export async function loadFileContent(files: RepositoryFiles, entry: TreeEntry): Promise<FileContent> {
+  if (hasBinaryExtension(entry.path)) {
+    return { status: "binary", reason: "extension" };
+  }
+  if (isBinaryByAttributes(await loadAttributeRules(files, entry.path), entry.path)) {
+    return { status: "binary", reason: "gitattributes" };
+  }
+  // Sizes are missing from some providers' trees; those files are read regardless
+  if (entry.size !== undefined && entry.size > MAX_ANALYZED_FILE_BYTES) {
+    return { status: "too-large", size: entry.size };
+  }
+
+  const content = await files.readFile(entry);
+  if (looksBinary(content)) {
+    return { status: "binary", reason: "content" };
+  }
+
+  const lines = content.split("\n");
+  if (lines.length <= MAX_PROMPT_LINES && content.length <= MAX_PROMPT_CHARS) {
+    return { status: "text", content, totalLines: lines.length };
+  }
+
+  // Whole lines only, up to both limits
+  const shown: string[] = [];
+  let length = 0;
+  for (const line of lines.slice(0, MAX_PROMPT_LINES)) {
+    if (length + line.length + 1 > MAX_PROMPT_CHARS && shown.length > 0) {
+      break;
+    }
+    shown.push(line);
+    length += line.length + 1;
+  }
+  return {
+    status: "truncated",
+    content: shown.join("\n").slice(0, MAX_PROMPT_CHARS),
+    shownLines: shown.length,
+    totalLines: lines.length,
+  };
+}
@@ -0,0 +1,136 @@
+import type { RepoTarget } from "./github";
+import { encodeRef } from "./refs";
+
+// Entry of a recursive git tree as returned by the GitHub trees API
+export interface TreeEntry {
+  path: string;
+  type: "blob" | "tree" | "commit";
+  sha: string;
+  size?: number;
+}
+
+// Files of a repository at one commit, read either through the API or from
+// an extracted tarball
+export interface RepositoryFiles {
+  tree: TreeEntry[];
+  // Set when the tree could only be listed in part
+  truncated?: boolean;
+  readFile(entry: TreeEntry): Promise<string>;
+  // Whether reading a file costs no API request; unset when every read does
+  isOnDisk?(entry: TreeEntry): boolean;
+}
+
+export interface RepositoryTree {
+  tree: TreeEntry[];
+  truncated: boolean;
+}
+
+// Directories that only contain vendored or generated code
+const IGNORED_DIRECTORIES = ["node_modules/", "vendor/", "dist/", "build/", "third_party/", ".git/"];
+
+// Tree requests a walk of a truncated tree may make; subtrees beyond it are
+// left out and the tree reported truncated
+const MAX_SUBTREE_REQUESTS = 500;
+const SUBTREE_CONCURRENCY = 4;
+
+async function fetchTree({ client, owner, repo }: RepoTarget, treeish: string, recursive: boolean): Promise<RepositoryTree> {
+  const response = await client.get(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeish)}`, {
+    params: recursive ? { recursive: 1 } : {}
+  });
+  return {
+    tree: Array.isArray(response.data.tree) ? response.data.tree : [],
+    truncated: response.data.truncated === true,
+  };
+}
+
+// List a tree one level at a time, fetching each subtree recursively and
+// walking it in turn when that is truncated as well
+async function walkTree(
+  target: RepoTarget,
+  sha: string,
+  prefix: string,
+  budget: { requests: number; truncated: boolean }
+): Promise<TreeEntry[]> {
+  budget.requests--;
+  const level = await fetchTree(target, sha, false);
+  const entries = level.tree.map(entry => ({ ...entry, path: `${prefix}${entry.path}` }));
+
+  // Vendored and generated directories are listed but not descended into
+  const subtrees = entries.filter(entry => entry.type === "tree" && !isIgnoredPath(`${entry.path}/`));
+  const nested = await mapWithConcurrency(subtrees, SUBTREE_CONCURRENCY, async subtree => {
+    if (budget.requests <= 0) {
+      budget.truncated = true;
+      return [];
+    }
+    budget.requests--;
+    const result = await fetchTree(target, subtree.sha, true);
+    if (result.truncated) {
+      return walkTree(target, subtree.sha, `${subtree.path}/`, budget);
+    }
+    return result.tree.map(entry => ({ ...entry, path: `${subtree.path}/${entry.path}` }));
+  });
+
+  return [...entries, ...nested.flat()];
+}
+
+// Fetch the full recursive tree of a repository at the given ref. GitHub
+// truncates recursive trees of big repositories (over 100,000 entries or
+// 7 MB), in which case the tree is walked subtree by subtree instead.
+export async function fetchRepositoryTree(target: RepoTarget, ref: string): Promise<RepositoryTree> {
+  const root = await fetchTree(target, ref, true);
+  if (!root.truncated) {
+    return root;
+  }
+
+  const budget = { requests: MAX_SUBTREE_REQUESTS, truncated: false };
+  const tree = await walkTree(target, ref, "", budget);
+  return { tree, truncated: budget.truncated };
+}
+
+// Fetch and decode a blob by its SHA
+export async function fetchBlobContent({ client, owner, repo }: RepoTarget, sha: string): Promise<string> {
+  const response = await client.get(`/repos/${owner}/${repo}/git/blobs/${sha}`);
+  return Buffer.from(response.data.content, response.data.encoding === "base64" ? "base64" : "utf-8").toString("utf-8");
+}
+
+// Fetch a file by path at a ref. The contents API leaves out the content of
+// files over 1 MB, so only the file's SHA is taken from it and the content is
+// read through the blobs API, which serves files up to 100 MB.
+export async function fetchFileContent(target: RepoTarget, path: string, ref: string): Promise<string> {
+  const { client, owner, repo } = target;
+  const response = await client.get(`/repos/${owner}/${repo}/contents/${encodeRef(path)}`, {
+    params: { ref }
+  });
+  return fetchBlobContent(target, response.data.sha);
+}
+
+// Files read blob by blob through the API
+export function apiRepositoryFiles(target: RepoTarget, { tree, truncated }: RepositoryTree): RepositoryFiles {
+  return { tree, truncated, readFile: entry => fetchBlobContent(target, entry.sha) };
+}
+
+// Whether a path lives inside a vendored or generated directory
+export function isIgnoredPath(path: string): boolean {
+  return IGNORED_DIRECTORIES.some(dir => path.startsWith(dir) || path.includes(`/${dir}`)) ||
+    /\.(min|bundle|compiled)\./i.test(path);
+}
+
+// Run an async mapper over items with a bounded number of requests in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
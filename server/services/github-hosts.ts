@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { DEFAULT_REPO_HOST } from "@shared/repo-reference";
+import { GitHubClient } from "./github";
+import { createResponseCache } from "./response-cache";
+
+export const DEFAULT_GITHUB_HOST = DEFAULT_REPO_HOST;
+
+export type RepositoryProviderKind = "github" | "gitlab" | "bitbucket";
+
+// GitHub Enterprise Server and self-managed GitLab instances come from
+// GITHUB_HOSTS, a JSON array like
+// [{ "host": "github.example.com", "apiBaseUrl": "https://github.example.com/api/v3", "token": "..." },
+//  { "host": "gitlab.example.com", "provider": "gitlab", "token": "..." }]
+const hostConfigSchema = z.object({
+  host: z.string().min(1).transform(host => host.toLowerCase()),
+  provider: z.enum(["github", "gitlab", "bitbucket"]).default("github"),
+  // Enterprise Server serves the REST API under /api/v3 by default, GitLab under /api/v4
+  apiBaseUrl: z.string().url().optional(),
+  token: z.string().optional(),
+});
+
+export interface GitHubHostConfig {
+  host: string;
+  provider: RepositoryProviderKind;
+  apiBaseUrl: string;
+  token?: string;
+}
+
+const DEFAULT_API_PATHS: Record<RepositoryProviderKind, string> = {
+  github: "/api/v3",
+  gitlab: "/api/v4",
+  bitbucket: "/2.0",
+};
+
+// Accept headers for the APIs that aren't GitHub's
+const PROVIDER_HEADERS: Partial<Record<RepositoryProviderKind, Record<string, string>>> = {
+  gitlab: { Accept: "application/json" },
+  bitbucket: { Accept: "application/json" },
+};
+
+function loadHostConfigs(): GitHubHostConfig[] {
+  const hosts: GitHubHostConfig[] = [{
+    host: DEFAULT_GITHUB_HOST,
+    provider: "github",
+    apiBaseUrl: "https://api.github.com",
+    token: process.env.GITHUB_TOKEN,
+  }, {
+    host: "gitlab.com",
+    provider: "gitlab",
+    apiBaseUrl: "https://gitlab.com/api/v4",
+    token: process.env.GITLAB_TOKEN,
+  }, {
+    host: "bitbucket.org",
+    provider: "bitbucket",
+    apiBaseUrl: "https://api.bitbucket.org/2.0",
+    token: process.env.BITBUCKET_TOKEN,
+  }];
+
+  if (process.env.GITHUB_HOSTS) {
+    let configured: z.infer<typeof hostConfigSchema>[];
+    try {
+      configured = z.array(hostConfigSchema).parse(JSON.parse(process.env.GITHUB_HOSTS));
+    } catch (err) {
+      throw new Error(`Invalid GITHUB_HOSTS configuration: ${err instanceof Error ? err.message : err}`);
+    }
+
+    for (const entry of configured) {
+      const config = {
+        host: entry.host,
+        provider: entry.provider,
+        apiBaseUrl: (entry.apiBaseUrl ?? `https://${entry.host}${DEFAULT_API_PATHS[entry.provider]}`).replace(/\/$/, ""),
+        token: entry.token,
+      };
+      const index = hosts.findIndex(existing => existing.host === config.host);
+      if (index >= 0) {
+        hosts[index] = config;
+      } else {
+        hosts.push(config);
+      }
+    }
+  }
+
+  return hosts;
+}
+
+const hostConfigs = loadHostConfigs();
+const clients = new Map<string, GitHubClient>();
+// One cache for every host; entries are keyed by absolute URL
+const responseCache = createResponseCache();
+
+// Hosts repositories may be analyzed from
+export function getAllowedHosts(): string[] {
+  return hostConfigs.map(config => config.host);
+}
+
+export function isAllowedHost(host: string): boolean {
+  return hostConfigs.some(config => config.host === host.toLowerCase());
+}
+
+export function getHostConfig(host: string): GitHubHostConfig {
+  const config = hostConfigs.find(entry => entry.host === host.toLowerCase());
+  if (!config) {
+    throw new Error(`Repository host ${host} is not configured`);
+  }
+  return config;
+}
+
+// API client for a configured host, created on first use
+export function getGitHubClient(host: string = DEFAULT_GITHUB_HOST): GitHubClient {
+  const normalized = host.toLowerCase();
+  const existing = clients.get(normalized);
+  if (existing) {
+    return existing;
+  }
+
+  const config = getHostConfig(normalized);
+  const client = new GitHubClient({
+    baseUrl: config.apiBaseUrl,
+    token: config.token,
+    headers: PROVIDER_HEADERS[config.provider],
+    maxWaitMs: Number(process.env.GITHUB_RATE_LIMIT_MAX_WAIT_MS) || 30000,
+    cache: responseCache,
+  });
+  clients.set(normalized, client);
+  return client;
+}
@@ -0,0 +1,282 @@
+import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from "axios";
+import dotenv from "dotenv";
+import type { Readable } from "stream";
+import type { CachedResponse, ResponseCache } from "./response-cache";
+dotenv.config();
+
+// Thrown when GitHub's rate limit is exhausted and the reset is too far away to wait for
+export class RateLimitError extends Error {
+  resetAt: Date;
+
+  constructor(resetAt: Date) {
+    super(`GitHub API rate limit exceeded. Try again after ${resetAt.toISOString()}`);
+    this.name = "RateLimitError";
+    this.resetAt = resetAt;
+  }
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Result of a /stats/* call; data is null while GitHub is still computing it
+export interface StatsResult<T> {
+  data: T | null;
+  pending: boolean;
+}
+
+export interface GitHubClientOptions {
+  baseUrl: string;
+  token?: string;
+  // Longest time a request may be held back waiting for the limit to reset
+  maxWaitMs: number;
+  cache?: ResponseCache;
+  // Replaces GitHub's Accept and API version headers for other providers' APIs
+  headers?: Record<string, string>;
+}
+
+// Parse an RFC 8288 Link header into a map of rel -> URL
+export function parseLinkHeader(header: string | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Backoff for statistics that GitHub is still computing: 1s, 2s, 4s by default
+const STATS_RETRIES = Number(process.env.GITHUB_STATS_RETRIES ?? 3);
+const STATS_RETRY_BASE_MS = 1000;
+
+// Single path through which the server talks to the GitHub REST API. Tracks
+// the X-RateLimit-* headers of every response so that once the quota is gone
+// requests either wait for a reset that is close enough or fail fast with a
+// RateLimitError instead of hammering the API.
+//
+// Responses carrying an ETag or Last-Modified header are cached per URL and
+// revalidated with conditional requests; GitHub answers those with a 304 that
+// doesn't count against the rate limit.
+//
+// GitLab and Bitbucket are talked to through the same client: they paginate
+// with Link headers or plain URLs and report their quota in similar headers.
+export class GitHubClient {
+  private http: AxiosInstance;
+  private maxWaitMs: number;
+  private rateLimit: RateLimitState | null;
+  private cache: ResponseCache | null;
+
+  constructor(options: GitHubClientOptions) {
+    this.maxWaitMs = options.maxWaitMs;
+    this.rateLimit = null;
+    this.cache = options.cache ?? null;
+    this.http = axios.create({
+      baseURL: options.baseUrl,
+      headers: {
+        ...(options.headers ?? {
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+        }),
+        ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+      },
+    });
+  }
+
+  getRateLimit(): RateLimitState | null {
+    return this.rateLimit;
+  }
+
+  // GET a path relative to the API base URL (absolute URLs such as pagination links also work)
+  async get<T = any>(path: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    const cacheKey = this.http.getUri({ ...config, url: path });
+    const cached = this.cache ? await this.cache.get(cacheKey) : undefined;
+
+    try {
+      await this.waitForRateLimit();
+    } catch (error) {
+      // Out of quota: a cached copy, even if possibly stale, beats failing
+      if (cached && error instanceof RateLimitError) {
+        return this.fromCache<T>(cached, config);
+      }
+      throw error;
+    }
+
+    try {
+      const response = await this.http.get<T>(path, {
+        ...config,
+        headers: {
+          ...config.headers,
+          ...(cached?.etag ? { "If-None-Match": cached.etag } : {}),
+          ...(cached?.lastModified ? { "If-Modified-Since": cached.lastModified } : {}),
+        },
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cached),
+      });
+      this.updateRateLimit(response.headers);
+
+      if (response.status === 304 && cached) {
+        return { ...this.fromCache<T>(cached, config), headers: response.headers };
+      }
+      await this.store(cacheKey, response);
+      return response;
+    } catch (error) {
+      throw this.toRateLimitError(error);
+    }
+  }
+
+  // GET a response as a stream, for archives too large to hold in memory.
+  // Streams are never cached.
+  async download(path: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<Readable>> {
+    await this.waitForRateLimit();
+
+    try {
+      const response = await this.http.get<Readable>(path, { ...config, responseType: "stream" });
+      this.updateRateLimit(response.headers);
+      return response;
+    } catch (error) {
+      throw this.toRateLimitError(error);
+    }
+  }
+
+  // Follow `Link: rel="next"` headers and collect every page of a list endpoint,
+  // stopping after maxPages so huge repositories can't exhaust the rate limit
+  async getAllPages<T = any>(path: string, params: Record<string, string | number> = {}, maxPages = 10): Promise<T[]> {
+    const items: T[] = [];
+    let nextUrl: string | undefined = path;
+    let pageParams: Record<string, string | number> | undefined = { per_page: 100, ...params };
+
+    for (let page = 0; nextUrl && page < maxPages; page++) {
+      const response: AxiosResponse<unknown> = await this.get(nextUrl, { params: pageParams });
+      if (!Array.isArray(response.data)) {
+        break;
+      }
+      items.push(...response.data);
+
+      // The next link already carries the query string
+      nextUrl = parseLinkHeader(response.headers.link).next;
+      pageParams = undefined;
+    }
+
+    return items;
+  }
+
+  // Retry a statistics endpoint's 202 "still computing" answer with backoff, then report it pending
+  async getStats<T = any>(path: string, retries = STATS_RETRIES): Promise<StatsResult<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.get<T>(path);
+      if (response.status !== 202) {
+        // 204 means the repository has no commits to compute statistics from
+        return { data: response.status === 204 ? null : response.data, pending: false };
+      }
+      if (attempt >= retries) {
+        return { data: null, pending: true };
+      }
+      await sleep(STATS_RETRY_BASE_MS * 2 ** attempt);
+    }
+  }
+
+  // Remember a successful response if GitHub gave us a way to revalidate it.
+  // 202 "still computing" answers from the stats endpoints are never cached.
+  private async store(key: string, response: AxiosResponse): Promise<void> {
+    const etag = response.headers.etag;
+    const lastModified = response.headers["last-modified"];
+    if (!this.cache || response.status !== 200 || (!etag && !lastModified)) {
+      return;
+    }
+
+    await this.cache.set(key, {
+      status: response.status,
+      data: response.data,
+      etag,
+      lastModified,
+      link: response.headers.link,
+      storedAt: Date.now(),
+    });
+  }
+
+  private fromCache<T>(cached: CachedResponse, config: AxiosRequestConfig): AxiosResponse<T> {
+    return {
+      data: cached.data as T,
+      status: cached.status,
+      statusText: "OK",
+      headers: cached.link ? { link: cached.link } : {},
+      config: config as AxiosResponse["config"],
+    };
+  }
+
+  // Record the quota an error response reports and turn rate limit errors into RateLimitErrors
+  private toRateLimitError(error: unknown): unknown {
+    if (axios.isAxiosError(error) && error.response) {
+      this.updateRateLimit(error.response.headers);
+      const resetAt = this.getLimitedUntil(error.response);
+      if (resetAt) {
+        return new RateLimitError(resetAt);
+      }
+    }
+    return error;
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    if (!this.rateLimit || this.rateLimit.remaining > 0) {
+      return;
+    }
+
+    const waitMs = this.rateLimit.resetAt.getTime() - Date.now();
+    if (waitMs <= 0) {
+      return;
+    }
+    if (waitMs > this.maxWaitMs) {
+      throw new RateLimitError(this.rateLimit.resetAt);
+    }
+
+    await sleep(waitMs);
+  }
+
+  // GitHub sends X-RateLimit-* headers, GitLab RateLimit-* ones
+  private updateRateLimit(headers: Record<string, any>): void {
+    const remaining = headers["x-ratelimit-remaining"] ?? headers["ratelimit-remaining"];
+    const reset = headers["x-ratelimit-reset"] ?? headers["ratelimit-reset"];
+    if (remaining === undefined || reset === undefined) {
+      return;
+    }
+
+    this.rateLimit = {
+      limit: Number(headers["x-ratelimit-limit"] ?? headers["ratelimit-limit"]),
+      remaining: Number(remaining),
+      resetAt: new Date(Number(reset) * 1000),
+    };
+  }
+
+  // Primary limits answer 403/429 with no remaining quota; secondary limits send Retry-After
+  private getLimitedUntil(response: AxiosResponse): Date | null {
+    if (response.status !== 403 && response.status !== 429) {
+      return null;
+    }
+
+    const retryAfter = response.headers["retry-after"];
+    if (retryAfter !== undefined) {
+      return new Date(Date.now() + Number(retryAfter) * 1000);
+    }
+    const remaining = response.headers["x-ratelimit-remaining"] ?? response.headers["ratelimit-remaining"];
+    if (remaining === "0" && this.rateLimit) {
+      return this.rateLimit.resetAt;
+    }
+    return null;
+  }
+}
+
+// A repository together with the client for the host it lives on
+export interface RepoTarget {
+  client: GitHubClient;
+  owner: string;
+  repo: string;
+}
@@ -0,0 +1,291 @@
+import axios from "axios";
+import type { ReleaseAnalysis } from "@shared/schema";
+import { type GitHubClient, RateLimitError } from "./github";
+import type { RepositoryFiles, TreeEntry } from "./git-tree";
+import { type CommitActivityAnalysis, analyzeCommitDates } from "./commit-activity";
+import { type CodeFrequencyAnalysis, type CommitChanges, analyzeCommitChanges } from "./code-frequency";
+import { type CommitAuthor, type ContributorAnalysis, type ContributorOptions, analyzeCommitAuthors, historyStartOf } from "./contributors";
+import {
+  DEFAULT_ISSUES_WINDOW_DAYS,
+  MAX_ISSUE_PAGES,
+  type IssueItem,
+  type IssuesHealth,
+  type IssuesHealthOptions,
+  analyzeIssueItems,
+} from "./issues-health";
+import type { HostCommunityProfile } from "./community";
+import { type FileChanges, countFileChanges, hotspotWindowStart } from "./hotspots";
+import { MAX_RELEASE_PAGES, type ReleaseEntry, analyzeReleases, sortVersionTags } from "./releases";
+import type { NamedRef, RepositoryRefs } from "./refs";
+import type { DirectoryEntry, RepositoryMetadata, RepositoryProvider } from "./providers";
+import { openWorkspaceFiles } from "./workspace";
+
+// Page caps for refs, directory listings, the recursive tree and the commit history
+const MAX_REF_PAGES = 5;
+const MAX_DIRECTORY_PAGES = 10;
+const MAX_TREE_PAGES = 100;
+const MAX_HISTORY_PAGES = 20;
+// Entries a page of getAllPages holds
+const PAGE_SIZE = 100;
+
+const HISTORY_DAYS = 365;
+
+// A project on GitLab.com or a self-managed GitLab. GitLab has no commit
+// statistics endpoints, so activity and contributors come from the commit history.
+export class GitLabProvider implements RepositoryProvider {
+  readonly host: string;
+  readonly owner: string;
+  readonly repo: string;
+  private client: GitHubClient;
+  // Projects are addressed by their URL-encoded path, subgroups included
+  private projectPath: string;
+  private history?: Promise<(CommitAuthor & CommitChanges)[]>;
+
+  constructor(host: string, client: GitHubClient, owner: string, repo: string) {
+    this.host = host;
+    this.owner = owner;
+    this.repo = repo;
+    this.client = client;
+    this.projectPath = `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  async getMetadata(): Promise<RepositoryMetadata> {
+    const { data } = await this.client.get(this.projectPath);
+    // Namespace avatars may be paths on the instance
+    const avatar: string | null = data.avatar_url ?? data.namespace?.avatar_url ?? null;
+    return {
+      id: data.id,
+      fullName: data.path_with_namespace,
+      description: data.description,
+      ownerAvatar: avatar && avatar.startsWith("/") ? `https://${this.host}${avatar}` : avatar,
+      stars: data.star_count,
+      forks: data.forks_count,
+      // Left out of the response when the project has issues turned off
+      openIssues: data.open_issues_count ?? null,
+      language: null,
+      createdAt: data.created_at,
+      updatedAt: data.last_activity_at,
+      defaultBranch: data.default_branch,
+    };
+  }
+
+  // Percentages of the default branch, which work as weights like GitHub's byte counts
+  async getLanguages(_ref: string): Promise<Record<string, number>> {
+    const response = await this.client.get(`${this.projectPath}/languages`);
+    return response.data;
+  }
+
+  async resolveCommitSha(ref: string): Promise<string | null> {
+    try {
+      const response = await this.client.get(`${this.projectPath}/repository/commits/${encodeURIComponent(ref)}`);
+      return response.data.id;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listRefs(): Promise<RepositoryRefs> {
+    const [metadata, branches, tags] = await Promise.all([
+      this.getMetadata(),
+      this.client.getAllPages(`${this.projectPath}/repository/branches`, {}, MAX_REF_PAGES),
+      this.client.getAllPages(`${this.projectPath}/repository/tags`, {}, MAX_REF_PAGES),
+    ]);
+
+    const toNamedRef = (entry: any): NamedRef => ({ name: entry.name, sha: entry.commit.id });
+    return {
+      defaultBranch: metadata.defaultBranch,
+      branches: branches.map(toNamedRef),
+      tags: tags.map(toNamedRef),
+    };
+  }
+
+  openFiles(ref: string): Promise<RepositoryFiles> {
+    return openWorkspaceFiles(
+      {
+        client: this.client,
+        key: `${this.owner}/${this.repo}@${ref}`,
+        archivePath: `${this.projectPath}/repository/archive.tar.gz?sha=${encodeURIComponent(ref)}`,
+        readMissing: entry => this.readFileAt(entry.path, ref),
+      },
+      async () => {
+        const entries = await this.client.getAllPages(
+          `${this.projectPath}/repository/tree`,
+          { ref, recursive: "true" },
+          MAX_TREE_PAGES
+        );
+        const tree: TreeEntry[] = entries.map(entry => ({ path: entry.path, type: entry.type, sha: entry.id }));
+        // A full last page means the listing was cut off at the page cap
+        return {
+          tree,
+          truncated: entries.length >= MAX_TREE_PAGES * PAGE_SIZE,
+          readFile: entry => this.readBlob(entry.sha),
+        };
+      }
+    );
+  }
+
+  async listDirectory(path: string, ref: string): Promise<DirectoryEntry[]> {
+    const entries = await this.client.getAllPages(
+      `${this.projectPath}/repository/tree`,
+      path ? { ref, path } : { ref },
+      MAX_DIRECTORY_PAGES
+    );
+    return entries.map(entry => ({
+      name: entry.name,
+      path: entry.path,
+      type: entry.type === "tree" ? "dir" : "file",
+    }));
+  }
+
+  async getCommitActivity(_retries?: number): Promise<CommitActivityAnalysis> {
+    const commits = await this.getHistory();
+    return analyzeCommitDates(commits.map(commit => commit.timestamp));
+  }
+
+  async getCodeFrequency(_retries?: number): Promise<CodeFrequencyAnalysis> {
+    return analyzeCommitChanges(await this.getHistory());
+  }
+
+  async getContributors(options: ContributorOptions = {}): Promise<ContributorAnalysis> {
+    // The history goes back a year, or less when the page cap cut it short
+    const history = await this.getHistory();
+    const since = Math.floor((Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000) / 1000);
+    const historyStart = historyStartOf(history, history.length >= MAX_HISTORY_PAGES * PAGE_SIZE, since);
+    return analyzeCommitAuthors(history, options.windowDays, historyStart);
+  }
+
+  // Issues and merge requests that are open or were updated in the window.
+  // Response times would take a notes request per item, so they're left out.
+  async getIssuesHealth(options: IssuesHealthOptions = {}): Promise<IssuesHealth> {
+    const windowDays = options.windowDays ?? DEFAULT_ISSUES_WINDOW_DAYS;
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const lists = await Promise.all([
+      this.client.getAllPages(`${this.projectPath}/issues`, { state: "opened" }, MAX_ISSUE_PAGES),
+      this.client.getAllPages(`${this.projectPath}/issues`, { state: "closed", updated_after: since }, MAX_ISSUE_PAGES),
+      this.client.getAllPages(`${this.projectPath}/merge_requests`, { state: "opened" }, MAX_ISSUE_PAGES),
+      this.client.getAllPages(`${this.projectPath}/merge_requests`, { state: "merged", updated_after: since }, MAX_ISSUE_PAGES),
+      this.client.getAllPages(`${this.projectPath}/merge_requests`, { state: "closed", updated_after: since }, MAX_ISSUE_PAGES),
+    ]);
+    const [openIssues, closedIssues, ...mergeRequests] = lists;
+
+    const toItem = (kind: IssueItem["kind"]) => (entry: any): IssueItem => ({
+      kind,
+      author: entry.author?.username ?? null,
+      state: entry.state === "opened" ? "open" : "closed",
+      createdAt: entry.created_at,
+      // Merged merge requests have no closed_at
+      closedAt: entry.closed_at ?? entry.merged_at ?? null,
+      mergedAt: entry.merged_at ?? null,
+      labels: entry.labels || [],
+      firstResponseAt: null,
+    });
+
+    return analyzeIssueItems(
+      [...openIssues, ...closedIssues].map(toItem("issue")).concat(mergeRequests.flat().map(toItem("pull"))),
+      {
+        windowDays,
+        hasResponses: false,
+        truncated: lists.some(list => list.length >= MAX_ISSUE_PAGES * PAGE_SIZE),
+      }
+    );
+  }
+
+  // Releases of the project, or its version tags when it publishes none
+  async getReleases(ref: string | null): Promise<ReleaseAnalysis> {
+    const releases = (await this.client.getAllPages(`${this.projectPath}/releases`, {}, MAX_RELEASE_PAGES))
+      .filter(release => !release.upcoming_release);
+
+    let entries: ReleaseEntry[];
+    if (releases.length > 0) {
+      entries = releases.map(release => ({
+        tag: release.tag_name,
+        name: release.name,
+        date: release.released_at ?? release.created_at,
+      }));
+    } else {
+      const tags = sortVersionTags(
+        await this.client.getAllPages(`${this.projectPath}/repository/tags`, {}, MAX_RELEASE_PAGES)
+      );
+      // Lightweight tags have no date of their own
+      entries = tags.map(tag => ({ tag: tag.name, date: tag.created_at ?? tag.commit.committed_date }));
+    }
+
+    const analysis = analyzeReleases(entries, {
+      source: releases.length > 0 ? "releases" : entries.length > 0 ? "tags" : "none",
+      unreleasedCommits: null,
+    });
+    if (analysis.latestTag && ref) {
+      analysis.unreleasedCommits = await this.countCommitsSince(analysis.latestTag, ref);
+    }
+    return analysis;
+  }
+
+  getFileChanges(paths: string[], ref: string, windowDays: number): Promise<FileChanges> {
+    const since = hotspotWindowStart(windowDays);
+    return countFileChanges(paths, async path => {
+      const commits = await this.client.getAllPages(
+        `${this.projectPath}/repository/commits`,
+        { ref_name: ref, path, since },
+        1
+      );
+      return commits.length;
+    });
+  }
+
+  // GitLab has no community profile, so the checks come from the files alone
+  async getCommunityProfile(): Promise<HostCommunityProfile | null> {
+    return null;
+  }
+
+  // Commits on a ref after a tag, or null when they can't be compared
+  private async countCommitsSince(tag: string, ref: string): Promise<number | null> {
+    try {
+      const response = await this.client.get(`${this.projectPath}/repository/compare`, {
+        params: { from: tag, to: ref }
+      });
+      return Array.isArray(response.data.commits) ? response.data.commits.length : null;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      console.error(`Error comparing ${tag} with ${ref}:`, error);
+      return null;
+    }
+  }
+
+  // Blobs come base64-encoded like GitHub's
+  private async readBlob(sha: string): Promise<string> {
+    const response = await this.client.get(`${this.projectPath}/repository/blobs/${sha}`);
+    return Buffer.from(response.data.content, response.data.encoding === "base64" ? "base64" : "utf-8").toString("utf-8");
+  }
+
+  // Files by path, for those a workspace skipped for their size
+  private async readFileAt(path: string, ref: string): Promise<string> {
+    const response = await this.client.get(`${this.projectPath}/repository/files/${encodeURIComponent(path)}`, {
+      params: { ref }
+    });
+    return Buffer.from(response.data.content, "base64").toString("utf-8");
+  }
+
+  // Commits on the default branch over the last year with their line counts,
+  // shared by activity, code frequency and contributors
+  private getHistory(): Promise<(CommitAuthor & CommitChanges)[]> {
+    if (!this.history) {
+      const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+      this.history = this.client
+        .getAllPages(`${this.projectPath}/repository/commits`, { since: since.toISOString(), with_stats: "true" }, MAX_HISTORY_PAGES)
+        .then(commits => commits.map(commit => ({
+          timestamp: Math.floor(new Date(commit.authored_date).getTime() / 1000),
+          name: commit.author_name,
+          email: commit.author_email,
+          additions: commit.stats?.additions ?? 0,
+          deletions: commit.stats?.deletions ?? 0,
+        })));
+    }
+    return this.history;
+  }
+}
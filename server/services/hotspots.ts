@@ -0,0 +1,106 @@
+import type { ComplexFile, HotspotAnalysis } from "@shared/schema";
+import { type RepoTarget, RateLimitError } from "./github";
+import { mapWithConcurrency } from "./git-tree";
+
+// Default window for counting changes to a file
+export const DEFAULT_HOTSPOT_WINDOW_DAYS = Number(process.env.HOTSPOT_WINDOW_DAYS) || 180;
+
+// The most complex analyzed files have their history read, one request each
+export const MAX_HOTSPOT_FILES = 30;
+// Commits listed per file; a file with more is counted at the cap
+export const MAX_FILE_COMMITS = 100;
+const FETCH_CONCURRENCY = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Commits per file path in the window
+export interface FileChanges {
+  counts: Record<string, number>;
+  truncated: boolean;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Start of the window as an ISO date
+export function hotspotWindowStart(windowDays: number, now = Date.now()): string {
+  return new Date(now - windowDays * DAY_MS).toISOString();
+}
+
+// Count the commits of each path with a host-specific lookup. A failed lookup
+// leaves the path out rather than reporting it as unchanged.
+export async function countFileChanges(
+  paths: string[],
+  countCommits: (path: string) => Promise<number>
+): Promise<FileChanges> {
+  const counts: Record<string, number> = {};
+  let truncated = false;
+
+  await mapWithConcurrency(paths, FETCH_CONCURRENCY, async path => {
+    try {
+      const count = await countCommits(path);
+      counts[path] = Math.min(count, MAX_FILE_COMMITS);
+      truncated ||= count >= MAX_FILE_COMMITS;
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error counting changes to ${path}:`, err);
+    }
+  });
+
+  return { counts, truncated };
+}
+
+// Files that are both complex and changed often. Each file's score is its
+// changes times its cyclomatic complexity, scaled against the highest of each,
+// and files at or above the median of both are flagged as hotspots. Stored
+// hotspots can be passed back in to recount them over another window.
+export function analyzeHotspots(
+  files: Pick<ComplexFile, "path" | "language" | "cyclomatic" | "level">[],
+  changes: FileChanges,
+  windowDays: number
+): HotspotAnalysis {
+  const measured = files.filter(file => changes.counts[file.path] !== undefined);
+  const maxChanges = Math.max(1, ...measured.map(file => changes.counts[file.path]));
+  const maxCyclomatic = Math.max(1, ...measured.map(file => file.cyclomatic));
+  const medianChanges = median(measured.map(file => changes.counts[file.path]).filter(count => count > 0));
+  const medianCyclomatic = median(measured.map(file => file.cyclomatic));
+
+  const hotspots = measured
+    .map(file => {
+      const count = changes.counts[file.path];
+      return {
+        path: file.path,
+        language: file.language,
+        changes: count,
+        cyclomatic: file.cyclomatic,
+        level: file.level,
+        score: Math.round((count / maxChanges) * (file.cyclomatic / maxCyclomatic) * 100),
+        hotspot: count > 0 && count >= medianChanges && file.cyclomatic >= medianCyclomatic,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.changes - a.changes || a.path.localeCompare(b.path));
+
+  return { windowDays, files: hotspots, truncated: changes.truncated };
+}
+
+// Commits on a ref that touched each path, from GitHub's commit listing
+export function countGitHubFileChanges(
+  { client, owner, repo }: RepoTarget,
+  paths: string[],
+  ref: string,
+  windowDays: number
+): Promise<FileChanges> {
+  const since = hotspotWindowStart(windowDays);
+  return countFileChanges(paths, async path => {
+    const commits = await client.getAllPages(`/repos/${owner}/${repo}/commits`, { sha: ref, path, since }, 1);
+    return commits.length;
+  });
+}
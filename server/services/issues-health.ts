@@ -0,0 +1,239 @@
+import type { RepoTarget } from "./github";
+import { isBotAccount } from "./contributors";
+
+// Default window for closed items and response times
+export const DEFAULT_ISSUES_WINDOW_DAYS = Number(process.env.ISSUES_HEALTH_WINDOW_DAYS) || 180;
+
+// Page caps for open items, recently closed items and recent comments
+export const MAX_ISSUE_PAGES = 10;
+const MAX_COMMENT_PAGES = 10;
+// Entries a page of getAllPages holds
+export const PAGE_SIZE = 100;
+
+// Labels listed, those on the most items first
+const MAX_LABELS = 15;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Ages of open items, each bucket up to its upper bound in days
+const AGE_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: "< 1 week", maxDays: 7 },
+  { label: "1-4 weeks", maxDays: 30 },
+  { label: "1-3 months", maxDays: 90 },
+  { label: "3-12 months", maxDays: 365 },
+  { label: "> 1 year", maxDays: Infinity },
+];
+
+export interface IssuesHealthOptions {
+  windowDays?: number;
+}
+
+// An issue or pull request in the same shape for every host
+export interface IssueItem {
+  kind: "issue" | "pull";
+  author: string | null;
+  state: "open" | "closed";
+  createdAt: string;
+  closedAt: string | null;
+  // Pull requests only; null when closed without merging
+  mergedAt: string | null;
+  labels: string[];
+  // First comment by someone other than the author and bots
+  firstResponseAt: string | null;
+  // False when comment caps cut off the item's comments, leaving it out of response stats
+  responseKnown?: boolean;
+}
+
+export interface ItemHealth {
+  open: number;
+  // Closed or merged within the window
+  closed: number;
+  merged: number;
+  // Null when nothing in the window has one, or the host doesn't report responses
+  medianFirstResponseHours: number | null;
+  // Time to close for issues and to merge for pull requests
+  medianResolutionHours: number | null;
+  // Opened in the window with no response yet; null when the host doesn't report responses
+  unanswered: number | null;
+}
+
+export interface AgeBucket {
+  label: string;
+  issues: number;
+  pullRequests: number;
+}
+
+export interface LabelCount {
+  name: string;
+  open: number;
+  closed: number;
+}
+
+export interface IssuesHealth {
+  windowDays: number;
+  issues: ItemHealth;
+  pullRequests: ItemHealth;
+  openAges: AgeBucket[];
+  labels: LabelCount[];
+  // Page caps cut the listings short, so counts are lower bounds
+  truncated: boolean;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  return Math.round(value * 10) / 10;
+}
+
+function hoursBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+}
+
+function summarizeItems(items: IssueItem[], kind: IssueItem["kind"], since: number, hasResponses: boolean): ItemHealth {
+  const open = items.filter(item => item.state === "open");
+  const closed = items.filter(item => item.closedAt && new Date(item.closedAt).getTime() >= since);
+  const merged = closed.filter(item => item.mergedAt);
+  const opened = items.filter(item => new Date(item.createdAt).getTime() >= since);
+  const responded = opened.filter(item => item.responseKnown !== false);
+
+  // Pull requests are resolved by merging; closing one unmerged isn't a resolution
+  const resolved = kind === "pull"
+    ? merged.map(item => hoursBetween(item.createdAt, item.mergedAt!))
+    : closed.map(item => hoursBetween(item.createdAt, item.closedAt!));
+
+  return {
+    open: open.length,
+    closed: closed.length,
+    merged: merged.length,
+    medianFirstResponseHours: hasResponses
+      ? median(responded.filter(item => item.firstResponseAt).map(item => hoursBetween(item.createdAt, item.firstResponseAt!)))
+      : null,
+    medianResolutionHours: median(resolved),
+    unanswered: hasResponses
+      ? responded.filter(item => item.state === "open" && !item.firstResponseAt).length
+      : null,
+  };
+}
+
+// Open/closed counts, response and resolution times, ages of open items and
+// label counts from a repository's open items and those closed in the window
+export function analyzeIssueItems(
+  items: IssueItem[],
+  options: { windowDays: number; hasResponses: boolean; truncated: boolean; now?: number }
+): IssuesHealth {
+  const now = options.now ?? Date.now();
+  const since = now - options.windowDays * DAY_MS;
+
+  const issues = items.filter(item => item.kind === "issue");
+  const pullRequests = items.filter(item => item.kind === "pull");
+
+  const openAges = AGE_BUCKETS.map(bucket => ({ label: bucket.label, issues: 0, pullRequests: 0 }));
+  for (const item of items.filter(item => item.state === "open")) {
+    const ageDays = (now - new Date(item.createdAt).getTime()) / DAY_MS;
+    const bucket = openAges[AGE_BUCKETS.findIndex(bucket => ageDays < bucket.maxDays)];
+    if (item.kind === "issue") {
+      bucket.issues++;
+    } else {
+      bucket.pullRequests++;
+    }
+  }
+
+  // Labels of open items and those closed in the window
+  const labelCounts = new Map<string, LabelCount>();
+  for (const item of items) {
+    const current = item.state === "open";
+    if (!current && !(item.closedAt && new Date(item.closedAt).getTime() >= since)) {
+      continue;
+    }
+    for (const name of item.labels) {
+      const count = labelCounts.get(name) ?? { name, open: 0, closed: 0 };
+      if (current) {
+        count.open++;
+      } else {
+        count.closed++;
+      }
+      labelCounts.set(name, count);
+    }
+  }
+  const labels = Array.from(labelCounts.values())
+    .sort((a, b) => (b.open + b.closed) - (a.open + a.closed) || a.name.localeCompare(b.name))
+    .slice(0, MAX_LABELS);
+
+  return {
+    windowDays: options.windowDays,
+    issues: summarizeItems(issues, "issue", since, options.hasResponses),
+    pullRequests: summarizeItems(pullRequests, "pull", since, options.hasResponses),
+    openAges,
+    labels,
+    truncated: options.truncated,
+  };
+}
+
+// Issue health of a GitHub repository. The issues API lists pull requests too,
+// with their merge dates, and first responses come from the repository's issue
+// comments; review comments on pull requests aren't counted as responses.
+export async function analyzeIssuesHealth(
+  { client, owner, repo }: RepoTarget,
+  options: IssuesHealthOptions = {}
+): Promise<IssuesHealth> {
+  const windowDays = options.windowDays ?? DEFAULT_ISSUES_WINDOW_DAYS;
+  const since = new Date(Date.now() - windowDays * DAY_MS).toISOString();
+
+  const [open, closed, comments] = await Promise.all([
+    client.getAllPages(`/repos/${owner}/${repo}/issues`, { state: "open" }, MAX_ISSUE_PAGES),
+    // "since" filters by update time, which is never before closing
+    client.getAllPages(`/repos/${owner}/${repo}/issues`, { state: "closed", since }, MAX_ISSUE_PAGES),
+    // Newest first, so the page cap drops comments on the oldest items
+    client.getAllPages(
+      `/repos/${owner}/${repo}/issues/comments`,
+      { since, sort: "created", direction: "desc" },
+      MAX_COMMENT_PAGES
+    ),
+  ]);
+
+  // Past the cap, only items opened after the oldest comment read have all their comments
+  const commentsTruncated = comments.length >= MAX_COMMENT_PAGES * PAGE_SIZE;
+  const commentsFrom = commentsTruncated ? new Date(comments[comments.length - 1].created_at).getTime() : 0;
+
+  const authors = new Map<number, string | undefined>();
+  for (const issue of [...open, ...closed]) {
+    authors.set(issue.number, issue.user?.login);
+  }
+
+  // Read oldest first, so the first match per item is its first response
+  const firstResponses = new Map<number, string>();
+  for (const comment of [...comments].reverse()) {
+    const number = Number(String(comment.issue_url).split("/").pop());
+    const login = comment.user?.login;
+    if (firstResponses.has(number) || !authors.has(number) || login === authors.get(number) ||
+        isBotAccount(login, comment.user?.type)) {
+      continue;
+    }
+    firstResponses.set(number, comment.created_at);
+  }
+
+  const items: IssueItem[] = [...open, ...closed].map(issue => ({
+    kind: issue.pull_request ? "pull" : "issue",
+    author: issue.user?.login ?? null,
+    state: issue.state === "open" ? "open" : "closed",
+    createdAt: issue.created_at,
+    closedAt: issue.closed_at,
+    mergedAt: issue.pull_request?.merged_at ?? null,
+    labels: (issue.labels || []).map((label: any) => typeof label === "string" ? label : label.name),
+    firstResponseAt: firstResponses.get(issue.number) ?? null,
+    responseKnown: new Date(issue.created_at).getTime() >= commentsFrom,
+  }));
+
+  return analyzeIssueItems(items, {
+    windowDays,
+    hasResponses: true,
+    truncated: open.length >= MAX_ISSUE_PAGES * PAGE_SIZE ||
+      closed.length >= MAX_ISSUE_PAGES * PAGE_SIZE ||
+      commentsTruncated,
+  });
+}
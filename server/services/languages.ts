@@ -0,0 +1,92 @@
+import type { TreeEntry } from "./git-tree";
+import { isIgnoredPath } from "./git-tree";
+
+export interface LanguageShare {
+  name: string;
+  percentage: number;
+  color: string;
+}
+
+const LANGUAGE_COLORS: Record<string, string> = {
+  JavaScript: "#f1e05a",
+  TypeScript: "#3178c6",
+  HTML: "#e34c26",
+  CSS: "#563d7c",
+  Python: "#3572A5",
+  Java: "#b07219",
+  Go: "#00ADD8",
+  Rust: "#dea584",
+  C: "#555555",
+  "C++": "#f34b7d",
+  "C#": "#178600"
+};
+
+// Extension to language, for repositories GitHub hasn't classified for us
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: "JavaScript", jsx: "JavaScript", mjs: "JavaScript", cjs: "JavaScript",
+  ts: "TypeScript", tsx: "TypeScript", mts: "TypeScript", cts: "TypeScript",
+  html: "HTML", htm: "HTML",
+  css: "CSS", scss: "SCSS", sass: "Sass", less: "Less",
+  py: "Python", pyi: "Python",
+  java: "Java",
+  kt: "Kotlin", kts: "Kotlin",
+  go: "Go",
+  rs: "Rust",
+  c: "C", h: "C",
+  cc: "C++", cpp: "C++", cxx: "C++", hpp: "C++", hh: "C++", hxx: "C++",
+  cs: "C#",
+  rb: "Ruby",
+  php: "PHP",
+  swift: "Swift",
+  m: "Objective-C", mm: "Objective-C++",
+  scala: "Scala",
+  dart: "Dart",
+  lua: "Lua",
+  r: "R",
+  pl: "Perl", pm: "Perl",
+  sh: "Shell", bash: "Shell", zsh: "Shell",
+  ps1: "PowerShell",
+  sql: "SQL",
+  vue: "Vue",
+  svelte: "Svelte",
+  ex: "Elixir", exs: "Elixir",
+  erl: "Erlang",
+  hs: "Haskell",
+  clj: "Clojure", cljs: "Clojure",
+  fs: "F#",
+  groovy: "Groovy",
+};
+
+export function languageForPath(path: string): string | null {
+  const extension = path.includes(".") ? path.slice(path.lastIndexOf(".") + 1).toLowerCase() : "";
+  return EXTENSION_LANGUAGES[extension] ?? null;
+}
+
+// Bytes of code per language, in the shape of GitHub's languages endpoint
+export function countLanguageBytes(tree: TreeEntry[]): Record<string, number> {
+  const bytes: Record<string, number> = {};
+  for (const entry of tree) {
+    const language = entry.type === "blob" && !isIgnoredPath(entry.path) ? languageForPath(entry.path) : null;
+    if (language) {
+      bytes[language] = (bytes[language] || 0) + (entry.size ?? 0);
+    }
+  }
+  return bytes;
+}
+
+// Share of each language in a repository, with its chart color
+export function toLanguageShares(bytesByLanguage: Record<string, number>): LanguageShare[] {
+  const totalBytes = Object.values(bytesByLanguage).reduce((sum, bytes) => sum + bytes, 0);
+
+  return Object.entries(bytesByLanguage).map(([name, bytes]) => ({
+    name,
+    percentage: (bytes / (totalBytes || 1)) * 100,
+    color: LANGUAGE_COLORS[name] || "#808080"
+  }));
+}
+
+// Language with the most code, like GitHub's primary language
+export function primaryLanguage(bytesByLanguage: Record<string, number>): string | null {
+  const [top] = Object.entries(bytesByLanguage).sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : null;
+}
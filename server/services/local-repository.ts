@@ -0,0 +1,423 @@
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { promisify } from "util";
+import { type RepositoryFiles, type TreeEntry, isIgnoredPath } from "./git-tree";
+import type { CommitAuthor } from "./contributors";
+import type { CommitChanges } from "./code-frequency";
+import { type FileChanges, hotspotWindowStart } from "./hotspots";
+import { MAX_EXTRACTED_BYTES, MAX_FILES, extractTarball } from "./workspace";
+
+const execFileAsync = promisify(execFile);
+
+// Directories local paths may be analyzed from, separated like PATH. Unset
+// disables local paths so a deployed server can't be made to read its own disk,
+// and uploads so it can't be made to fill it.
+const LOCAL_ROOTS = (process.env.LOCAL_REPOSITORY_ROOTS || "")
+  .split(path.delimiter)
+  .filter(Boolean)
+  .map(root => path.resolve(root));
+
+const MAX_LOCAL_FILES = 50_000;
+// Local repositories kept for follow-up requests, and how long an unused one
+// is kept; uploads are removed from disk when they go
+const MAX_REGISTERED_REPOSITORIES = Number(process.env.LOCAL_REPOSITORY_MAX_KEPT) || 10;
+const REGISTERED_TTL_MS = Number(process.env.LOCAL_REPOSITORY_TTL_MS) || 30 * 60 * 1000;
+// Commits read from git log for activity and contributors
+export const MAX_LOG_COMMITS = 20_000;
+
+// Thrown for local paths and uploads that can't be analyzed
+export class LocalRepositoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LocalRepositoryError";
+  }
+}
+
+export interface GitCommit extends CommitAuthor, CommitChanges {
+  sha: string;
+}
+
+// A repository on the server's disk: a local directory, an extracted tarball
+// or a clone of an uploaded git bundle
+export class LocalRepository implements RepositoryFiles {
+  // Stable identifier of the path or upload the repository came from
+  readonly key: string;
+  readonly name: string;
+  readonly directory: string;
+  readonly tree: TreeEntry[];
+  // Null for directories that aren't git repositories
+  readonly ref: string | null;
+  readonly commitSha: string | null;
+  // Temporary directory an upload was unpacked into, removed with the repository
+  private cleanupDirectory: string | null;
+
+  constructor(options: {
+    key: string;
+    name: string;
+    directory: string;
+    tree: TreeEntry[];
+    ref: string | null;
+    commitSha: string | null;
+    cleanupDirectory: string | null;
+  }) {
+    this.key = options.key;
+    this.name = options.name;
+    this.directory = options.directory;
+    this.tree = options.tree;
+    this.ref = options.ref;
+    this.commitSha = options.commitSha;
+    this.cleanupDirectory = options.cleanupDirectory;
+  }
+
+  async readFile(entry: TreeEntry): Promise<string> {
+    return fs.readFile(path.join(this.directory, entry.path), "utf-8");
+  }
+
+  isOnDisk(_entry: TreeEntry): boolean {
+    return true;
+  }
+
+  // Direct children of a directory, "" being the repository root
+  listDirectory(dir: string): TreeEntry[] {
+    const prefix = dir ? `${dir.replace(/\/$/, "")}/` : "";
+    return this.tree.filter(entry => entry.path.startsWith(prefix) && !entry.path.slice(prefix.length).includes("/"));
+  }
+
+  async dispose(): Promise<void> {
+    if (this.cleanupDirectory) {
+      await fs.rm(this.cleanupDirectory, { recursive: true, force: true });
+    }
+  }
+}
+
+// Run git in a directory; null when it fails, e.g. outside a git repository
+async function git(directory: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", ["-c", "safe.directory=*", ...args], {
+      cwd: directory,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+// Files tracked by git, or every file outside vendored and generated
+// directories when the directory isn't a git repository
+async function listFiles(directory: string, isGitRepository: boolean): Promise<string[]> {
+  if (isGitRepository) {
+    const output = await git(directory, ["ls-files", "-z"]);
+    if (output !== null) {
+      return output.split("\0").filter(Boolean);
+    }
+  }
+
+  const files: string[] = [];
+  const walk = async (relative: string) => {
+    const entries = await fs.readdir(path.join(directory, relative), { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (entry.name !== ".git" && !isIgnoredPath(`${entryPath}/`)) {
+          await walk(entryPath);
+        }
+      } else if (entry.isFile()) {
+        if (files.length >= MAX_LOCAL_FILES) {
+          throw new LocalRepositoryError(`Repository has more than ${MAX_LOCAL_FILES} files`);
+        }
+        files.push(entryPath);
+      }
+    }
+  };
+  await walk("");
+  return files;
+}
+
+async function buildTree(directory: string, files: string[]): Promise<TreeEntry[]> {
+  if (files.length > MAX_LOCAL_FILES) {
+    throw new LocalRepositoryError(`Repository has more than ${MAX_LOCAL_FILES} files`);
+  }
+
+  const entries = new Map<string, TreeEntry>();
+  for (const file of files) {
+    let size: number;
+    try {
+      const stat = await fs.lstat(path.join(directory, file));
+      // Symlinks and files deleted from the working tree have nothing to read
+      if (!stat.isFile()) {
+        continue;
+      }
+      size = stat.size;
+    } catch {
+      continue;
+    }
+
+    const segments = file.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      const dir = segments.slice(0, depth).join("/");
+      if (!entries.has(dir)) {
+        entries.set(dir, { path: dir, type: "tree", sha: "" });
+      }
+    }
+    entries.set(file, { path: file, type: "blob", sha: "", size });
+  }
+  return Array.from(entries.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function loadRepository(
+  directory: string,
+  key: string,
+  name: string,
+  cleanupDirectory: string | null
+): Promise<LocalRepository> {
+  const head = await git(directory, ["rev-parse", "HEAD"]);
+  const commitSha = head ? head.trim() : null;
+  const branch = commitSha ? (await git(directory, ["rev-parse", "--abbrev-ref", "HEAD"]))?.trim() : null;
+
+  const tree = await buildTree(directory, await listFiles(directory, commitSha !== null));
+  return new LocalRepository({
+    key,
+    name,
+    directory,
+    tree,
+    // A detached HEAD has no branch name to show
+    ref: branch && branch !== "HEAD" ? branch : commitSha,
+    commitSha,
+    cleanupDirectory,
+  });
+}
+
+function hashKey(value: string | Buffer): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 12);
+}
+
+// Open a directory on the server's disk, which must be inside LOCAL_REPOSITORY_ROOTS
+export async function openLocalDirectory(inputPath: string): Promise<LocalRepository> {
+  if (LOCAL_ROOTS.length === 0) {
+    throw new LocalRepositoryError("Analyzing local paths is disabled; set LOCAL_REPOSITORY_ROOTS to allow it");
+  }
+
+  let directory: string;
+  try {
+    directory = await fs.realpath(path.resolve(inputPath));
+    if (!(await fs.stat(directory)).isDirectory()) {
+      throw new LocalRepositoryError(`${inputPath} is not a directory`);
+    }
+  } catch (err) {
+    if (err instanceof LocalRepositoryError) {
+      throw err;
+    }
+    throw new LocalRepositoryError(`${inputPath} does not exist`);
+  }
+
+  const allowed = LOCAL_ROOTS.some(root => {
+    const relative = path.relative(root, directory);
+    return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+  });
+  if (!allowed) {
+    throw new LocalRepositoryError(`${inputPath} is not inside an allowed local repository root`);
+  }
+
+  return loadRepository(directory, hashKey(directory), path.basename(directory), null);
+}
+
+// Clone a bundle without checking it out, then check out only when its files
+// fit the same limits as extracted tarballs
+async function cloneBundle(fileName: string, bundlePath: string, workspace: string, directory: string): Promise<void> {
+  if (await git(workspace, ["clone", "--quiet", "--no-checkout", bundlePath, directory]) === null) {
+    throw new LocalRepositoryError(`${fileName} is not a valid git bundle`);
+  }
+
+  // "<mode> <type> <sha> <size>\t<path>" per file; bundles without a HEAD have none
+  const listing = await git(directory, ["ls-tree", "-r", "-l", "-z", "HEAD"]);
+  if (listing === null) {
+    return;
+  }
+  let files = 0;
+  let bytes = 0;
+  for (const line of listing.split("\0").filter(Boolean)) {
+    const [, type, , size] = line.split("\t")[0].split(/\s+/);
+    if (type !== "blob") {
+      continue;
+    }
+    if (++files > MAX_FILES) {
+      throw new LocalRepositoryError(`${fileName} has more than ${MAX_FILES} files`);
+    }
+    bytes += Number(size) || 0;
+    if (bytes > MAX_EXTRACTED_BYTES) {
+      throw new LocalRepositoryError(`${fileName} is larger than ${MAX_EXTRACTED_BYTES} bytes checked out`);
+    }
+  }
+
+  if (await git(directory, ["checkout", "--quiet", "HEAD", "--", "."]) === null) {
+    throw new LocalRepositoryError(`${fileName} could not be checked out`);
+  }
+}
+
+// Extract an uploaded .tar.gz or clone an uploaded git bundle into a temporary directory
+export async function openUploadedArchive(fileName: string, content: Buffer): Promise<LocalRepository> {
+  if (LOCAL_ROOTS.length === 0) {
+    throw new LocalRepositoryError("Uploading repositories is disabled; set LOCAL_REPOSITORY_ROOTS to allow it");
+  }
+
+  const isBundle = /\.bundle$/i.test(fileName);
+  const isTarball = /\.(tar\.gz|tgz)$/i.test(fileName);
+  if (!isBundle && !isTarball) {
+    throw new LocalRepositoryError("Upload a .tar.gz, .tgz or git .bundle file");
+  }
+
+  const name = path.basename(fileName).replace(/\.(tar\.gz|tgz|bundle)$/i, "");
+  const workspace = await fs.mkdtemp(path.join(os.tmpdir(), "local-repository-"));
+  try {
+    let directory = path.join(workspace, "repository");
+    if (isBundle) {
+      const bundlePath = path.join(workspace, "upload.bundle");
+      await fs.writeFile(bundlePath, content);
+      await cloneBundle(fileName, bundlePath, workspace, directory);
+      await fs.rm(bundlePath);
+    } else {
+      await fs.mkdir(directory);
+      try {
+        await extractTarball(Readable.from([content]), directory, 0);
+      } catch (err) {
+        throw new LocalRepositoryError(`${fileName} could not be extracted: ${err instanceof Error ? err.message : err}`);
+      }
+
+      // Archives usually wrap everything in a single top-level directory
+      const topLevel = await fs.readdir(directory, { withFileTypes: true });
+      if (topLevel.length === 1 && topLevel[0].isDirectory()) {
+        directory = path.join(directory, topLevel[0].name);
+      }
+    }
+
+    return await loadRepository(directory, hashKey(content), name, workspace);
+  } catch (err) {
+    await fs.rm(workspace, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+// Commits reachable from HEAD, newest first
+export async function readGitLog(repository: LocalRepository): Promise<GitCommit[]> {
+  if (!repository.commitSha) {
+    return [];
+  }
+
+  // Each commit starts with a record separator and is followed by its
+  // --shortstat line, which is missing for commits that change no lines
+  const output = await git(repository.directory, [
+    "log", `--max-count=${MAX_LOG_COMMITS}`, "--format=%x1e%H%x1f%at%x1f%an%x1f%ae", "--shortstat",
+  ]);
+  return (output || "").split("\x1e").filter(Boolean).map(record => {
+    const [header, ...rest] = record.split("\n");
+    const [sha, timestamp, name, email] = header.split("\x1f");
+    const stat = rest.join(" ");
+    return {
+      sha,
+      timestamp: Number(timestamp),
+      name,
+      email,
+      additions: Number(stat.match(/(\d+) insertions?\(\+\)/)?.[1] ?? 0),
+      deletions: Number(stat.match(/(\d+) deletions?\(-\)/)?.[1] ?? 0),
+    };
+  });
+}
+
+// Tags with the date they were made (or of their commit, for lightweight tags)
+export async function readGitTags(repository: LocalRepository): Promise<{ name: string; timestamp: number }[]> {
+  if (!repository.commitSha) {
+    return [];
+  }
+
+  const output = await git(repository.directory, [
+    "for-each-ref", "--format=%(refname:short)%1f%(creatordate:unix)", "refs/tags",
+  ]);
+  return (output || "").split("\n").filter(Boolean).map(line => {
+    const [name, timestamp] = line.split("\x1f");
+    return { name, timestamp: Number(timestamp) };
+  });
+}
+
+// Commits on HEAD after a tag, or null when git can't count them
+export async function countCommitsSince(repository: LocalRepository, tag: string): Promise<number | null> {
+  const output = await git(repository.directory, ["rev-list", "--count", `refs/tags/${tag}..HEAD`]);
+  return output === null ? null : Number(output.trim());
+}
+
+// Commits on HEAD in the last days that touched each path, read in a single
+// git log. Paths are relative to the analyzed directory, like ls-files lists
+// them, even when it's a subdirectory of the repository.
+export async function readFileChanges(repository: LocalRepository, paths: string[], windowDays: number): Promise<FileChanges> {
+  const counts = new Map(paths.map(file => [file, 0]));
+  const output = repository.commitSha
+    ? await git(repository.directory, [
+      "log", `--max-count=${MAX_LOG_COMMITS}`, `--since=${hotspotWindowStart(windowDays)}`,
+      "--format=%x1e", "--name-only", "--relative",
+    ])
+    : null;
+  // Each commit starts with a record separator followed by the files it changed
+  const commits = (output || "").split("\x1e").slice(1);
+  for (const commit of commits) {
+    for (const file of commit.split("\n")) {
+      const count = counts.get(file);
+      if (count !== undefined) {
+        counts.set(file, count + 1);
+      }
+    }
+  }
+  return { counts: Object.fromEntries(counts), truncated: commits.length >= MAX_LOG_COMMITS };
+}
+
+// Local repositories by the id of their stored record, so later requests can
+// read their files; least recently used first
+const localRepositories = new Map<string, { repository: LocalRepository; timer: NodeJS.Timeout }>();
+
+function disposeRepository(repository: LocalRepository): void {
+  repository.dispose().catch(err => console.error(`Error removing local repository ${repository.directory}:`, err));
+}
+
+function evictLocalRepository(id: string): void {
+  const entry = localRepositories.get(id);
+  if (entry) {
+    clearTimeout(entry.timer);
+    localRepositories.delete(id);
+    disposeRepository(entry.repository);
+  }
+}
+
+// Keep a repository as the most recently used, expiring once it goes unused
+function touchLocalRepository(id: string, repository: LocalRepository): void {
+  const existing = localRepositories.get(id);
+  if (existing) {
+    clearTimeout(existing.timer);
+    localRepositories.delete(id);
+  }
+  const timer = setTimeout(() => evictLocalRepository(id), REGISTERED_TTL_MS);
+  timer.unref();
+  localRepositories.set(id, { repository, timer });
+}
+
+export function registerLocalRepository(id: string, repository: LocalRepository): void {
+  const previous = localRepositories.get(id)?.repository;
+  if (previous && previous !== repository) {
+    disposeRepository(previous);
+  }
+  touchLocalRepository(id, repository);
+
+  while (localRepositories.size > MAX_REGISTERED_REPOSITORIES) {
+    evictLocalRepository(localRepositories.keys().next().value!);
+  }
+}
+
+export function getLocalRepository(id: string): LocalRepository | undefined {
+  const repository = localRepositories.get(id)?.repository;
+  if (repository) {
+    touchLocalRepository(id, repository);
+  }
+  return repository;
+}
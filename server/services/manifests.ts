@@ -0,0 +1,356 @@
+// Parsers for dependency manifests and lockfiles found in a repository tree
+
+export type Ecosystem = "npm" | "pypi" | "go" | "cargo" | "maven";
+
+export interface DeclaredDependency {
+  name: string;
+  ecosystem: Ecosystem;
+  // Version or range exactly as written in the manifest
+  declared: string;
+  // Exact version pinned by a lockfile, when one is present
+  resolved?: string;
+  manifest: string;
+  dev: boolean;
+}
+
+// Maps a package name to the version a lockfile pins it to
+export type LockfileVersions = Map<string, string>;
+
+type ManifestParser = (content: string, path: string) => DeclaredDependency[];
+type LockfileParser = (content: string) => LockfileVersions;
+
+// Manifest file names and the parser that understands them
+export const MANIFEST_PARSERS: Record<string, ManifestParser> = {
+  "package.json": parsePackageJson,
+  "requirements.txt": parseRequirementsTxt,
+  "pyproject.toml": parsePyprojectToml,
+  "go.mod": parseGoMod,
+  "Cargo.toml": parseCargoToml,
+  "pom.xml": parsePomXml,
+};
+
+// Lockfile names that refine the versions declared by a sibling manifest
+export const LOCKFILE_PARSERS: Record<string, LockfileParser> = {
+  "package-lock.json": parsePackageLock,
+  "yarn.lock": parseYarnLock,
+  "Cargo.lock": parseCargoLock,
+  "poetry.lock": parseCargoLock,
+};
+
+// Specs that do not refer to a registry release (git URLs, local paths, workspaces)
+function isRegistrySpec(spec: string): boolean {
+  return !/^(file:|link:|workspace:|git|github:|https?:|npm:|portal:|\.{0,2}\/)/.test(spec) && !spec.includes("/");
+}
+
+function parsePackageJson(content: string, path: string): DeclaredDependency[] {
+  const pkg = JSON.parse(content);
+  const sections: [Record<string, string> | undefined, boolean][] = [
+    [pkg.dependencies, false],
+    [pkg.devDependencies, true],
+    [pkg.optionalDependencies, false],
+  ];
+
+  return sections.flatMap(([deps, dev]) =>
+    Object.entries(deps || {})
+      .filter(([, spec]) => typeof spec === "string" && isRegistrySpec(spec))
+      .map(([name, spec]) => ({ name, ecosystem: "npm" as const, declared: spec, manifest: path, dev }))
+  );
+}
+
+function parsePackageLock(content: string): LockfileVersions {
+  const lock = JSON.parse(content);
+  const versions: LockfileVersions = new Map();
+
+  // lockfileVersion 2 and 3 key packages by their install path
+  for (const [key, entry] of Object.entries<any>(lock.packages || {})) {
+    if (key.startsWith("node_modules/") && !key.slice("node_modules/".length).includes("node_modules/") && entry.version) {
+      versions.set(key.slice("node_modules/".length), entry.version);
+    }
+  }
+
+  // lockfileVersion 1
+  for (const [name, entry] of Object.entries<any>(lock.dependencies || {})) {
+    if (!versions.has(name) && entry.version) {
+      versions.set(name, entry.version);
+    }
+  }
+
+  return versions;
+}
+
+function parseYarnLock(content: string): LockfileVersions {
+  const versions: LockfileVersions = new Map();
+  let currentNames: string[] = [];
+
+  for (const line of content.split("\n")) {
+    if (!line.startsWith(" ") && line.trim().endsWith(":") && !line.startsWith("#")) {
+      // e.g. `"@babel/core@^7.0.0", "@babel/core@^7.1.0":` or `react@npm:^18.2.0:`
+      currentNames = line.slice(0, -1).split(",").map(spec => {
+        const cleaned = spec.trim().replace(/^"|"$/g, "");
+        return cleaned.slice(0, cleaned.lastIndexOf("@") > 0 ? cleaned.lastIndexOf("@") : undefined);
+      });
+      continue;
+    }
+
+    const versionMatch = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (versionMatch) {
+      currentNames.forEach(name => {
+        if (!versions.has(name)) {
+          versions.set(name, versionMatch[1]);
+        }
+      });
+      currentNames = [];
+    }
+  }
+
+  return versions;
+}
+
+// Parse a PEP 508 requirement such as `requests[security]>=2.8.1; python_version < "3.8"`
+function parsePep508(requirement: string, path: string, dev: boolean): DeclaredDependency | null {
+  const withoutMarkers = requirement.split(";")[0].trim();
+  const match = withoutMarkers.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match || withoutMarkers.includes("://")) {
+    return null;
+  }
+
+  const declared = match[2].trim() || "*";
+  const pinned = declared.match(/^===?\s*([^,\s]+)$/);
+  return {
+    name: match[1].toLowerCase(),
+    ecosystem: "pypi",
+    declared,
+    resolved: pinned ? pinned[1] : undefined,
+    manifest: path,
+    dev,
+  };
+}
+
+function parseRequirementsTxt(content: string, path: string): DeclaredDependency[] {
+  const dev = /dev|test/i.test(path.split("/").pop() || "");
+  return content
+    .split("\n")
+    .map(line => line.split(" #")[0].trim())
+    .filter(line => line && !line.startsWith("#") && !line.startsWith("-"))
+    .map(line => parsePep508(line, path, dev))
+    .filter((dep): dep is DeclaredDependency => dep !== null);
+}
+
+// Read a TOML document into a flat map of `section -> key -> raw value`.
+// Only covers what manifests use: tables, string values, inline tables and arrays.
+function readTomlSections(content: string): Map<string, Map<string, string>> {
+  const sections = new Map<string, Map<string, string>>();
+  let current = new Map<string, string>();
+  sections.set("", current);
+  let pendingKey: string | null = null;
+  let pendingValue = "";
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\s+#.*$/, "").trim();
+    if (pendingKey) {
+      pendingValue += ` ${line}`;
+      if (line.endsWith("]")) {
+        current.set(pendingKey, pendingValue);
+        pendingKey = null;
+      }
+      continue;
+    }
+
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      current = new Map();
+      // Repeated array-of-tables headers get a numeric suffix
+      let name = header[1].trim();
+      for (let i = 1; sections.has(name); i++) {
+        name = `${header[1].trim()}#${i}`;
+      }
+      sections.set(name, current);
+      continue;
+    }
+
+    const assignment = line.match(/^("?[\w.-]+"?)\s*=\s*(.*)$/);
+    if (assignment) {
+      const key = assignment[1].replace(/"/g, "");
+      if (assignment[2].startsWith("[") && !assignment[2].endsWith("]")) {
+        pendingKey = key;
+        pendingValue = assignment[2];
+      } else {
+        current.set(key, assignment[2]);
+      }
+    }
+  }
+
+  return sections;
+}
+
+function tomlString(value: string): string | null {
+  const match = value.match(/^["']([^"']*)["']/);
+  return match ? match[1] : null;
+}
+
+// Version of a TOML dependency value: `"1.0"` or `{ version = "1.0", features = [...] }`
+function tomlDependencyVersion(value: string): string | null {
+  if (value.startsWith("{")) {
+    if (/\b(path|git)\s*=/.test(value)) {
+      return null;
+    }
+    const version = value.match(/version\s*=\s*["']([^"']+)["']/);
+    return version ? version[1] : "*";
+  }
+  return tomlString(value);
+}
+
+function tomlArray(value: string): string[] {
+  return Array.from(value.matchAll(/["']([^"']+)["']/g), match => match[1]);
+}
+
+function parsePyprojectToml(content: string, path: string): DeclaredDependency[] {
+  const sections = readTomlSections(content);
+  const dependencies: DeclaredDependency[] = [];
+
+  // PEP 621 metadata
+  const project = sections.get("project");
+  tomlArray(project?.get("dependencies") || "").forEach(requirement => {
+    const dep = parsePep508(requirement, path, false);
+    if (dep) dependencies.push(dep);
+  });
+  Array.from(sections.get("project.optional-dependencies")?.values() || []).forEach(value => {
+    tomlArray(value).forEach(requirement => {
+      const dep = parsePep508(requirement, path, true);
+      if (dep) dependencies.push(dep);
+    });
+  });
+
+  // Poetry
+  sections.forEach((entries, section) => {
+    const isMain = section === "tool.poetry.dependencies";
+    const isDev = section === "tool.poetry.dev-dependencies" || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(section);
+    if (!isMain && !isDev) {
+      return;
+    }
+    entries.forEach((value, name) => {
+      const declared = tomlDependencyVersion(value);
+      if (name !== "python" && declared) {
+        dependencies.push({ name: name.toLowerCase(), ecosystem: "pypi", declared, manifest: path, dev: isDev });
+      }
+    });
+  });
+
+  return dependencies;
+}
+
+function parseGoMod(content: string, path: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (line.startsWith("require (")) {
+      inRequireBlock = true;
+      continue;
+    }
+    if (inRequireBlock && line === ")") {
+      inRequireBlock = false;
+      continue;
+    }
+
+    const requirement = inRequireBlock ? line : line.startsWith("require ") ? line.slice("require ".length) : null;
+    const match = requirement?.match(/^(\S+)\s+(v\S+)/);
+    // Indirect requirements are transitive dependencies recorded for reproducibility
+    if (match && !requirement!.includes("// indirect")) {
+      dependencies.push({
+        name: match[1],
+        ecosystem: "go",
+        declared: match[2],
+        // go.mod pins exact minimum versions
+        resolved: match[2],
+        manifest: path,
+        dev: false,
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+function parseCargoToml(content: string, path: string): DeclaredDependency[] {
+  const dependencies: DeclaredDependency[] = [];
+
+  readTomlSections(content).forEach((entries, section) => {
+    const kind = section.replace(/^target\..+?\./, "");
+    if (kind !== "dependencies" && kind !== "dev-dependencies" && kind !== "build-dependencies") {
+      return;
+    }
+    entries.forEach((value, name) => {
+      const declared = tomlDependencyVersion(value);
+      if (declared) {
+        dependencies.push({ name, ecosystem: "cargo", declared, manifest: path, dev: kind !== "dependencies" });
+      }
+    });
+  });
+
+  return dependencies;
+}
+
+// Cargo.lock and poetry.lock share the `[[package]] name/version` layout
+function parseCargoLock(content: string): LockfileVersions {
+  const versions: LockfileVersions = new Map();
+
+  readTomlSections(content).forEach((entries, section) => {
+    if (section.startsWith("package")) {
+      const name = tomlString(entries.get("name") || "");
+      const version = tomlString(entries.get("version") || "");
+      if (name && version && !versions.has(name.toLowerCase())) {
+        versions.set(name.toLowerCase(), version);
+      }
+    }
+  });
+
+  return versions;
+}
+
+function xmlTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return match ? match[1] : null;
+}
+
+function parsePomXml(content: string, path: string): DeclaredDependency[] {
+  const withoutComments = content.replace(/<!--[\s\S]*?-->/g, "");
+
+  // Resolve ${property} references against <properties> and the project version
+  const properties = new Map<string, string>();
+  const propertiesBlock = withoutComments.match(/<properties>([\s\S]*?)<\/properties>/);
+  if (propertiesBlock) {
+    for (const match of Array.from(propertiesBlock[1].matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g))) {
+      properties.set(match[1], match[2]);
+    }
+  }
+  const projectVersion = xmlTag(withoutComments.replace(/<parent>[\s\S]*?<\/parent>|<dependencies>[\s\S]*<\/dependencies>/g, ""), "version");
+  if (projectVersion) {
+    properties.set("project.version", projectVersion);
+  }
+  const resolve = (value: string) => value.replace(/\$\{([^}]+)\}/g, (_, key) => properties.get(key) ?? `\${${key}}`);
+
+  return Array.from(withoutComments.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g))
+    .map(match => {
+      const groupId = xmlTag(match[1], "groupId");
+      const artifactId = xmlTag(match[1], "artifactId");
+      const version = xmlTag(match[1], "version");
+      if (!groupId || !artifactId || !version) {
+        // Versions managed by a parent BOM cannot be resolved from this file alone
+        return null;
+      }
+
+      const declared = resolve(version);
+      return {
+        name: `${resolve(groupId)}:${resolve(artifactId)}`,
+        ecosystem: "maven" as const,
+        declared,
+        // Maven versions are exact unless written as a range
+        resolved: /^[\[(]/.test(declared) ? undefined : declared,
+        manifest: path,
+        dev: xmlTag(match[1], "scope") === "test",
+      };
+    })
+    .filter((dep): dep is NonNullable<typeof dep> => dep !== null && !dep.declared.includes("${"));
+}
@@ -0,0 +1,170 @@
+import type { ReleaseAnalysis } from "@shared/schema";
+import type { GitHubClient, RepoTarget } from "./github";
+import type { RepositoryFiles } from "./git-tree";
+import { type CommitActivityAnalysis, analyzeCommitActivity } from "./commit-activity";
+import { type CodeFrequencyAnalysis, analyzeCodeFrequency } from "./code-frequency";
+import { type ContributorAnalysis, type ContributorOptions, analyzeContributors } from "./contributors";
+import { type IssuesHealth, type IssuesHealthOptions, analyzeIssuesHealth } from "./issues-health";
+import { analyzeGitHubReleases } from "./releases";
+import { type FileChanges, countGitHubFileChanges } from "./hotspots";
+import { type HostCommunityProfile, fetchGitHubCommunityProfile } from "./community";
+import { type RepositoryRefs, encodeRef, listRefs, resolveCommitSha } from "./refs";
+import { openRepositoryFiles } from "./workspace";
+import { getGitHubClient, getHostConfig } from "./github-hosts";
+import { GitLabProvider } from "./gitlab";
+import { BitbucketProvider } from "./bitbucket";
+
+// What every provider knows about a repository, in GitHub's terms
+export interface RepositoryMetadata {
+  id: string | number;
+  fullName: string;
+  description: string | null;
+  ownerAvatar: string | null;
+  // Null where a provider has no such count, like stars on Bitbucket
+  stars: number | null;
+  forks: number | null;
+  openIssues: number | null;
+  // Null when the provider doesn't name one; it then comes from the languages
+  language: string | null;
+  createdAt: string;
+  updatedAt: string;
+  defaultBranch: string;
+}
+
+// Entry of a directory listing, in the shape of GitHub's contents API
+export interface DirectoryEntry {
+  name: string;
+  path: string;
+  type: "dir" | "file";
+}
+
+// A repository on GitHub, GitLab or Bitbucket, read through that host's API
+export interface RepositoryProvider {
+  readonly host: string;
+  readonly owner: string;
+  readonly repo: string;
+  getMetadata(): Promise<RepositoryMetadata>;
+  // Bytes (or relative weights) of code per language
+  getLanguages(ref: string): Promise<Record<string, number>>;
+  resolveCommitSha(ref: string): Promise<string | null>;
+  listRefs(): Promise<RepositoryRefs>;
+  openFiles(ref: string): Promise<RepositoryFiles>;
+  listDirectory(path: string, ref: string): Promise<DirectoryEntry[]>;
+  getCommitActivity(retries?: number): Promise<CommitActivityAnalysis>;
+  // Lines added and deleted per week
+  getCodeFrequency(retries?: number): Promise<CodeFrequencyAnalysis>;
+  getContributors(options?: ContributorOptions): Promise<ContributorAnalysis>;
+  // Open items, response and resolution times of issues and pull requests
+  getIssuesHealth(options?: IssuesHealthOptions): Promise<IssuesHealth>;
+  // Releases, or version tags, and commits on the ref since the latest one
+  getReleases(ref: string | null): Promise<ReleaseAnalysis>;
+  // Commits on a ref that touched each path in the last days
+  getFileChanges(paths: string[], ref: string, windowDays: number): Promise<FileChanges>;
+  // The host's own report of community files, or null without one
+  getCommunityProfile(): Promise<HostCommunityProfile | null>;
+}
+
+export class GitHubProvider implements RepositoryProvider {
+  readonly host: string;
+  readonly owner: string;
+  readonly repo: string;
+  private target: RepoTarget;
+
+  constructor(host: string, client: GitHubClient, owner: string, repo: string) {
+    this.host = host;
+    this.owner = owner;
+    this.repo = repo;
+    this.target = { client, owner, repo };
+  }
+
+  async getMetadata(): Promise<RepositoryMetadata> {
+    const { data } = await this.target.client.get(`/repos/${this.owner}/${this.repo}`);
+    return {
+      id: data.id,
+      fullName: data.full_name,
+      description: data.description,
+      ownerAvatar: data.owner?.avatar_url ?? null,
+      stars: data.stargazers_count,
+      forks: data.forks_count,
+      openIssues: data.open_issues_count,
+      language: data.language,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+      defaultBranch: data.default_branch,
+    };
+  }
+
+  // GitHub only classifies the default branch, so the ref is ignored
+  async getLanguages(_ref: string): Promise<Record<string, number>> {
+    const response = await this.target.client.get(`/repos/${this.owner}/${this.repo}/languages`);
+    return response.data;
+  }
+
+  resolveCommitSha(ref: string): Promise<string | null> {
+    return resolveCommitSha(this.target, ref);
+  }
+
+  listRefs(): Promise<RepositoryRefs> {
+    return listRefs(this.target);
+  }
+
+  openFiles(ref: string): Promise<RepositoryFiles> {
+    return openRepositoryFiles(this.target, ref);
+  }
+
+  async listDirectory(path: string, ref: string): Promise<DirectoryEntry[]> {
+    const encodedPath = path ? `/${encodeRef(path)}` : "";
+    const response = await this.target.client.get(`/repos/${this.owner}/${this.repo}/contents${encodedPath}`, {
+      params: { ref }
+    });
+    // A file path returns the file itself rather than a listing
+    const entries: any[] = Array.isArray(response.data) ? response.data : [];
+    return entries.map(entry => ({
+      name: entry.name,
+      path: entry.path,
+      type: entry.type === "dir" ? "dir" : "file",
+    }));
+  }
+
+  getCommitActivity(retries?: number): Promise<CommitActivityAnalysis> {
+    return analyzeCommitActivity(this.target, retries);
+  }
+
+  getCodeFrequency(retries?: number): Promise<CodeFrequencyAnalysis> {
+    return analyzeCodeFrequency(this.target, retries);
+  }
+
+  getContributors(options?: ContributorOptions): Promise<ContributorAnalysis> {
+    return analyzeContributors(this.target, options);
+  }
+
+  getIssuesHealth(options?: IssuesHealthOptions): Promise<IssuesHealth> {
+    return analyzeIssuesHealth(this.target, options);
+  }
+
+  getReleases(ref: string | null): Promise<ReleaseAnalysis> {
+    return analyzeGitHubReleases(this.target, ref);
+  }
+
+  getFileChanges(paths: string[], ref: string, windowDays: number): Promise<FileChanges> {
+    return countGitHubFileChanges(this.target, paths, ref, windowDays);
+  }
+
+  getCommunityProfile(): Promise<HostCommunityProfile | null> {
+    return fetchGitHubCommunityProfile(this.target);
+  }
+}
+
+// Provider for a repository on a configured host, chosen by the host's kind
+export function getRepositoryProvider(host: string, owner: string, repo: string): RepositoryProvider {
+  const config = getHostConfig(host);
+  const client = getGitHubClient(config.host);
+  switch (config.provider) {
+    case "gitlab":
+      return new GitLabProvider(config.host, client, owner, repo);
+    case "bitbucket":
+      return new BitbucketProvider(config.host, client, owner, repo);
+    default:
+      return new GitHubProvider(config.host, client, owner, repo);
+  }
+}
@@ -0,0 +1,205 @@
+import type { ComplexFile, Dependency, QualitySignal } from "@shared/schema";
+import type { TreeEntry } from "./git-tree";
+import { isAnalyzableSource } from "./complexity";
+
+// Relative weight of each signal in the overall score
+const SIGNAL_WEIGHTS = {
+  complexity: 25,
+  tests: 20,
+  docs: 15,
+  lint: 10,
+  dependencies: 15,
+  ci: 15,
+};
+
+// Share of test files relative to source files that earns a full test score
+const TARGET_TEST_RATIO = 0.3;
+
+const LEVEL_SCORES: Record<ComplexFile["level"], number> = {
+  Low: 100,
+  Medium: 60,
+  High: 20,
+};
+
+const DEPENDENCY_SCORES: Partial<Record<Dependency["status"], number>> = {
+  "Up to date": 100,
+  "Update available": 60,
+  "Outdated": 0,
+};
+
+const LINTER_CONFIGS = [
+  /(^|\/)\.eslintrc(\.\w+)?$/, /(^|\/)eslint\.config\.\w+$/, /(^|\/)biome\.jsonc?$/, /(^|\/)\.jshintrc$/,
+  /(^|\/)\.flake8$/, /(^|\/)\.pylintrc$/, /(^|\/)ruff\.toml$/, /(^|\/)\.ruff\.toml$/, /(^|\/)tox\.ini$/,
+  /(^|\/)\.golangci\.ya?ml$/, /(^|\/)checkstyle\.xml$/, /(^|\/)\.rubocop\.yml$/, /(^|\/)clippy\.toml$/,
+  /(^|\/)tslint\.json$/, /(^|\/)\.stylelintrc(\.\w+)?$/,
+];
+
+const FORMATTER_CONFIGS = [
+  /(^|\/)\.prettierrc(\.\w+)?$/, /(^|\/)prettier\.config\.\w+$/, /(^|\/)\.editorconfig$/,
+  /(^|\/)rustfmt\.toml$/, /(^|\/)\.rustfmt\.toml$/, /(^|\/)\.clang-format$/, /(^|\/)\.black$/,
+];
+
+const CI_CONFIGS = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/, /^\.gitlab-ci\.yml$/, /^\.circleci\/config\.yml$/, /^\.travis\.yml$/,
+  /^Jenkinsfile$/, /^azure-pipelines\.yml$/, /^bitbucket-pipelines\.yml$/, /^\.drone\.yml$/, /^appveyor\.yml$/,
+];
+
+const TEST_PATH_PATTERN = /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.\w+$|(^|\/)test_[^/]+\.py$|_test\.go$/i;
+
+export function isTestPath(path: string): boolean {
+  return TEST_PATH_PATTERN.test(path);
+}
+
+function matchesAny(paths: string[], patterns: RegExp[]): string[] {
+  return paths.filter(path => patterns.some(pattern => pattern.test(path)));
+}
+
+function complexitySignal(files: ComplexFile[]): QualitySignal {
+  if (files.length === 0) {
+    return { key: "complexity", label: "Complexity", score: 0, weight: SIGNAL_WEIGHTS.complexity, applicable: false, detail: "No supported source files were analyzed" };
+  }
+
+  const score = files.reduce((sum, file) => sum + LEVEL_SCORES[file.level], 0) / files.length;
+  const high = files.filter(file => file.level === "High").length;
+  return {
+    key: "complexity",
+    label: "Complexity",
+    score: Math.round(score),
+    weight: SIGNAL_WEIGHTS.complexity,
+    applicable: true,
+    detail: `${high} of ${files.length} analyzed files have high cyclomatic complexity`,
+  };
+}
+
+function testsSignal(blobs: string[], sourceCount: number): QualitySignal {
+  const testFiles = blobs.filter(isTestPath).length;
+  const ratio = sourceCount > 0 ? testFiles / sourceCount : 0;
+  return {
+    key: "tests",
+    label: "Tests",
+    score: Math.round(Math.min(1, ratio / TARGET_TEST_RATIO) * 100),
+    weight: SIGNAL_WEIGHTS.tests,
+    applicable: sourceCount > 0,
+    detail: testFiles > 0 ? `${testFiles} test files for ${sourceCount} source files` : "No test files found",
+  };
+}
+
+function docsSignal(tree: TreeEntry[]): QualitySignal {
+  const readme = tree.find(entry => entry.type === "blob" && /^readme(\.\w+)?$/i.test(entry.path));
+  const hasDocsDir = tree.some(entry => entry.type === "tree" && /^docs?$/i.test(entry.path));
+  const hasChangelog = tree.some(entry => /^(changelog|history)(\.\w+)?$/i.test(entry.path));
+  const hasContributing = tree.some(entry => /^(\.github\/)?contributing(\.\w+)?$/i.test(entry.path));
+
+  let score = 0;
+  const found: string[] = [];
+  if (readme) {
+    score += 50;
+    found.push("README");
+    // A README longer than a stub
+    if ((readme.size ?? 0) >= 1500) {
+      score += 20;
+    }
+  }
+  if (hasDocsDir) {
+    score += 15;
+    found.push("docs directory");
+  }
+  if (hasChangelog || hasContributing) {
+    score += 15;
+    found.push(hasChangelog ? "changelog" : "contributing guide");
+  }
+
+  return {
+    key: "docs",
+    label: "Documentation",
+    score: Math.min(100, score),
+    weight: SIGNAL_WEIGHTS.docs,
+    applicable: true,
+    detail: found.length > 0 ? `Found ${found.join(", ")}` : "No README or documentation found",
+  };
+}
+
+function lintSignal(blobs: string[]): QualitySignal {
+  const linters = matchesAny(blobs, LINTER_CONFIGS);
+  const formatters = matchesAny(blobs, FORMATTER_CONFIGS);
+  const hasLinter = linters.length > 0;
+
+  return {
+    key: "lint",
+    label: "Lint & formatting",
+    score: (hasLinter ? 70 : 0) + (formatters.length > 0 ? 30 : 0),
+    weight: SIGNAL_WEIGHTS.lint,
+    applicable: true,
+    detail: [...linters, ...formatters].slice(0, 3).join(", ") || "No linter or formatter configuration found",
+  };
+}
+
+function dependenciesSignal(dependencies: Dependency[]): QualitySignal {
+  const known = dependencies.filter(dep => DEPENDENCY_SCORES[dep.status] !== undefined);
+  if (known.length === 0) {
+    return { key: "dependencies", label: "Dependency freshness", score: 0, weight: SIGNAL_WEIGHTS.dependencies, applicable: false, detail: "No dependencies with known latest versions" };
+  }
+
+  const score = known.reduce((sum, dep) => sum + DEPENDENCY_SCORES[dep.status]!, 0) / known.length;
+  const outdated = known.filter(dep => dep.status === "Outdated").length;
+  return {
+    key: "dependencies",
+    label: "Dependency freshness",
+    score: Math.round(score),
+    weight: SIGNAL_WEIGHTS.dependencies,
+    applicable: true,
+    detail: `${outdated} of ${known.length} dependencies are a major version behind`,
+  };
+}
+
+function ciSignal(blobs: string[]): QualitySignal {
+  const configs = matchesAny(blobs, CI_CONFIGS);
+  return {
+    key: "ci",
+    label: "Continuous integration",
+    score: configs.length > 0 ? 100 : 0,
+    weight: SIGNAL_WEIGHTS.ci,
+    applicable: true,
+    detail: configs.length > 0 ? configs.slice(0, 3).join(", ") : "No CI configuration found",
+  };
+}
+
+export interface QualityInputs {
+  tree: TreeEntry[];
+  // Every analyzed file, not just the top complex ones
+  complexFiles: ComplexFile[];
+  dependencies: Dependency[];
+}
+
+// Without a tree there is nothing to look for files in, so a missing README or
+// CI config can't be told apart from a tree that couldn't be read
+function withoutTree(signal: QualitySignal): QualitySignal {
+  return { ...signal, score: 0, applicable: false, detail: "The repository's files couldn't be listed" };
+}
+
+// Combine repository signals into a deterministic 0-100 score. Signals that
+// don't apply (e.g. no dependency manifests) are left out of the weighting
+// rather than counted as zero; the score is null when none apply.
+export function computeQualityScore(inputs: QualityInputs): { score: number | null; signals: QualitySignal[] } {
+  const blobs = inputs.tree.filter(entry => entry.type === "blob").map(entry => entry.path);
+  const sourceCount = inputs.tree.filter(entry => isAnalyzableSource(entry) && !isTestPath(entry.path)).length;
+
+  const fromTree = inputs.tree.length > 0 ? (signal: QualitySignal) => signal : withoutTree;
+  const signals = [
+    complexitySignal(inputs.complexFiles),
+    testsSignal(blobs, sourceCount),
+    fromTree(docsSignal(inputs.tree)),
+    fromTree(lintSignal(blobs)),
+    dependenciesSignal(inputs.dependencies),
+    fromTree(ciSignal(blobs)),
+  ];
+
+  const applicable = signals.filter(signal => signal.applicable);
+  const totalWeight = applicable.reduce((sum, signal) => sum + signal.weight, 0);
+  if (totalWeight === 0) {
+    return { score: null, signals };
+  }
+  const score = applicable.reduce((sum, signal) => sum + signal.score * signal.weight, 0) / totalWeight;
+
+  return { score: Math.round(score), signals };
+}
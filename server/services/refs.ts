@@ -0,0 +1,80 @@
+import axios from "axios";
+import type { RepoTarget } from "./github";
+
+// Page cap for the branches and tags lists
+const MAX_REF_PAGES = 5;
+
+export interface NamedRef {
+  name: string;
+  sha: string;
+}
+
+export interface RepositoryRefs {
+  defaultBranch: string;
+  branches: NamedRef[];
+  tags: NamedRef[];
+}
+
+export interface ResolvedRef {
+  ref: string;
+  // Null for empty repositories, which have no commits to resolve to
+  commitSha: string | null;
+  // What remains of a /tree/ or /blob/ path once the ref has been taken off it
+  path?: string;
+}
+
+// Refs go into URL paths segment by segment so branch names with slashes survive
+export function encodeRef(ref: string): string {
+  return ref.split("/").map(encodeURIComponent).join("/");
+}
+
+// Branches and tags of a repository for the ref selector
+export async function listRefs({ client, owner, repo }: RepoTarget): Promise<RepositoryRefs> {
+  const [repoResponse, branches, tags] = await Promise.all([
+    client.get(`/repos/${owner}/${repo}`),
+    client.getAllPages(`/repos/${owner}/${repo}/branches`, {}, MAX_REF_PAGES),
+    client.getAllPages(`/repos/${owner}/${repo}/tags`, {}, MAX_REF_PAGES),
+  ]);
+
+  const toNamedRef = (entry: any): NamedRef => ({ name: entry.name, sha: entry.commit.sha });
+  return {
+    defaultBranch: repoResponse.data.default_branch,
+    branches: branches.map(toNamedRef),
+    tags: tags.map(toNamedRef),
+  };
+}
+
+// Commit SHA a branch, tag or (abbreviated) commit SHA points to, or null when it doesn't exist
+export async function resolveCommitSha({ client, owner, repo }: RepoTarget, ref: string): Promise<string | null> {
+  try {
+    const response = await client.get(`/repos/${owner}/${repo}/commits/${encodeRef(ref)}`);
+    return response.data.sha;
+  } catch (error) {
+    // 404/422 for unknown refs, 409 for repositories without commits
+    if (axios.isAxiosError(error) && error.response && [404, 409, 422].includes(error.response.status)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Resolve the ref of a parsed repository URL. Branch names may contain
+// slashes, so for /tree/feature/x/src the ref is grown one path segment at a
+// time until it names a commit.
+export async function resolveRef(
+  source: { resolveCommitSha(ref: string): Promise<string | null> },
+  ref: string,
+  path?: string
+): Promise<ResolvedRef | null> {
+  const segments = path ? path.split("/") : [];
+
+  for (let taken = 0; taken <= segments.length; taken++) {
+    const candidate = [ref, ...segments.slice(0, taken)].join("/");
+    const commitSha = await source.resolveCommitSha(candidate);
+    if (commitSha) {
+      const rest = segments.slice(taken).join("/");
+      return { ref: candidate, commitSha, path: rest || undefined };
+    }
+  }
+  return null;
+}
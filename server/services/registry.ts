@@ -0,0 +1,94 @@
+import axios from "axios";
+import fs from "fs/promises";
+import type { Ecosystem } from "./manifests";
+
+// Source of "latest published version" metadata for packages
+export interface RegistryMetadataSource {
+  getLatestVersion(ecosystem: Ecosystem, name: string): Promise<string | null>;
+}
+
+const REGISTRY_TIMEOUT_MS = 10000;
+
+// Queries the public package registries of each ecosystem over HTTP
+export class HttpRegistrySource implements RegistryMetadataSource {
+  private cache: Map<string, Promise<string | null>>;
+
+  constructor() {
+    this.cache = new Map();
+  }
+
+  async getLatestVersion(ecosystem: Ecosystem, name: string): Promise<string | null> {
+    const key = `${ecosystem}:${name}`;
+    if (!this.cache.has(key)) {
+      this.cache.set(key, this.fetchLatestVersion(ecosystem, name).catch(error => {
+        console.error(`Error fetching latest version of ${key}:`, error.message);
+        // Don't cache failures so a later analysis can retry
+        this.cache.delete(key);
+        return null;
+      }));
+    }
+    return this.cache.get(key)!;
+  }
+
+  private async fetchLatestVersion(ecosystem: Ecosystem, name: string): Promise<string | null> {
+    const options = { timeout: REGISTRY_TIMEOUT_MS, headers: { "User-Agent": "GitHub Repository Analyzer" } };
+
+    switch (ecosystem) {
+      case "npm": {
+        const response = await axios.get(`https://registry.npmjs.org/${name.replace("/", "%2F")}/latest`, options);
+        return response.data.version ?? null;
+      }
+      case "pypi": {
+        const response = await axios.get(`https://pypi.org/pypi/${encodeURIComponent(name)}/json`, options);
+        return response.data.info?.version ?? null;
+      }
+      case "go": {
+        // The module proxy escapes upper-case letters as "!" + lower-case
+        const escaped = name.replace(/[A-Z]/g, letter => `!${letter.toLowerCase()}`);
+        const response = await axios.get(`https://proxy.golang.org/${escaped}/@latest`, options);
+        return response.data.Version ?? null;
+      }
+      case "cargo": {
+        const response = await axios.get(`https://crates.io/api/v1/crates/${encodeURIComponent(name)}`, options);
+        return response.data.crate?.max_stable_version ?? response.data.crate?.max_version ?? null;
+      }
+      case "maven": {
+        const [groupId, artifactId] = name.split(":");
+        const response = await axios.get("https://search.maven.org/solrsearch/select", {
+          ...options,
+          params: { q: `g:"${groupId}" AND a:"${artifactId}"`, rows: 1, wt: "json" },
+        });
+        return response.data.response?.docs?.[0]?.latestVersion ?? null;
+      }
+    }
+  }
+}
+
+// Reads latest versions from a local JSON file shaped like
+// `{ "npm": { "react": "18.3.1" }, "pypi": { "requests": "2.32.3" } }`.
+// Used in tests and offline environments instead of the public registries.
+export class FileRegistrySource implements RegistryMetadataSource {
+  private filePath: string;
+  private data: Promise<Partial<Record<Ecosystem, Record<string, string>>>> | null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.data = null;
+  }
+
+  async getLatestVersion(ecosystem: Ecosystem, name: string): Promise<string | null> {
+    if (!this.data) {
+      this.data = fs.readFile(this.filePath, "utf-8").then(content => JSON.parse(content));
+    }
+    const data = await this.data;
+    return data[ecosystem]?.[name] ?? null;
+  }
+}
+
+// Pick the registry source from the environment
+export function createRegistrySource(): RegistryMetadataSource {
+  const filePath = process.env.REGISTRY_METADATA_FILE;
+  return filePath ? new FileRegistrySource(filePath) : new HttpRegistrySource();
+}
+
+export const registry = createRegistrySource();
@@ -0,0 +1,201 @@
+import type { Release, ReleaseAnalysis } from "@shared/schema";
+import { type RepoTarget, RateLimitError } from "./github";
+import { encodeRef } from "./refs";
+import { type SemVer, compareVersions, formatVersion, parseVersion } from "./semver";
+
+// Page caps for releases and tags
+export const MAX_RELEASE_PAGES = 3;
+// Tags whose commits are looked up for dates when a repository has no releases
+const MAX_DATED_TAGS = 20;
+// Releases kept for the timeline, newest first
+const MAX_LISTED_RELEASES = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A release or tag as a host reports it
+export interface ReleaseEntry {
+  tag: string;
+  name?: string | null;
+  // ISO date
+  date: string;
+  prerelease?: boolean;
+}
+
+// Tags like "v1.2.3", "1.2", "release-2.0.0" or "pkg@1.0.0"; dates like
+// "2024-05-01" and plain numbers aren't taken for versions
+const VERSION_TAG_PATTERN = /^(?:.*[-_@/])?v?(\d+\.\d+(?:\.\d+)?(?:[-+.][\w.+-]*)?)$/i;
+const DATE_PATTERN = /\d{4}[-.]\d{2}[-.]\d{2}/;
+
+export function parseVersionTag(tag: string): SemVer | null {
+  const match = tag.match(VERSION_TAG_PATTERN);
+  if (!match || DATE_PATTERN.test(tag)) {
+    return null;
+  }
+  return parseVersion(match[1]);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// The most significant part that differs between a version and the one before it
+function bumpFrom(previous: SemVer, version: SemVer): Release["bump"] {
+  if (version.major !== previous.major) return "major";
+  if (version.minor !== previous.minor) return "minor";
+  return "patch";
+}
+
+export const EMPTY_RELEASE_ANALYSIS: ReleaseAnalysis = {
+  source: "none",
+  releases: [],
+  totalReleases: 0,
+  releasesLastYear: 0,
+  medianDaysBetweenReleases: null,
+  lastReleaseDate: null,
+  daysSinceLastRelease: null,
+  latestTag: null,
+  bumpMix: { major: 0, minor: 0, patch: 0, prerelease: 0 },
+  semverShare: 0,
+  unreleasedCommits: null,
+};
+
+// Release frequency, versioning and how long ago the last release was. Each
+// version's bump is measured against the highest earlier version below it, so
+// a 1.2.5 backport after 2.0.0 still counts as a patch.
+export function analyzeReleases(
+  entries: ReleaseEntry[],
+  options: { source: ReleaseAnalysis["source"]; unreleasedCommits: number | null; totalReleases?: number; now?: number }
+): ReleaseAnalysis {
+  if (entries.length === 0) {
+    return { ...EMPTY_RELEASE_ANALYSIS, unreleasedCommits: options.unreleasedCommits };
+  }
+  const now = options.now ?? Date.now();
+
+  const chronological = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  const earlierVersions: SemVer[] = [];
+  const releases: Release[] = chronological.map(entry => {
+    const version = parseVersionTag(entry.tag);
+    const prerelease = entry.prerelease ?? !!version?.prerelease;
+
+    let bump: Release["bump"] = null;
+    if (version && prerelease) {
+      bump = "prerelease";
+    } else if (version) {
+      const previous = earlierVersions
+        .filter(earlier => compareVersions(earlier, version) < 0)
+        .sort(compareVersions)
+        .pop();
+      const duplicate = earlierVersions.some(earlier => compareVersions(earlier, version) === 0);
+      bump = previous ? bumpFrom(previous, version) : duplicate ? null : "initial";
+      earlierVersions.push(version);
+    }
+
+    return {
+      tag: entry.tag,
+      name: entry.name || null,
+      date: entry.date,
+      version: version ? formatVersion(version) : null,
+      bump,
+      prerelease,
+    };
+  });
+
+  // Frequency follows stable releases unless there are only pre-releases
+  const stable = releases.filter(release => !release.prerelease);
+  const cadence = stable.length > 0 ? stable : releases;
+  const intervals = cadence.slice(1).map((release, index) =>
+    (new Date(release.date).getTime() - new Date(cadence[index].date).getTime()) / DAY_MS
+  );
+  const medianInterval = median(intervals);
+
+  const latest = releases[releases.length - 1];
+  // Unreleased commits are counted from the highest stable version, since a
+  // backport tagged later on an older line isn't on the main branch
+  const highest = chronological
+    .map(entry => ({ tag: entry.tag, version: parseVersionTag(entry.tag) }))
+    .filter((entry, index) => entry.version && !releases[index].prerelease)
+    .sort((a, b) => compareVersions(a.version!, b.version!))
+    .pop();
+  const bumpMix = { major: 0, minor: 0, patch: 0, prerelease: 0 };
+  for (const release of releases) {
+    if (release.bump && release.bump !== "initial") {
+      bumpMix[release.bump]++;
+    }
+  }
+
+  return {
+    source: options.source,
+    releases: releases.slice(-MAX_LISTED_RELEASES).reverse(),
+    totalReleases: options.totalReleases ?? releases.length,
+    releasesLastYear: releases.filter(release => now - new Date(release.date).getTime() <= 365 * DAY_MS).length,
+    medianDaysBetweenReleases: medianInterval === null ? null : Math.round(medianInterval * 10) / 10,
+    lastReleaseDate: latest.date,
+    daysSinceLastRelease: Math.max(0, Math.floor((now - new Date(latest.date).getTime()) / DAY_MS)),
+    latestTag: highest?.tag ?? latest.tag,
+    bumpMix,
+    semverShare: Math.round((releases.filter(release => release.version).length / releases.length) * 100),
+    unreleasedCommits: options.unreleasedCommits,
+  };
+}
+
+// Version tags, newest version first
+export function sortVersionTags<T extends { name: string }>(tags: T[]): T[] {
+  return tags
+    .map(tag => ({ tag, version: parseVersionTag(tag.name) }))
+    .filter((entry): entry is { tag: T; version: SemVer } => entry.version !== null)
+    .sort((a, b) => compareVersions(b.version, a.version))
+    .map(entry => entry.tag);
+}
+
+// Commits on a ref after a tag, or null when they can't be compared
+async function countCommitsSince({ client, owner, repo }: RepoTarget, tag: string, ref: string): Promise<number | null> {
+  try {
+    const response = await client.get(`/repos/${owner}/${repo}/compare/${encodeRef(tag)}...${encodeRef(ref)}`);
+    return response.data.ahead_by ?? null;
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    console.error(`Error comparing ${tag} with ${ref}:`, error);
+    return null;
+  }
+}
+
+// Releases of a GitHub repository, or its version tags when it publishes none.
+// Tags carry no dates, so only the newest ones get theirs from their commits.
+export async function analyzeGitHubReleases(target: RepoTarget, ref: string | null): Promise<ReleaseAnalysis> {
+  const { client, owner, repo } = target;
+  const releases = (await client.getAllPages(`/repos/${owner}/${repo}/releases`, {}, MAX_RELEASE_PAGES))
+    .filter(release => !release.draft);
+
+  let entries: ReleaseEntry[];
+  let source: ReleaseAnalysis["source"] = "releases";
+  let totalReleases: number | undefined;
+  if (releases.length > 0) {
+    entries = releases.map(release => ({
+      tag: release.tag_name,
+      name: release.name,
+      date: release.published_at ?? release.created_at,
+      prerelease: release.prerelease,
+    }));
+  } else {
+    const tags = sortVersionTags(await client.getAllPages(`/repos/${owner}/${repo}/tags`, {}, MAX_RELEASE_PAGES));
+    source = tags.length > 0 ? "tags" : "none";
+    totalReleases = tags.length;
+    entries = await Promise.all(tags.slice(0, MAX_DATED_TAGS).map(async tag => {
+      const response = await client.get(`/repos/${owner}/${repo}/commits/${tag.commit.sha}`);
+      return { tag: tag.name, date: response.data.commit?.committer?.date ?? response.data.commit?.author?.date };
+    }));
+  }
+
+  const analysis = analyzeReleases(entries, { source, unreleasedCommits: null, totalReleases });
+  if (analysis.latestTag && ref) {
+    analysis.unreleasedCommits = await countCommitsSince(target, analysis.latestTag, ref);
+  }
+  return analysis;
+}
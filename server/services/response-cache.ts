@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// A response body together with the validators needed to revalidate it
+export interface CachedResponse {
+  status: number;
+  data: unknown;
+  etag?: string;
+  lastModified?: string;
+  // Pagination links, so cached list pages can still be followed
+  link?: string;
+  storedAt: number;
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+}
+
+// Bytes of response bodies the in-memory cache holds; a body larger than a
+// tenth of that, like a big tree or blob, isn't cached at all
+const MEMORY_CACHE_MAX_BYTES = Number(process.env.GITHUB_CACHE_MAX_BYTES) || 64 * 1024 * 1024;
+
+// Approximate size of a body: its length as text, or as JSON
+function bodySize(data: unknown): number {
+  if (typeof data === "string") {
+    return data.length;
+  }
+  return JSON.stringify(data)?.length ?? 0;
+}
+
+// Least-recently-used cache kept in process memory, bounded by entries and bytes
+export class MemoryResponseCache implements ResponseCache {
+  private entries: Map<string, { entry: CachedResponse; size: number }>;
+  private maxEntries: number;
+  private maxBytes: number;
+  private bytes = 0;
+
+  constructor(maxEntries = 2000, maxBytes = MEMORY_CACHE_MAX_BYTES) {
+    this.entries = new Map();
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert so the map's iteration order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+    }
+    return cached?.entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.remove(key);
+    const size = bodySize(entry.data);
+    if (size > this.maxBytes / 10) {
+      return;
+    }
+
+    this.entries.set(key, { entry, size });
+    this.bytes += size;
+    while (this.entries.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  private remove(key: string): void {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.bytes -= cached.size;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// Cache stored as one JSON file per URL so it survives server restarts
+export class DiskResponseCache implements ResponseCache {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), "utf-8"));
+    } catch {
+      // Missing or unreadable entries are treated as cache misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.fileFor(key), JSON.stringify(entry));
+    } catch (err) {
+      console.error("Error writing response cache entry:", err);
+    }
+  }
+}
+
+// GITHUB_CACHE_DIR switches from the in-memory cache to a disk-backed one
+export function createResponseCache(): ResponseCache {
+  const directory = process.env.GITHUB_CACHE_DIR;
+  return directory ? new DiskResponseCache(directory) : new MemoryResponseCache();
+}
@@ -0,0 +1,77 @@
+// Minimal semantic version handling shared by the dependency and release analyzers
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string | null;
+}
+
+export interface SemVerDistance {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+// A whole version: an optional "v" or "=", up to three counted components
+// (further numeric ones are ignored), then a pre-release, a release qualifier
+// like Maven's ".Final" or PEP 440's ".post1", and build metadata
+const VERSION_PATTERN = /^[v=]?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.\d+)*(?:[-.]?((?:alpha|beta|rc|pre|dev|a|b|c)[\w.]*|-[\w.-]+)|[.-](?:final|release|ga|post\d*))?(?:\+[\w.-]*)?$/i;
+
+// Parse a version, tolerating "v" prefixes and missing minor/patch components
+// ("1", "1.2", "v1.2.3-rc.1"); anything else around it, like "foo1.2.3bar"
+// or a range, isn't a version
+export function parseVersion(input: string): SemVer | null {
+  const match = input.trim().match(VERSION_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].replace(/^-/, "") : null,
+  };
+}
+
+// Extract the lowest version a range or constraint refers to, e.g.
+// "^1.2.3" -> 1.2.3, ">=2.0,<3" -> 2.0.0, ">= 1.2 <2" -> 1.2.0, "~=1.4" -> 1.4.0,
+// "1.2.*" -> 1.2.0, "[1.0,2.0)" -> 1.0.0
+export function parseRangeBase(range: string): SemVer | null {
+  const firstConstraint = range.split(/\|\||,/)[0].trim().replace(/^[\s^~>=<![(v]+/, "");
+  const version = firstConstraint.split(/\s+/)[0].replace(/(\.[*xX])+$/, "");
+  return parseVersion(version);
+}
+
+export function compareVersions(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  if (a.patch !== b.patch) return a.patch - b.patch;
+  // A pre-release sorts before its release
+  if (a.prerelease && !b.prerelease) return -1;
+  if (!a.prerelease && b.prerelease) return 1;
+  return (a.prerelease || "").localeCompare(b.prerelease || "", undefined, { numeric: true });
+}
+
+// How far "current" is behind "latest", reporting only the most significant
+// component that differs (1.2.3 -> 3.0.0 is { major: 2, minor: 0, patch: 0 })
+export function semverDistance(current: SemVer, latest: SemVer): SemVerDistance {
+  const distance = { major: 0, minor: 0, patch: 0 };
+  if (compareVersions(current, latest) >= 0) {
+    return distance;
+  }
+
+  if (latest.major !== current.major) {
+    distance.major = latest.major - current.major;
+  } else if (latest.minor !== current.minor) {
+    distance.minor = latest.minor - current.minor;
+  } else {
+    distance.patch = latest.patch - current.patch;
+  }
+  return distance;
+}
+
+export function formatVersion(version: SemVer): string {
+  return `${version.major}.${version.minor}.${version.patch}${version.prerelease ? `-${version.prerelease}` : ""}`;
+}
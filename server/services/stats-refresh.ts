@@ -0,0 +1,53 @@
+import { storage } from "../storage";
+import type { RepositoryProvider } from "./providers";
+
+// Delays between background attempts while GitHub computes statistics
+const REFRESH_DELAYS_MS = [15_000, 30_000, 60_000, 120_000, 300_000];
+
+// Repositories that already have a refresh scheduled
+const scheduled = new Set<string>();
+
+// Poll GitHub's statistics endpoints in the background until they are ready,
+// then fill the stored repository record in and clear its statsPending flag
+export function scheduleStatsRefresh(id: string, provider: RepositoryProvider): void {
+  if (scheduled.has(id)) {
+    return;
+  }
+  scheduled.add(id);
+
+  const attempt = async (index: number) => {
+    try {
+      const [activity, codeFrequency, contributorAnalysis] = await Promise.all([
+        provider.getCommitActivity(0),
+        provider.getCodeFrequency(0),
+        provider.getContributors({ statsRetries: 0 }),
+      ]);
+
+      if (!activity.pending && !codeFrequency.pending && !contributorAnalysis.statsPending) {
+        await storage.updateRepository(id, {
+          commitActivity: activity.commitActivity,
+          commitFrequency: activity.commitFrequency,
+          punchCard: activity.punchCard,
+          codeFrequency: codeFrequency.codeFrequency,
+          activeContributors: contributorAnalysis.activeContributors,
+          contributors: contributorAnalysis.contributors,
+          contributorRisk: contributorAnalysis.risk,
+          statsPending: false,
+        });
+        scheduled.delete(id);
+        return;
+      }
+    } catch (err) {
+      console.error(`Error refreshing statistics for ${provider.owner}/${provider.repo}:`, err);
+    }
+
+    if (index + 1 < REFRESH_DELAYS_MS.length) {
+      setTimeout(() => attempt(index + 1), REFRESH_DELAYS_MS[index + 1]);
+    } else {
+      // Give up for now; analyzing the repository again schedules a new refresh
+      scheduled.delete(id);
+    }
+  };
+
+  setTimeout(() => attempt(0), REFRESH_DELAYS_MS[0]);
+}
@@ -0,0 +1,274 @@
+import type { TestDirectory, TestFramework, TestSuite } from "@shared/schema";
+import { RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry, isIgnoredPath, mapWithConcurrency } from "./git-tree";
+import { languageForPath } from "./languages";
+import { isTestPath } from "./quality";
+
+// Files whose lines are counted when they're on disk, and a sample of those
+// that would each take an API request; the rest are estimated from their size
+const MAX_COUNTED_FILES = Number(process.env.TEST_ANALYSIS_MAX_FILES) || 1500;
+const MAX_SAMPLED_FILES = Number(process.env.TEST_ANALYSIS_SAMPLE_FILES) || 100;
+const MAX_COUNTED_BYTES = 1024 * 1024;
+const MAX_MANIFESTS = 20;
+const FETCH_CONCURRENCY = 8;
+
+// Path segments that group files into directories, e.g. "server/services"
+const DIRECTORY_DEPTH = 2;
+// Directories listed, those with the most source first
+const MAX_LISTED_DIRECTORIES = 30;
+
+// Languages that aren't counted as code to test
+const NON_CODE_LANGUAGES = new Set(["HTML", "CSS", "SCSS", "Sass", "Less"]);
+
+// Directory names that only hold tests, dropped when placing a test next to its source
+const TEST_DIRECTORIES = new Set(["test", "tests", "__tests__", "spec", "specs"]);
+
+type FrameworkName = TestFramework["name"];
+
+// Config files that name a framework by their presence
+const FRAMEWORK_FILES: { pattern: RegExp; framework: FrameworkName }[] = [
+  { pattern: /(^|\/)jest\.config\.\w+$/, framework: "Jest" },
+  { pattern: /(^|\/)vitest\.(config|workspace)\.\w+$/, framework: "Vitest" },
+  { pattern: /(^|\/)\.mocharc(\.\w+)?$/, framework: "Mocha" },
+  { pattern: /(^|\/)(pytest\.ini|conftest\.py)$/, framework: "pytest" },
+  { pattern: /_test\.go$/, framework: "Go testing" },
+  { pattern: /(^|\/)(\.rspec|spec_helper\.rb)$/, framework: "RSpec" },
+];
+
+// Manifests whose content names a framework
+const FRAMEWORK_MANIFESTS: { pattern: RegExp; frameworks: { framework: FrameworkName; content: RegExp }[] }[] = [
+  {
+    pattern: /(^|\/)(pyproject\.toml|setup\.cfg|tox\.ini|requirements[\w.-]*\.txt)$/,
+    frameworks: [{ framework: "pytest", content: /\bpytest\b/ }],
+  },
+  {
+    pattern: /(^|\/)(pom\.xml|build\.gradle(\.kts)?)$/,
+    frameworks: [{ framework: "JUnit", content: /\bjunit\b/i }],
+  },
+  {
+    pattern: /(^|\/)Gemfile$/,
+    frameworks: [{ framework: "RSpec", content: /\brspec\b/ }],
+  },
+];
+
+// npm packages that bring in a framework
+const NPM_FRAMEWORKS: Record<string, FrameworkName> = {
+  "jest": "Jest",
+  "ts-jest": "Jest",
+  "babel-jest": "Jest",
+  "vitest": "Vitest",
+  "mocha": "Mocha",
+};
+
+function isCodeFile(entry: TreeEntry): boolean {
+  const language = entry.type === "blob" && !isIgnoredPath(entry.path) && !entry.path.endsWith(".d.ts")
+    ? languageForPath(entry.path)
+    : null;
+  return !!language && !NON_CODE_LANGUAGES.has(language);
+}
+
+// Directory a file is grouped under, "." for files at the root
+function directoryOf(path: string): string {
+  const segments = path.split("/").slice(0, -1).slice(0, DIRECTORY_DEPTH);
+  return segments.length > 0 ? segments.join("/") : ".";
+}
+
+// Name a test shares with the file it tests: "parser" for parser.test.ts,
+// test_parser.py, parser_test.go, parser_spec.rb and ParserTest.java
+function testedName(path: string): string {
+  const base = path.split("/").pop()!.replace(/\.[^.]+$/, "");
+  return base
+    .replace(/^test_/i, "")
+    .replace(/[._-](test|spec)$/i, "")
+    .replace(/(Tests?|Spec)$/, "")
+    .toLowerCase();
+}
+
+function sourceName(path: string): string {
+  return path.split("/").pop()!.replace(/\.[^.]+$/, "").toLowerCase();
+}
+
+// Leading path segments two paths have in common
+function sharedSegments(a: string[], b: string[]): number {
+  let count = 0;
+  while (count < a.length && count < b.length && a[count] === b[count]) {
+    count++;
+  }
+  return count;
+}
+
+function countLines(content: string): number {
+  return content.split("\n").filter(line => line.trim() !== "").length;
+}
+
+// Frameworks from config files, test file names and manifests
+async function detectFrameworks(files: RepositoryFiles): Promise<TestFramework[]> {
+  const found = new Map<FrameworkName, string>();
+  const blobs = files.tree.filter(entry => entry.type === "blob" && !isIgnoredPath(entry.path));
+
+  for (const entry of blobs) {
+    const match = FRAMEWORK_FILES.find(({ pattern }) => pattern.test(entry.path));
+    if (match && !found.has(match.framework)) {
+      found.set(match.framework, entry.path);
+    }
+  }
+
+  const manifests = blobs
+    .filter(entry => /(^|\/)package\.json$/.test(entry.path) ||
+      FRAMEWORK_MANIFESTS.some(({ pattern }) => pattern.test(entry.path)))
+    // Manifests nearest the root first
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length)
+    .slice(0, MAX_MANIFESTS);
+
+  await mapWithConcurrency(manifests, FETCH_CONCURRENCY, async entry => {
+    try {
+      const content = await files.readFile(entry);
+      const frameworks: FrameworkName[] = [];
+      if (/(^|\/)package\.json$/.test(entry.path)) {
+        const pkg = JSON.parse(content);
+        const packages = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies });
+        frameworks.push(...packages.filter(name => NPM_FRAMEWORKS[name]).map(name => NPM_FRAMEWORKS[name]));
+      } else {
+        const manifest = FRAMEWORK_MANIFESTS.find(({ pattern }) => pattern.test(entry.path))!;
+        frameworks.push(...manifest.frameworks.filter(({ content: pattern }) => pattern.test(content)).map(({ framework }) => framework));
+      }
+      for (const framework of frameworks) {
+        if (!found.has(framework)) {
+          found.set(framework, entry.path);
+        }
+      }
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error reading ${entry.path} for test frameworks:`, err);
+    }
+  });
+
+  return Array.from(found, ([name, evidence]) => ({ name, evidence }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Every step-th entry, so a sample spreads over the whole tree
+function spread(entries: TreeEntry[], limit: number): TreeEntry[] {
+  if (entries.length <= limit) {
+    return entries;
+  }
+  const step = entries.length / limit;
+  return Array.from({ length: limit }, (_, index) => entries[Math.floor(index * step)]);
+}
+
+// Non-blank lines of each file. Files on disk are counted up to the file cap
+// and files behind the API only as a sample; the rest, and files that can't
+// be read, are estimated from the size at the bytes per line of those read.
+async function measureLines(files: RepositoryFiles, entries: TreeEntry[]): Promise<{ lines: Map<string, number>; estimated: boolean }> {
+  const readable = entries.filter(entry => (entry.size ?? 0) <= MAX_COUNTED_BYTES);
+  const onDisk = readable.filter(entry => files.isOnDisk?.(entry) ?? false);
+  const remote = readable.filter(entry => !(files.isOnDisk?.(entry) ?? false));
+  const counted = [...onDisk.slice(0, MAX_COUNTED_FILES), ...spread(remote, MAX_SAMPLED_FILES)];
+  const lines = new Map<string, number>();
+
+  await mapWithConcurrency(counted, FETCH_CONCURRENCY, async entry => {
+    try {
+      lines.set(entry.path, countLines(await files.readFile(entry)));
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error counting lines of ${entry.path}:`, err);
+    }
+  });
+
+  const sized = counted.filter(entry => lines.has(entry.path) && entry.size !== undefined);
+  const sizedBytes = sized.reduce((sum, entry) => sum + entry.size!, 0);
+  const sizedLines = sized.reduce((sum, entry) => sum + lines.get(entry.path)!, 0);
+  const bytesPerLine = sizedLines > 0 ? sizedBytes / sizedLines : 40;
+  // Trees listed without sizes, like GitLab's, get the average of the files read
+  const readLines = Array.from(lines.values()).reduce((sum, count) => sum + count, 0);
+  const averageLines = lines.size > 0 ? readLines / lines.size : 0;
+
+  let estimated = false;
+  for (const entry of entries) {
+    if (!lines.has(entry.path)) {
+      lines.set(entry.path, Math.round(entry.size !== undefined ? entry.size / bytesPerLine : averageLines));
+      estimated = true;
+    }
+  }
+  return { lines, estimated };
+}
+
+// Test files, frameworks and test lines against source lines per directory.
+// A test counts toward the directory of the source file of the same name that
+// shares the most of its path, or else the directory it sits in once
+// test-only directories are dropped.
+export async function analyzeTestSuite(files: RepositoryFiles): Promise<TestSuite> {
+  const code = files.tree.filter(isCodeFile);
+  const tests = code.filter(entry => isTestPath(entry.path));
+  const sources = code.filter(entry => !isTestPath(entry.path));
+
+  const [frameworks, { lines, estimated }] = await Promise.all([
+    detectFrameworks(files),
+    measureLines(files, [...tests, ...sources]),
+  ]);
+
+  const directories = new Map<string, TestDirectory>();
+  const directoryFor = (path: string) => {
+    let directory = directories.get(path);
+    if (!directory) {
+      directory = { path, sourceFiles: 0, sourceLines: 0, testFiles: 0, testLines: 0 };
+      directories.set(path, directory);
+    }
+    return directory;
+  };
+
+  // Source files by name, with the path segments of their directory
+  const sourcesByName = new Map<string, string[][]>();
+  for (const entry of sources) {
+    const directory = directoryFor(directoryOf(entry.path));
+    directory.sourceFiles++;
+    directory.sourceLines += lines.get(entry.path)!;
+
+    const name = sourceName(entry.path);
+    sourcesByName.set(name, [...(sourcesByName.get(name) ?? []), entry.path.split("/").slice(0, -1)]);
+  }
+
+  for (const entry of tests) {
+    const placed = entry.path.split("/").filter(segment => !TEST_DIRECTORIES.has(segment.toLowerCase()));
+    const placedDirectory = placed.slice(0, -1);
+    // The nearest source of the same name; ties go to the shallower directory
+    let nearest: string[] | null = null;
+    for (const segments of sourcesByName.get(testedName(entry.path)) ?? []) {
+      if (!nearest) {
+        nearest = segments;
+        continue;
+      }
+      const shared = sharedSegments(segments, placedDirectory);
+      const best = sharedSegments(nearest, placedDirectory);
+      if (shared > best || (shared === best && segments.length < nearest.length)) {
+        nearest = segments;
+      }
+    }
+    const directory = directoryFor(directoryOf([...(nearest ?? placedDirectory), ""].join("/")));
+    directory.testFiles++;
+    directory.testLines += lines.get(entry.path)!;
+  }
+
+  const sorted = Array.from(directories.values())
+    .sort((a, b) => b.sourceLines - a.sourceLines || b.testLines - a.testLines || a.path.localeCompare(b.path));
+  const sourceLines = sources.reduce((sum, entry) => sum + lines.get(entry.path)!, 0);
+  const testLines = tests.reduce((sum, entry) => sum + lines.get(entry.path)!, 0);
+
+  return {
+    frameworks,
+    testFiles: tests.length,
+    sourceFiles: sources.length,
+    testLines,
+    sourceLines,
+    ratio: sourceLines > 0 ? Math.round((testLines / sourceLines) * 100) / 100 : null,
+    directories: sorted.slice(0, MAX_LISTED_DIRECTORIES),
+    untestedDirectories: sorted
+      .filter(directory => directory.sourceFiles > 0 && directory.testFiles === 0)
+      .map(directory => directory.path),
+    estimated,
+  };
+}
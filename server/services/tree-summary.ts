@@ -0,0 +1,138 @@
+import { type TreeEntry, isIgnoredPath } from "./git-tree";
+
+// Listings up to this many entries go into prompts in full
+const MAX_LISTING_LINES = 400;
+// Files named per directory once a listing is summarized, largest first
+const TOP_FILES_PER_DIRECTORY = 8;
+// Subdirectories named per directory, those with the most files first
+const MAX_SUBDIRECTORIES = 40;
+
+export interface TreeSummaryOptions {
+  // The tree itself is incomplete, e.g. because the repository was too big to list
+  truncated?: boolean;
+  // A file whose directories are always expanded, like the one being analyzed
+  focusPath?: string;
+  maxLines?: number;
+}
+
+interface DirectoryNode {
+  path: string;
+  depth: number;
+  files: TreeEntry[];
+  subdirectories: DirectoryNode[];
+  // Files in the directory and everything below it
+  totalFiles: number;
+}
+
+function buildDirectories(entries: TreeEntry[]): { root: DirectoryNode; count: number; maxDepth: number } {
+  const root: DirectoryNode = { path: "", depth: 0, files: [], subdirectories: [], totalFiles: 0 };
+  const directories = new Map<string, DirectoryNode>([["", root]]);
+  let maxDepth = 0;
+
+  const ensure = (dir: string): DirectoryNode => {
+    const existing = directories.get(dir);
+    if (existing) {
+      return existing;
+    }
+    const separator = dir.lastIndexOf("/");
+    const parent = ensure(separator === -1 ? "" : dir.slice(0, separator));
+    const node: DirectoryNode = { path: dir, depth: parent.depth + 1, files: [], subdirectories: [], totalFiles: 0 };
+    parent.subdirectories.push(node);
+    directories.set(dir, node);
+    maxDepth = Math.max(maxDepth, node.depth);
+    return node;
+  };
+
+  for (const entry of entries) {
+    if (entry.type === "tree") {
+      ensure(entry.path);
+      continue;
+    }
+    const separator = entry.path.lastIndexOf("/");
+    const node = ensure(separator === -1 ? "" : entry.path.slice(0, separator));
+    node.files.push(entry);
+    for (let dir = node.path; ; dir = dir.slice(0, Math.max(dir.lastIndexOf("/"), 0))) {
+      directories.get(dir)!.totalFiles++;
+      if (!dir) {
+        break;
+      }
+    }
+  }
+
+  return { root, count: directories.size - 1, maxDepth };
+}
+
+// Listing of a directory down to expandDepth; deeper directories are reduced to their file counts
+function renderDirectory(node: DirectoryNode, expandDepth: number, focusPath: string, lines: string[]): void {
+  const onFocusPath = focusPath.startsWith(`${node.path}/`);
+  if (node.path) {
+    const collapsed = !onFocusPath && (node.depth >= expandDepth || isIgnoredPath(`${node.path}/`));
+    lines.push(`directory: ${node.path} (${node.totalFiles} files${collapsed ? ", contents omitted" : ""})`);
+    if (collapsed) {
+      return;
+    }
+  }
+  const location = node.path || "the repository root";
+
+  const files = [...node.files].sort((a, b) => (b.size ?? 0) - (a.size ?? 0));
+  const shown = files.slice(0, TOP_FILES_PER_DIRECTORY);
+  const focused = files.find(file => file.path === focusPath);
+  if (focused && !shown.includes(focused)) {
+    shown.push(focused);
+  }
+  for (const file of shown.sort((a, b) => a.path.localeCompare(b.path))) {
+    lines.push(`file: ${file.path}`);
+  }
+  if (files.length > shown.length) {
+    lines.push(`... ${files.length - shown.length} more files in ${location}`);
+  }
+
+  const subdirectories = [...node.subdirectories].sort((a, b) => b.totalFiles - a.totalFiles);
+  const listed = subdirectories.slice(0, MAX_SUBDIRECTORIES);
+  const focusedDirectory = subdirectories.find(dir => focusPath.startsWith(`${dir.path}/`));
+  if (focusedDirectory && !listed.includes(focusedDirectory)) {
+    listed.push(focusedDirectory);
+  }
+  for (const dir of listed.sort((a, b) => a.path.localeCompare(b.path))) {
+    renderDirectory(dir, expandDepth, focusPath, lines);
+  }
+  const remaining = subdirectories.filter(dir => !listed.includes(dir));
+  if (remaining.length > 0) {
+    const remainingFiles = remaining.reduce((sum, dir) => sum + dir.totalFiles, 0);
+    lines.push(`... ${remaining.length} more directories with ${remainingFiles} files in ${location}`);
+  }
+}
+
+// Directory structure of a repository for AI prompts. Small trees are listed
+// in full; big ones are expanded only as many levels deep as fit in maxLines,
+// with file counts per directory and only its largest files named.
+export function summarizeTree(tree: TreeEntry[], options: TreeSummaryOptions = {}): string {
+  const { truncated = false, focusPath = "", maxLines = MAX_LISTING_LINES } = options;
+  const entries = tree.filter(item => item.type === 'tree' || item.type === 'blob');
+
+  let lines: string[];
+  if (entries.length <= maxLines) {
+    lines = entries.map(item => `${item.type === 'tree' ? 'directory' : 'file'}: ${item.path}`);
+  } else {
+    const { root, count, maxDepth } = buildDirectories(entries);
+
+    // Expand one more level at a time while the listing still fits
+    lines = [];
+    renderDirectory(root, 1, focusPath, lines);
+    for (let depth = 2; depth <= maxDepth + 1; depth++) {
+      const deeper: string[] = [];
+      renderDirectory(root, depth, focusPath, deeper);
+      if (deeper.length > maxLines) {
+        break;
+      }
+      lines = deeper;
+    }
+
+    lines.unshift(`Summary of ${root.totalFiles} files in ${count} directories; directories below the expanded levels show only their file counts`);
+  }
+
+  if (truncated) {
+    lines.unshift("Note: the repository is too large to list in full, so some directories are missing");
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,363 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { Readable } from "stream";
+import { createGunzip } from "zlib";
+import { type GitHubClient, type RepoTarget, RateLimitError } from "./github";
+import { type RepositoryFiles, type TreeEntry, apiRepositoryFiles, fetchFileContent, fetchRepositoryTree } from "./git-tree";
+
+// "tarball" downloads a repository once and reads it from disk, "api" reads
+// every file through the contents and blobs APIs
+const FETCH_MODE = process.env.REPOSITORY_FETCH_MODE === "api" ? "api" : "tarball";
+
+// Limits on what a single workspace may take up
+const MAX_TARBALL_BYTES = Number(process.env.WORKSPACE_MAX_TARBALL_BYTES) || 100 * 1024 * 1024;
+export const MAX_EXTRACTED_BYTES = Number(process.env.WORKSPACE_MAX_EXTRACTED_BYTES) || 500 * 1024 * 1024;
+export const MAX_FILES = 50_000;
+// Larger files are listed in the tree but not written to disk
+const MAX_EXTRACTED_FILE_BYTES = 5 * 1024 * 1024;
+
+// How long an unused workspace is kept around for follow-up requests
+const WORKSPACE_TTL_MS = 10 * 60 * 1000;
+
+const BLOCK_SIZE = 512;
+
+// Thrown when a tarball is larger than the workspace limits allow
+export class WorkspaceLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceLimitError";
+  }
+}
+
+// A repository tarball extracted to a temporary directory
+export class RepositoryWorkspace implements RepositoryFiles {
+  readonly directory: string;
+  readonly tree: TreeEntry[];
+  private extracted: Set<string>;
+  // Reads files too large to extract through the API instead
+  private readMissing?: (entry: TreeEntry) => Promise<string>;
+
+  constructor(
+    directory: string,
+    tree: TreeEntry[],
+    extracted: Set<string>,
+    readMissing?: (entry: TreeEntry) => Promise<string>
+  ) {
+    this.directory = directory;
+    this.tree = tree;
+    this.extracted = extracted;
+    this.readMissing = readMissing;
+  }
+
+  async readFile(entry: TreeEntry): Promise<string> {
+    if (!this.extracted.has(entry.path)) {
+      if (this.readMissing) {
+        return this.readMissing(entry);
+      }
+      throw new Error(`${entry.path} was not extracted to the workspace`);
+    }
+    return fs.readFile(path.join(this.directory, entry.path), "utf-8");
+  }
+
+  isOnDisk(entry: TreeEntry): boolean {
+    return this.extracted.has(entry.path);
+  }
+
+  async dispose(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+interface TarHeader {
+  name: string;
+  size: number;
+  type: string;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+function parseHeader(block: Buffer): TarHeader {
+  const name = readString(block, 0, 100);
+  const prefix = readString(block, 345, 155);
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    size: parseInt(readString(block, 124, 12).trim() || "0", 8),
+    type: readString(block, 156, 1) || "0",
+  };
+}
+
+// Pax extended headers are "<length> <key>=<value>\n" records
+function parsePaxPath(content: Buffer): string | null {
+  for (const record of content.toString("utf-8").split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+// Path inside the repository once the leading directories are dropped;
+// GitHub tarballs put everything under an "<owner>-<repo>-<sha>/" directory
+function repositoryPath(name: string, stripComponents: number): string | null {
+  const segments = name.split("/").filter(Boolean).slice(stripComponents);
+  if (segments.length === 0 || segments.some(segment => segment === "." || segment === "..")) {
+    return null;
+  }
+  return segments.join("/");
+}
+
+// Git blob SHA of some content, so workspace entries carry the same SHAs as the trees API
+function blobSha(content: Buffer): string {
+  return createHash("sha1").update(`blob ${content.length}\0`).update(content).digest("hex");
+}
+
+// Extract a gzipped tarball into directory and return its tree
+export async function extractTarball(
+  archive: Readable,
+  directory: string,
+  stripComponents = 1
+): Promise<{ tree: TreeEntry[]; extracted: Set<string> }> {
+  const entries = new Map<string, TreeEntry>();
+  const extracted = new Set<string>();
+  let fileCount = 0;
+  let extractedBytes = 0;
+
+  const addDirectories = (filePath: string) => {
+    const segments = filePath.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      const dir = segments.slice(0, depth).join("/");
+      if (!entries.has(dir)) {
+        entries.set(dir, { path: dir, type: "tree", sha: "" });
+      }
+    }
+  };
+
+  const finishEntry = async (header: TarHeader, content: Buffer[] | null, overridePath: string | null) => {
+    const filePath = repositoryPath(overridePath ?? header.name, stripComponents);
+    if (!filePath) {
+      return;
+    }
+
+    if (header.type === "5") {
+      addDirectories(`${filePath}/`);
+      return;
+    }
+    // Symlinks, hard links and submodule placeholders carry no content to analyze
+    if (header.type !== "0") {
+      return;
+    }
+
+    if (++fileCount > MAX_FILES) {
+      throw new WorkspaceLimitError(`Repository has more than ${MAX_FILES} files`);
+    }
+    extractedBytes += header.size;
+    if (extractedBytes > MAX_EXTRACTED_BYTES) {
+      throw new WorkspaceLimitError(`Repository is larger than ${MAX_EXTRACTED_BYTES} bytes extracted`);
+    }
+
+    addDirectories(filePath);
+    if (!content) {
+      entries.set(filePath, { path: filePath, type: "blob", sha: "", size: header.size });
+      return;
+    }
+
+    const data = Buffer.concat(content);
+    const target = path.join(directory, filePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+    entries.set(filePath, { path: filePath, type: "blob", sha: blobSha(data), size: header.size });
+    extracted.add(filePath);
+  };
+
+  let pending = Buffer.alloc(0);
+  let current: { header: TarHeader; remaining: number; chunks: Buffer[] | null } | null = null;
+  // Padding after the current entry's content, up to the next 512-byte block
+  let skip = 0;
+  let longPath: string | null = null;
+
+  // Feed decompressed bytes through the tar format one 512-byte block at a time
+  const consume = async (chunk: Buffer) => {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+    while (pending.length > 0) {
+      if (skip > 0) {
+        const skipped = Math.min(skip, pending.length);
+        skip -= skipped;
+        pending = pending.subarray(skipped);
+        continue;
+      }
+
+      if (current) {
+        const taken = Math.min(current.remaining, pending.length);
+        current.chunks?.push(pending.subarray(0, taken));
+        current.remaining -= taken;
+        pending = pending.subarray(taken);
+        if (current.remaining > 0) {
+          return;
+        }
+
+        const { header, chunks } = current;
+        current = null;
+        skip = (BLOCK_SIZE - (header.size % BLOCK_SIZE)) % BLOCK_SIZE;
+        if (header.type === "x") {
+          longPath = parsePaxPath(Buffer.concat(chunks!));
+        } else if (header.type === "L") {
+          longPath = readString(Buffer.concat(chunks!), 0, header.size);
+        } else if (header.type !== "g") {
+          await finishEntry(header, chunks, longPath);
+          longPath = null;
+        }
+        continue;
+      }
+
+      if (pending.length < BLOCK_SIZE) {
+        return;
+      }
+      const block = pending.subarray(0, BLOCK_SIZE);
+      pending = pending.subarray(BLOCK_SIZE);
+      // The archive ends with zero-filled blocks
+      if (block.every(byte => byte === 0)) {
+        continue;
+      }
+
+      const header = parseHeader(block);
+      const isMetadata = header.type === "x" || header.type === "L" || header.type === "g";
+      const keep = isMetadata || (header.type === "0" && header.size <= MAX_EXTRACTED_FILE_BYTES);
+      if (header.size === 0) {
+        if (!isMetadata) {
+          await finishEntry(header, keep ? [] : null, longPath);
+          longPath = null;
+        }
+        continue;
+      }
+      current = { header, remaining: header.size, chunks: keep ? [] : null };
+    }
+  };
+
+  const gunzip = createGunzip();
+  let downloadedBytes = 0;
+  archive.on("data", (chunk: Buffer) => {
+    downloadedBytes += chunk.length;
+    if (downloadedBytes > MAX_TARBALL_BYTES) {
+      archive.destroy(new WorkspaceLimitError(`Repository tarball is larger than ${MAX_TARBALL_BYTES} bytes`));
+    }
+  });
+  // pipe() doesn't forward errors, so a failed download would otherwise leave gunzip waiting
+  archive.on("error", err => gunzip.destroy(err));
+  archive.pipe(gunzip);
+
+  try {
+    for await (const chunk of gunzip) {
+      await consume(chunk);
+    }
+  } finally {
+    archive.destroy();
+  }
+
+  return { tree: Array.from(entries.values()), extracted };
+}
+
+// Where a repository tarball can be downloaded from
+export interface TarballSource {
+  client: GitHubClient;
+  // Identifies the repository and ref among the client's workspaces
+  key: string;
+  archivePath: string;
+  // Reads a file the workspace skipped for its size, by path
+  readMissing?: (entry: TreeEntry) => Promise<string>;
+}
+
+// Download a repository at a ref and extract it to a new temporary directory
+export async function createWorkspace({ client, archivePath, readMissing }: TarballSource): Promise<RepositoryWorkspace> {
+  const response = await client.download(archivePath);
+  const declaredSize = Number(response.headers["content-length"]);
+  if (declaredSize > MAX_TARBALL_BYTES) {
+    response.data.destroy();
+    throw new WorkspaceLimitError(`Repository tarball is larger than ${MAX_TARBALL_BYTES} bytes`);
+  }
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "repository-workspace-"));
+  try {
+    const { tree, extracted } = await extractTarball(response.data, directory);
+    return new RepositoryWorkspace(directory, tree, extracted, readMissing);
+  } catch (err) {
+    await fs.rm(directory, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+// Workspaces by client and repository ref, shared by the routes that need the
+// same files shortly after each other
+const workspaces = new WeakMap<GitHubClient, Map<string, { workspace: Promise<RepositoryWorkspace>; timer: NodeJS.Timeout }>>();
+
+function getWorkspace(source: TarballSource): Promise<RepositoryWorkspace> {
+  let byRef = workspaces.get(source.client);
+  if (!byRef) {
+    byRef = new Map();
+    workspaces.set(source.client, byRef);
+  }
+
+  const { key } = source;
+  const existing = byRef.get(key);
+  const workspace = existing?.workspace ?? createWorkspace(source);
+  if (existing) {
+    clearTimeout(existing.timer);
+  }
+
+  const timer = setTimeout(() => {
+    byRef!.delete(key);
+    workspace.then(created => created.dispose()).catch(() => undefined);
+  }, WORKSPACE_TTL_MS);
+  timer.unref();
+  byRef.set(key, { workspace, timer });
+
+  // Failed downloads aren't kept so the next request can try again
+  workspace.catch(() => {
+    if (byRef!.get(key)?.workspace === workspace) {
+      clearTimeout(timer);
+      byRef!.delete(key);
+    }
+  });
+  return workspace;
+}
+
+// Files of a repository from a tarball workspace when possible, and from
+// fallback (which reads through the API) when the tarball can't be used
+export async function openWorkspaceFiles(
+  source: TarballSource,
+  fallback: () => Promise<RepositoryFiles>
+): Promise<RepositoryFiles> {
+  if (FETCH_MODE === "tarball") {
+    try {
+      return await getWorkspace(source);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        throw err;
+      }
+      console.error(`Error fetching tarball of ${source.key}, falling back to the API:`, err);
+    }
+  }
+
+  return fallback();
+}
+
+// Files of a GitHub repository at a ref
+export async function openRepositoryFiles(target: RepoTarget, ref: string): Promise<RepositoryFiles> {
+  const { client, owner, repo } = target;
+  return openWorkspaceFiles(
+    {
+      client,
+      key: `${owner}/${repo}@${ref}`,
+      archivePath: `/repos/${owner}/${repo}/tarball/${encodeURIComponent(ref)}`,
+      readMissing: entry => fetchFileContent(target, entry.path, ref),
+    },
+    async () => apiRepositoryFiles(target, await fetchRepositoryTree(target, ref))
+  );
+}
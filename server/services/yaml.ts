@@ -0,0 +1,279 @@
+// A small YAML reader for CI and deploy configs: block and flow mappings and
+// sequences, quoted, plain and block scalars. Scalars stay strings (null for
+// "~", "null" and empty values), anchors and tags are dropped, aliases read
+// as null, and only the first document of a stream is read.
+
+export type YamlValue = string | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface Line {
+  indent: number;
+  // Content without indentation, trailing spaces or comments
+  text: string;
+  // Index of the raw line, for block scalars
+  index: number;
+}
+
+export class YamlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "YamlParseError";
+  }
+}
+
+const KEY_PATTERN = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^"'\s#\-?:,[\]{}][^#]*?|-[^\s#][^#]*?))\s*:(?:\s+(.*))?$/;
+const BLOCK_SCALAR_PATTERN = /^[|>][-+]?\d?$/;
+
+// Cut a comment starting at a "#" outside quotes at the start or after a space
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+    return text.slice(1, -1).replace(/\\(["\\/])/g, "$1").replace(/\\n/g, "\n").replace(/\\t/g, "\t");
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+function scalar(text: string): YamlValue {
+  const value = text.replace(/^(?:[&!][^\s]*\s*)+/, "").trim();
+  if (value === "" || value === "~" || value === "null" || value.startsWith("*")) {
+    return null;
+  }
+  return unquote(value);
+}
+
+// Split flow collection content at top-level commas
+function splitFlow(content: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(content.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(content.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function flowValue(text: string): YamlValue {
+  const value = text.trim();
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return splitFlow(value.slice(1, -1)).map(flowValue);
+  }
+  if (value.startsWith("{") && value.endsWith("}")) {
+    const mapping: { [key: string]: YamlValue } = {};
+    for (const entry of splitFlow(value.slice(1, -1))) {
+      const match = entry.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+      if (match) {
+        mapping[unquote(match[1])] = flowValue(match[2] ?? "");
+      } else {
+        mapping[unquote(entry)] = null;
+      }
+    }
+    return mapping;
+  }
+  return scalar(value);
+}
+
+function bracketBalance(text: string): number {
+  let balance = 0;
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      balance++;
+    } else if (char === "]" || char === "}") {
+      balance--;
+    }
+  }
+  return balance;
+}
+
+class YamlReader {
+  private lines: Line[];
+  private position = 0;
+
+  constructor(private raw: string[]) {
+    this.lines = [];
+    for (let index = 0; index < raw.length; index++) {
+      const text = stripComment(raw[index]).replace(/\s+$/, "");
+      if (/^(---|\.\.\.)(\s|$)/.test(text)) {
+        if (this.lines.length > 0) break;
+        continue;
+      }
+      if (text.trim() !== "" && !text.trimStart().startsWith("%")) {
+        this.lines.push({ indent: text.length - text.trimStart().length, text: text.trimStart(), index });
+      }
+    }
+  }
+
+  read(): YamlValue {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    return this.node(this.lines[0].indent);
+  }
+
+  private get current(): Line | undefined {
+    return this.lines[this.position];
+  }
+
+  private node(indent: number): YamlValue {
+    const line = this.current;
+    if (!line || line.indent < indent) {
+      return null;
+    }
+    if (line.text === "-" || line.text.startsWith("- ")) {
+      return this.sequence(line.indent);
+    }
+    if (KEY_PATTERN.test(line.text)) {
+      return this.mapping(line.indent);
+    }
+    return this.inline(line.text, line.indent);
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    while (this.current && this.current.indent === indent && (this.current.text === "-" || this.current.text.startsWith("- "))) {
+      const line = this.current;
+      const item = line.text.slice(1).trimStart();
+      if (item === "") {
+        this.position++;
+        items.push(this.current && this.current.indent > indent ? this.node(this.current.indent) : null);
+      } else {
+        // The item's content continues as if it started on its own line
+        const itemIndent = indent + line.text.length - item.length;
+        this.lines[this.position] = { indent: itemIndent, text: item, index: line.index };
+        items.push(this.node(itemIndent));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    while (this.current && this.current.indent === indent) {
+      const match = this.current.text.match(KEY_PATTERN);
+      if (!match) {
+        throw new YamlParseError(`Expected a key on line ${this.current.index + 1}`);
+      }
+      const key = match[1] ?? match[2]?.replace(/''/g, "'") ?? match[3].trim();
+      const rest = match[4]?.trim() ?? "";
+
+      if (rest === "" || /^[&!]\S*$/.test(rest)) {
+        this.position++;
+        const next = this.current;
+        // A sequence may sit at the same indentation as its key
+        const nested = next && (next.indent > indent || (next.indent === indent && (next.text === "-" || next.text.startsWith("- "))));
+        mapping[key] = nested ? this.node(next.indent) : null;
+      } else {
+        mapping[key] = this.inline(rest, indent);
+      }
+    }
+    return mapping;
+  }
+
+  // A value on the current line, with the lines that continue it
+  private inline(text: string, indent: number): YamlValue {
+    const line = this.current!;
+    this.position++;
+
+    if (BLOCK_SCALAR_PATTERN.test(text)) {
+      return this.blockScalar(line.index, indent, text.startsWith(">"));
+    }
+
+    let value = text;
+    if (value.startsWith("[") || value.startsWith("{")) {
+      while (bracketBalance(value) > 0 && this.current) {
+        value += ` ${this.current.text}`;
+        this.position++;
+      }
+      return flowValue(value);
+    }
+
+    // Plain scalars may continue on more indented lines
+    while (this.current && this.current.indent > indent && !value.startsWith('"') && !value.startsWith("'")) {
+      value += ` ${this.current.text}`;
+      this.position++;
+    }
+    return scalar(value);
+  }
+
+  // Raw lines indented past the key, kept as written or folded into one line
+  private blockScalar(keyIndex: number, indent: number, folded: boolean): string {
+    const content: string[] = [];
+    let index = keyIndex + 1;
+    let blockIndent: number | null = null;
+    for (; index < this.raw.length; index++) {
+      const rawLine = this.raw[index];
+      if (rawLine.trim() === "") {
+        content.push("");
+        continue;
+      }
+      const lineIndent = rawLine.length - rawLine.trimStart().length;
+      if (lineIndent <= indent) {
+        break;
+      }
+      blockIndent ??= lineIndent;
+      content.push(rawLine.slice(Math.min(blockIndent, lineIndent)).replace(/\s+$/, ""));
+    }
+    while (this.current && this.current.index < index) {
+      this.position++;
+    }
+    while (content.length > 0 && content[content.length - 1] === "") {
+      content.pop();
+    }
+    return folded ? content.join(" ").replace(/\s+/g, " ").trim() : content.join("\n");
+  }
+}
+
+// Parse the first document of a YAML stream
+export function parseYaml(content: string): YamlValue {
+  return new YamlReader(content.replace(/\r\n?/g, "\n").split("\n")).read();
+}
+
+// Values as the shape a caller expects, or an empty one
+export function yamlMapping(value: YamlValue | undefined): { [key: string]: YamlValue } {
+  return value && typeof value === "object" && !Array.isArray(value) ? value : {};
+}
+
+export function yamlList(value: YamlValue | undefined): YamlValue[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value === null || value === undefined ? [] : [value];
+}
+
+export function yamlString(value: YamlValue | undefined): string | null {
+  return typeof value === "string" ? value : null;
+}
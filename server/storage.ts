@@ -6,8 +6,9 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<any | undefined>;
   createUser(user: any): Promise<any>;
   getRepository(id: string): Promise<Repository | undefined>;
-  getRepositoryByFullName(fullName: string): Promise<Repository | undefined>;
+  getRepositoryByCommit(host: string, fullName: string, commitSha: string | null): Promise<Repository | undefined>;
   createRepository(repo: InsertRepository): Promise<Repository>;
+  updateRepository(id: string, changes: Partial<InsertRepository>): Promise<Repository | undefined>;
 }
 
 // In-memory storage implementation
@@ -43,9 +44,12 @@ export class MemStorage implements IStorage {
     return this.repositories.get(id);
   }
 
-  async getRepositoryByFullName(fullName: string): Promise<Repository | undefined> {
+  // Names are matched without case, since hosts accept any casing of owner/repo
+  // while stored names keep the host's own
+  async getRepositoryByCommit(host: string, fullName: string, commitSha: string | null): Promise<Repository | undefined> {
+    const name = fullName.toLowerCase();
     return Array.from(this.repositories.values()).find(
-      (repo) => repo.fullName === fullName,
+      (repo) => repo.host === host && repo.fullName.toLowerCase() === name && repo.commitSha === commitSha,
     );
   }
 
@@ -56,6 +60,21 @@ export class MemStorage implements IStorage {
     this.repositories.set(repo.id, repository);
     return repository;
   }
+
+  async updateRepository(id: string, changes: Partial<InsertRepository>): Promise<Repository | undefined> {
+    const existing = this.repositories.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const repository: Repository = {
+      ...existing,
+      ...changes,
+      id,
+    } as Repository;
+    this.repositories.set(id, repository);
+    return repository;
+  }
 }
 
 export const storage = new MemStorage();
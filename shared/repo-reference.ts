@@ -0,0 +1,121 @@
+// A repository named by a URL, an SSH remote or owner/repo shorthand,
+// optionally pointing at a ref and a path inside it
+export interface RepoReference {
+  host: string;
+  owner: string;
+  repo: string;
+  ref?: string;
+  path?: string;
+  // Whether path names a directory (/tree/) or a file (/blob/)
+  pathType?: "tree" | "blob";
+}
+
+export const DEFAULT_REPO_HOST = "github.com";
+// Host recorded for repositories analyzed from the server's disk or an upload
+export const LOCAL_REPO_HOST = "local";
+
+// Owner (or GitLab group) and repository names
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+// Whether a Bitbucket /src/ path names a file; Bitbucket uses the same view
+// for files and directories, so a file extension is taken to mean a file
+function looksLikeFile(path: string[]): boolean {
+  return /\.[A-Za-z0-9]+$/.test(path[path.length - 1]);
+}
+
+function buildReference(host: string, segments: string[]): RepoReference | null {
+  // GitLab separates the project from its pages with "/-/"; that and a
+  // trailing .git are the only ways to tell a project in a subgroup
+  // (group/subgroup/repo) from a page of group/subgroup
+  let marker = segments.indexOf("-");
+  if (marker < 0 && segments.length > 2 && /\.git$/i.test(segments[segments.length - 1])) {
+    marker = segments.length;
+  }
+  const ownerSegments = marker >= 2 ? segments.slice(0, marker - 1) : segments.slice(0, 1);
+  const [rawRepo, kind, ref, ...rest] = marker >= 2
+    ? [segments[marker - 1], ...segments.slice(marker + 1)]
+    : segments.slice(1);
+
+  const owner = ownerSegments.join("/");
+  const repo = (rawRepo || "").replace(/\.git$/i, "");
+  if (ownerSegments.length === 0 || !ownerSegments.every(segment => NAME_PATTERN.test(segment)) ||
+      !repo || !NAME_PATTERN.test(repo) || repo === "." || repo === "..") {
+    return null;
+  }
+
+  const reference: RepoReference = { host: host.toLowerCase(), owner, repo };
+  if (kind === undefined) {
+    return reference;
+  }
+  // Only tree, blob and (Bitbucket's) src views say anything about the ref;
+  // other pages (issues, pulls, ...) still identify the repository
+  if ((kind === "tree" || kind === "blob" || kind === "src") && ref) {
+    // Branch names containing slashes can't be told apart from the path
+    // here, so the first segment is taken as the ref
+    reference.ref = decodeSegment(ref);
+    if (rest.length > 0) {
+      reference.path = rest.map(decodeSegment).join("/");
+      reference.pathType = kind === "src" ? (looksLikeFile(rest) ? "blob" : "tree") : kind;
+    }
+  }
+  return reference;
+}
+
+function splitPath(path: string): string[] {
+  return path.split(/[?#]/)[0].split("/").filter(Boolean);
+}
+
+// Parse any of:
+//   https://github.com/owner/repo(.git)
+//   https://github.com/owner/repo/tree/<ref>/<path>
+//   https://github.com/owner/repo/blob/<ref>/<path>
+//   https://gitlab.com/group/subgroup/repo/-/tree/<ref>/<path>
+//   https://bitbucket.org/workspace/repo/src/<ref>/<path>
+//   github.com/owner/repo
+//   git@github.com:owner/repo.git
+//   ssh://git@github.com/owner/repo.git
+//   owner/repo (on defaultHost)
+// Returns null when the input doesn't name a repository.
+export function parseRepoReference(input: string, defaultHost: string = DEFAULT_REPO_HOST): RepoReference | null {
+  const value = input.trim();
+  if (!value) {
+    return null;
+  }
+
+  // scp-style SSH remote: git@host:owner/repo.git
+  const scp = value.match(/^[\w.-]+@([\w.-]+):(?!\/)(.+)$/);
+  if (scp) {
+    return buildReference(scp[1], splitPath(scp[2]));
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return null;
+    }
+    if (!["http:", "https:", "ssh:", "git:"].includes(url.protocol)) {
+      return null;
+    }
+    return buildReference(url.hostname.replace(/^www\./, ""), splitPath(url.pathname));
+  }
+
+  const segments = splitPath(value);
+  // host/owner/repo without a scheme; hosts are told apart by their dot
+  if (segments.length >= 3 && segments[0].includes(".")) {
+    return buildReference(segments[0].replace(/^www\./, ""), segments.slice(1));
+  }
+  if (segments.length === 2) {
+    return buildReference(defaultHost, segments);
+  }
+  return null;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -19,8 +19,17 @@ export type User = typeof users.$inferSelect;
 
 // Repository schema
 export const repository = pgTable("repositories", {
+  // "<host>:<repository id>@<commit>", namespaced by host since ids are only unique per
+  // instance; "local:<key>@<commit>" for repositories on the server's disk
   id: text("id").primaryKey(),
-  fullName: text("full_name").notNull().unique(),
+  host: text("host").notNull().default("github.com"),
+  fullName: text("full_name").notNull(),
+  // Branch, tag or commit the repository was analyzed at
+  ref: text("ref"),
+  // Commit the ref resolved to; null for empty repositories
+  commitSha: text("commit_sha"),
+  // Directory the analyzed URL pointed into, where file browsing starts
+  path: text("path"),
   description: text("description"),
   ownerAvatar: text("owner_avatar"),
   stars: text("stars"),
@@ -35,9 +44,26 @@ export const repository = pgTable("repositories", {
   activeContributors: integer("active_contributors"),
   languages: jsonb("languages").notNull(),
   commitActivity: jsonb("commit_activity").notNull(),
+  // Commits per weekday and hour (UTC), Sunday first
+  punchCard: jsonb("punch_card").notNull(),
+  codeFrequency: jsonb("code_frequency").notNull(),
+  releases: jsonb("releases").notNull(),
   complexFiles: jsonb("complex_files").notNull(),
+  hotspots: jsonb("hotspots").notNull(),
+  testSuite: jsonb("test_suite").notNull(),
+  buildDeploy: jsonb("build_deploy").notNull(),
+  community: jsonb("community").notNull(),
   dependencies: jsonb("dependencies").notNull(),
-});
+  qualityBreakdown: jsonb("quality_breakdown").notNull(),
+  coverage: jsonb("coverage"),
+  contributors: jsonb("contributors").notNull(),
+  activeWindowDays: integer("active_window_days"),
+  contributorRisk: jsonb("contributor_risk").notNull(),
+  // GitHub was still computing /stats/* data when the repository was analyzed
+  statsPending: boolean("stats_pending").notNull().default(false),
+}, (table) => [
+  unique().on(table.host, table.fullName, table.commitSha),
+]);
 
 // Repository schema validation
 export const repositorySchema = createInsertSchema(repository);
@@ -54,20 +80,348 @@ export const languageSchema = z.object({
 
 // Commit activity data for chart
 export const commitActivitySchema = z.object({
+  // ISO date of the week's Sunday
+  week: z.string(),
   month: z.string(),
   count: z.number(),
+  // Commits per day, Sunday to Saturday
+  days: z.array(z.number()).length(7),
 });
 
+// Commits per weekday (Sunday first) and hour of the day in UTC
+export const punchCardSchema = z.array(z.array(z.number()).length(24)).length(7);
+
 // Complex file data
 export const complexFileSchema = z.object({
   path: z.string(),
+  language: z.string(),
+  cyclomatic: z.number(),
+  cognitive: z.number(),
+  // Cyclomatic complexity normalized to 0-100 for display
   complexity: z.number(),
   level: z.enum(["High", "Medium", "Low"]),
 });
 
+export type ComplexFile = z.infer<typeof complexFileSchema>;
+
+// A file's recent changes next to its complexity
+export const hotspotSchema = z.object({
+  path: z.string(),
+  language: z.string(),
+  // Commits that touched the file in the window
+  changes: z.number(),
+  cyclomatic: z.number(),
+  level: z.enum(["High", "Medium", "Low"]),
+  // Changes times complexity, relative to the file with the most of both (0-100)
+  score: z.number(),
+  // Both more complex and more often changed than most analyzed files
+  hotspot: z.boolean(),
+});
+
+export type Hotspot = z.infer<typeof hotspotSchema>;
+
+export const hotspotAnalysisSchema = z.object({
+  windowDays: z.number(),
+  // Highest score first
+  files: z.array(hotspotSchema),
+  // Some files have more commits than were read, so their counts are lower bounds
+  truncated: z.boolean(),
+});
+
+export type HotspotAnalysis = z.infer<typeof hotspotAnalysisSchema>;
+
+// Test frameworks and how much test code there is next to the source
+export const testFrameworkSchema = z.object({
+  name: z.enum(["Jest", "Vitest", "Mocha", "pytest", "Go testing", "JUnit", "RSpec"]),
+  // File the framework was recognized from
+  evidence: z.string(),
+});
+
+export type TestFramework = z.infer<typeof testFrameworkSchema>;
+
+export const testDirectorySchema = z.object({
+  path: z.string(),
+  sourceFiles: z.number(),
+  sourceLines: z.number(),
+  testFiles: z.number(),
+  testLines: z.number(),
+});
+
+export type TestDirectory = z.infer<typeof testDirectorySchema>;
+
+export const testSuiteSchema = z.object({
+  frameworks: z.array(testFrameworkSchema),
+  testFiles: z.number(),
+  sourceFiles: z.number(),
+  // Non-blank lines
+  testLines: z.number(),
+  sourceLines: z.number(),
+  // Test lines per source line; null without source
+  ratio: z.number().nullable(),
+  // Largest directories by source lines
+  directories: z.array(testDirectorySchema),
+  // Directories with source and no tests at all, largest first
+  untestedDirectories: z.array(z.string()),
+  // Some files weren't read, so their lines are estimated from their size
+  estimated: z.boolean(),
+});
+
+export type TestSuite = z.infer<typeof testSuiteSchema>;
+
+// How a repository is built and deployed, from its CI, container and deploy configs
+export const pipelineJobSchema = z.object({
+  name: z.string(),
+  // Runner labels or the image a job runs in
+  runsOn: z.string().nullable(),
+  // Matrix axes like "node: 18, 20"
+  matrix: z.array(z.string()),
+  steps: z.number(),
+  needs: z.array(z.string()),
+});
+
+export type PipelineJob = z.infer<typeof pipelineJobSchema>;
+
+export const pipelineSchema = z.object({
+  file: z.string(),
+  system: z.enum(["GitHub Actions", "GitLab CI", "Bitbucket Pipelines", "CircleCI", "Jenkins"]),
+  name: z.string().nullable(),
+  // Events that run the pipeline, like "push (main)" or "schedule (0 3 * * 1)"
+  triggers: z.array(z.string()),
+  jobs: z.array(pipelineJobSchema),
+});
+
+export type Pipeline = z.infer<typeof pipelineSchema>;
+
+export const deployTargetSchema = z.object({
+  platform: z.string(),
+  // Config file or pipeline the target was found in
+  file: z.string(),
+  detail: z.string().nullable(),
+});
+
+export type DeployTarget = z.infer<typeof deployTargetSchema>;
+
+export const containerConfigSchema = z.object({
+  file: z.string(),
+  kind: z.enum(["Dockerfile", "Compose"]),
+  // Base images of a Dockerfile's stages, or the images of Compose services
+  images: z.array(z.string()),
+  // Compose services; empty for Dockerfiles
+  services: z.array(z.string()),
+  ports: z.array(z.string()),
+});
+
+export type ContainerConfig = z.infer<typeof containerConfigSchema>;
+
+export const buildDeploySchema = z.object({
+  pipelines: z.array(pipelineSchema),
+  // Actions the workflows use, as owner/name@version
+  actions: z.array(z.string()),
+  deployTargets: z.array(deployTargetSchema),
+  containers: z.array(containerConfigSchema),
+});
+
+export type BuildDeploy = z.infer<typeof buildDeploySchema>;
+
+// Community health and governance files, like a license and contributing guide
+export const communityCheckSchema = z.object({
+  key: z.enum(["license", "contributing", "codeOfConduct", "security", "issueTemplates", "pullRequestTemplate", "codeowners", "funding"]),
+  label: z.string(),
+  // "weak" files are present but fall short, like a stub or a placeholder contact
+  status: z.enum(["pass", "weak", "missing"]),
+  // File in the repository; null when missing or only on the host
+  path: z.string().nullable(),
+  // The file's page on the host, from its community profile
+  url: z.string().nullable(),
+  detail: z.string().nullable(),
+});
+
+export type CommunityCheck = z.infer<typeof communityCheckSchema>;
+
+export const communityProfileSchema = z.object({
+  // The host's own score; null for hosts without a community profile
+  healthPercentage: z.number().nullable(),
+  checks: z.array(communityCheckSchema),
+});
+
+export type CommunityProfile = z.infer<typeof communityProfileSchema>;
+
 // Dependency data
 export const dependencySchema = z.object({
   name: z.string(),
+  // Version or range as declared in the manifest
   version: z.string(),
-  status: z.enum(["Up to date", "Update available", "Outdated"]),
+  ecosystem: z.enum(["npm", "pypi", "go", "cargo", "maven"]),
+  manifest: z.string(),
+  dev: z.boolean(),
+  resolvedVersion: z.string().optional(),
+  latestVersion: z.string().optional(),
+  semverDistance: z.object({
+    major: z.number(),
+    minor: z.number(),
+    patch: z.number(),
+  }).optional(),
+  status: z.enum(["Up to date", "Update available", "Outdated", "Unknown"]),
+});
+
+export type Dependency = z.infer<typeof dependencySchema>;
+
+// Signal contributing to the code quality score
+export const qualitySignalSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  // 0-100
+  score: z.number(),
+  weight: z.number(),
+  // Signals that don't apply to a repository are excluded from the score
+  applicable: z.boolean(),
+  detail: z.string(),
+});
+
+export type QualitySignal = z.infer<typeof qualitySignalSchema>;
+
+// Line and branch coverage of a single file
+export const fileCoverageSchema = z.object({
+  path: z.string(),
+  linesFound: z.number(),
+  linesHit: z.number(),
+  branchesFound: z.number(),
+  branchesHit: z.number(),
+});
+
+export type FileCoverage = z.infer<typeof fileCoverageSchema>;
+
+// Parsed coverage report
+export const coverageReportSchema = z.object({
+  format: z.enum(["lcov", "cobertura", "jacoco", "clover"]),
+  // Whether the report was committed to the repository or uploaded
+  source: z.enum(["repository", "upload"]),
+  reportPath: z.string().optional(),
+  // Percentages, branchRate is null when the report has no branch data
+  lineRate: z.number(),
+  branchRate: z.number().nullable(),
+  files: z.array(fileCoverageSchema),
+});
+
+export type CoverageReport = z.infer<typeof coverageReportSchema>;
+
+// Repository contributor with commit counts
+export const contributorSchema = z.object({
+  // GitHub login, or the commit name/email for anonymous contributors
+  login: z.string(),
+  avatarUrl: z.string().optional(),
+  htmlUrl: z.string().optional(),
+  anonymous: z.boolean(),
+  contributions: z.number(),
+  // ISO dates, absent while GitHub is still computing contributor stats
+  firstContribution: z.string().optional(),
+  lastContribution: z.string().optional(),
+  // Committed within the active contributor window
+  active: z.boolean(),
+});
+
+export type Contributor = z.infer<typeof contributorSchema>;
+
+// Contributors who joined, and who came back, in a calendar quarter
+export const contributorQuarterSchema = z.object({
+  // e.g. "2024 Q3"
+  quarter: z.string(),
+  newContributors: z.number(),
+  returningContributors: z.number(),
+  // False for quarters that began before the history read, whose contributors
+  // can't be told apart as new or returning and so aren't counted
+  complete: z.boolean(),
+});
+
+// How much of a repository's history depends on a few people
+export const contributorRiskSchema = z.object({
+  // Fewest contributors who together made half of the commits
+  busFactor: z.number(),
+  topContributor: z.string().nullable(),
+  // Percentage of commits by the top contributor
+  topContributorShare: z.number(),
+  totalCommits: z.number(),
+  level: z.enum(["High", "Medium", "Low", "Unknown"]),
+  // Oldest first
+  quarters: z.array(contributorQuarterSchema),
+  // Date of the oldest commit read when older history was cut off. Contributors
+  // first seen after it may have committed before, so some new ones may be returning.
+  historyStart: z.string().nullable(),
+});
+
+export type ContributorRisk = z.infer<typeof contributorRiskSchema>;
+
+// Lines added and deleted in a week
+export const weeklyChangesSchema = z.object({
+  // ISO date of the week's Sunday
+  week: z.string(),
+  additions: z.number(),
+  // Positive count of deleted lines
+  deletions: z.number(),
 });
+
+export type WeeklyChanges = z.infer<typeof weeklyChangesSchema>;
+
+// Lines added and deleted in a calendar quarter
+export const quarterlyChurnSchema = z.object({
+  // e.g. "2024 Q3"
+  quarter: z.string(),
+  additions: z.number(),
+  deletions: z.number(),
+  // Additions minus deletions
+  net: z.number(),
+  // Deleted lines per added line; null when nothing was added
+  churnRatio: z.number().nullable(),
+  // Heavy churn that deleted nearly as much as it added
+  rewrite: z.boolean(),
+});
+
+export type QuarterlyChurn = z.infer<typeof quarterlyChurnSchema>;
+
+export const codeFrequencySchema = z.object({
+  weeks: z.array(weeklyChangesSchema),
+  quarters: z.array(quarterlyChurnSchema),
+});
+
+export type CodeFrequency = z.infer<typeof codeFrequencySchema>;
+
+// A release, or a version tag in repositories without releases
+export const releaseSchema = z.object({
+  tag: z.string(),
+  name: z.string().nullable(),
+  // ISO date it was published, or of the tagged commit
+  date: z.string(),
+  // Normalized semantic version; null for tags that aren't versions
+  version: z.string().nullable(),
+  // Most significant part that changed from the previous version
+  bump: z.enum(["major", "minor", "patch", "prerelease", "initial"]).nullable(),
+  prerelease: z.boolean(),
+});
+
+export type Release = z.infer<typeof releaseSchema>;
+
+export const releaseAnalysisSchema = z.object({
+  // Whether the releases come from the host's releases or from tags
+  source: z.enum(["releases", "tags", "none"]),
+  // Newest first
+  releases: z.array(releaseSchema),
+  totalReleases: z.number(),
+  releasesLastYear: z.number(),
+  medianDaysBetweenReleases: z.number().nullable(),
+  lastReleaseDate: z.string().nullable(),
+  daysSinceLastRelease: z.number().nullable(),
+  // Highest stable version, or the newest tag when none are versions
+  latestTag: z.string().nullable(),
+  bumpMix: z.object({
+    major: z.number(),
+    minor: z.number(),
+    patch: z.number(),
+    prerelease: z.number(),
+  }),
+  // Percentage of releases whose tags are semantic versions
+  semverShare: z.number(),
+  // Commits on the analyzed ref after the latest tag; null when unknown
+  unreleasedCommits: z.number().nullable(),
+});
+
+export type ReleaseAnalysis = z.infer<typeof releaseAnalysisSchema>;